@@ -0,0 +1,325 @@
+// Relay for online races: `npm run relay`, then point the game's lobby at
+// ws://localhost:8787. Plain Node with no dependencies, so it speaks just
+// enough WebSocket (RFC 6455) for the game: unfragmented text frames, ping
+// and close. The message shapes live in src/net/protocol.ts.
+//
+// The relay is the referee. It starts every countdown on its own clock and
+// ranks escapes in the order it receives them, so no client's clock or
+// claimed time decides who won.
+import { createServer } from 'node:http'
+import { createHash, randomUUID } from 'node:crypto'
+
+const PORT = Number(process.env.PORT ?? 8787)
+const PROTOCOL_VERSION = 1
+const MIN_RACERS = 2
+const MAX_RACERS = 8
+const COUNTDOWN_MS = 3000
+// Once someone escapes, everyone else has this long before the race is called
+const FINISH_GRACE_MS = 60000
+const MAX_FRAME_BYTES = 64 * 1024
+const MAX_NAME_LENGTH = 20
+const MODES = ['classic', 'sanity', 'practice']
+const COLORS = ['#ff2020', '#20a0ff', '#ffd21f', '#3aff6a', '#c04dff', '#ff8c00', '#00e5e5', '#ff5ce1']
+const WEBSOCKET_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11'
+
+const OPCODE_TEXT = 0x1
+const OPCODE_CLOSE = 0x8
+const OPCODE_PING = 0x9
+const OPCODE_PONG = 0xa
+
+function encodeFrame(opcode, payload) {
+  const length = payload.length
+  const header = length < 126 ? Buffer.alloc(2) : length < 65536 ? Buffer.alloc(4) : Buffer.alloc(10)
+  header[0] = 0x80 | opcode
+  if (length < 126) {
+    header[1] = length
+  } else if (length < 65536) {
+    header[1] = 126
+    header.writeUInt16BE(length, 2)
+  } else {
+    header[1] = 127
+    header.writeBigUInt64BE(BigInt(length), 2)
+  }
+  return Buffer.concat([header, payload])
+}
+
+// Accumulates socket data and hands complete frames to `onFrame`, which
+// returns false to stop reading. Returns false once the peer has broken the
+// protocol or reading has stopped, and the connection must be dropped.
+function createFrameReader(onFrame) {
+  let pending = Buffer.alloc(0)
+  return chunk => {
+    pending = Buffer.concat([pending, chunk])
+    while (pending.length >= 2) {
+      const fin = (pending[0] & 0x80) !== 0
+      const opcode = pending[0] & 0x0f
+      const masked = (pending[1] & 0x80) !== 0
+      let length = pending[1] & 0x7f
+      let offset = 2
+      if (length === 126) {
+        if (pending.length < 4) return true
+        length = pending.readUInt16BE(2)
+        offset = 4
+      } else if (length === 127) {
+        if (pending.length < 10) return true
+        length = Number(pending.readBigUInt64BE(2))
+        offset = 10
+      }
+      // Clients must mask, and nothing the game sends comes near the cap
+      if (!fin || !masked || length > MAX_FRAME_BYTES) return false
+      if (pending.length < offset + 4 + length) return true
+      const mask = pending.subarray(offset, offset + 4)
+      const payload = Buffer.from(pending.subarray(offset + 4, offset + 4 + length))
+      for (let i = 0; i < payload.length; i++) payload[i] ^= mask[i % 4]
+      pending = pending.subarray(offset + 4 + length)
+      if (!onFrame(opcode, payload)) {
+        pending = Buffer.alloc(0)
+        return false
+      }
+    }
+    return true
+  }
+}
+
+// room name -> { name, phase, hostId, levelId, seed, mode, players, finishers, startAt, timers }
+const rooms = new Map()
+
+function randomSeed() {
+  return Math.floor(Math.random() * 2 ** 31)
+}
+
+function roomMessage(room) {
+  return {
+    type: 'room',
+    room: room.name,
+    phase: room.phase,
+    hostId: room.hostId,
+    levelId: room.levelId,
+    seed: room.seed,
+    mode: room.mode,
+    players: [...room.players.values()].map(({ id, name, color, ready }) => ({ id, name, color, ready })),
+  }
+}
+
+function broadcast(room, message, exceptId) {
+  for (const player of room.players.values()) {
+    if (player.id !== exceptId) player.send(message)
+  }
+}
+
+function hasFinished(room, player) {
+  return room.finishers.some(entry => entry.id === player.id)
+}
+
+// Escapees in the order they reached the relay (even if they have since
+// left), then everyone still lost
+function standings(room) {
+  const lost = [...room.players.values()]
+    .filter(player => !hasFinished(room, player))
+    .map(({ id, name, color, deaths }) => ({ id, name, color, deaths, time: null }))
+  return [...room.finishers, ...lost]
+}
+
+function allFinished(room) {
+  return [...room.players.values()].every(player => hasFinished(room, player))
+}
+
+function clearTimers(room) {
+  room.timers.forEach(clearTimeout)
+  room.timers = []
+}
+
+function backToLobby(room) {
+  clearTimers(room)
+  room.phase = 'lobby'
+  room.finishers = []
+  room.startAt = null
+  // A fresh maze for the rematch
+  room.seed = randomSeed()
+  for (const player of room.players.values()) {
+    player.ready = false
+    player.deaths = 0
+  }
+  broadcast(room, roomMessage(room))
+}
+
+function endRace(room) {
+  broadcast(room, { type: 'standings', standings: standings(room), final: true })
+  backToLobby(room)
+}
+
+function maybeStart(room) {
+  const players = [...room.players.values()]
+  if (room.phase !== 'lobby' || players.length < MIN_RACERS || !players.every(player => player.ready)) return
+  room.phase = 'countdown'
+  room.startAt = Date.now() + COUNTDOWN_MS
+  broadcast(room, roomMessage(room))
+  broadcast(room, { type: 'countdown', startAt: room.startAt })
+  room.timers.push(
+    setTimeout(() => {
+      room.phase = 'racing'
+      broadcast(room, roomMessage(room))
+    }, COUNTDOWN_MS),
+  )
+}
+
+function finish(room, player, deaths) {
+  if (room.phase !== 'racing' || hasFinished(room, player)) return
+  player.deaths = deaths
+  room.finishers.push({ id: player.id, name: player.name, color: player.color, deaths, time: Date.now() - room.startAt })
+  if (allFinished(room)) {
+    endRace(room)
+    return
+  }
+  broadcast(room, { type: 'standings', standings: standings(room), final: false })
+  if (room.finishers.length === 1) room.timers.push(setTimeout(() => endRace(room), FINISH_GRACE_MS))
+}
+
+function leave(room, player) {
+  room.players.delete(player.id)
+  if (room.players.size === 0) {
+    clearTimers(room)
+    rooms.delete(room.name)
+    return
+  }
+  if (room.hostId === player.id) room.hostId = room.players.keys().next().value
+  if (room.phase === 'countdown' && room.players.size < MIN_RACERS) {
+    backToLobby(room)
+  } else if (room.phase === 'racing' && allFinished(room)) {
+    endRace(room)
+  } else {
+    broadcast(room, roomMessage(room))
+  }
+}
+
+function isName(value) {
+  return typeof value === 'string' && value.trim().length > 0 && value.trim().length <= MAX_NAME_LENGTH
+}
+
+function join(player, message) {
+  if (message.version !== PROTOCOL_VERSION) {
+    return `This relay speaks protocol ${PROTOCOL_VERSION}; the game sent ${JSON.stringify(message.version)}`
+  }
+  if (!isName(message.room) || !isName(message.name)) {
+    return `Room and player names must be 1 to ${MAX_NAME_LENGTH} characters`
+  }
+  let room = rooms.get(message.room.trim())
+  if (!room) {
+    if (typeof message.levelId !== 'string' || !Number.isInteger(message.seed) || !MODES.includes(message.mode)) {
+      return 'The room settings are malformed'
+    }
+    room = {
+      name: message.room.trim(),
+      phase: 'lobby',
+      hostId: player.id,
+      levelId: message.levelId,
+      seed: message.seed,
+      mode: message.mode,
+      players: new Map(),
+      finishers: [],
+      startAt: null,
+      timers: [],
+    }
+    rooms.set(room.name, room)
+  } else if (room.phase !== 'lobby') {
+    return 'That room is mid-race; try again when it finishes'
+  } else if (room.players.size >= MAX_RACERS) {
+    return 'That room is full'
+  }
+  const taken = new Set([...room.players.values()].map(other => other.color))
+  player.name = message.name.trim()
+  player.color = COLORS.find(color => !taken.has(color)) ?? COLORS[0]
+  player.room = room
+  room.players.set(player.id, player)
+  player.send({ type: 'welcome', id: player.id })
+  broadcast(room, roomMessage(room))
+  return null
+}
+
+function handleMessage(player, message) {
+  if (message.type === 'ping' && typeof message.sent === 'number') {
+    player.send({ type: 'pong', sent: message.sent, serverTime: Date.now() })
+    return
+  }
+  const room = player.room
+  if (!room) {
+    const error = message.type === 'join' ? join(player, message) : 'Join a room first'
+    if (error) player.send({ type: 'error', message: error })
+    return
+  }
+  switch (message.type) {
+    case 'ready':
+      if (room.phase !== 'lobby') return
+      player.ready = message.ready === true
+      broadcast(room, roomMessage(room))
+      maybeStart(room)
+      return
+    case 'snapshot':
+      if (room.phase !== 'racing') return
+      if (![message.time, message.attempt, message.x, message.z].every(Number.isFinite)) return
+      broadcast(room, { type: 'snapshot', id: player.id, time: message.time, attempt: message.attempt, x: message.x, z: message.z }, player.id)
+      return
+    case 'finish':
+      finish(room, player, Number.isInteger(message.deaths) && message.deaths >= 0 ? message.deaths : 0)
+      return
+  }
+}
+
+const server = createServer((_, response) => {
+  response.writeHead(426, { 'Content-Type': 'text/plain' })
+  response.end('This is the maze race relay; connect over WebSocket.\n')
+})
+
+server.on('upgrade', (request, socket) => {
+  const key = request.headers['sec-websocket-key']
+  if (request.headers.upgrade?.toLowerCase() !== 'websocket' || typeof key !== 'string') {
+    socket.end('HTTP/1.1 400 Bad Request\r\n\r\n')
+    return
+  }
+  const accept = createHash('sha1').update(key + WEBSOCKET_GUID).digest('base64')
+  socket.write(
+    'HTTP/1.1 101 Switching Protocols\r\nUpgrade: websocket\r\nConnection: Upgrade\r\n' +
+    `Sec-WebSocket-Accept: ${accept}\r\n\r\n`,
+  )
+  socket.setNoDelay(true)
+
+  const player = { id: randomUUID(), name: '', color: COLORS[0], ready: false, deaths: 0, room: null }
+  let open = true
+  player.send = message => {
+    if (open) socket.write(encodeFrame(OPCODE_TEXT, Buffer.from(JSON.stringify(message))))
+  }
+  const close = () => {
+    if (!open) return
+    open = false
+    if (player.room) leave(player.room, player)
+    socket.end(encodeFrame(OPCODE_CLOSE, Buffer.alloc(0)))
+  }
+
+  const read = createFrameReader((opcode, payload) => {
+    // Frames that arrive after a close, in the same chunk or a later one, are ignored
+    if (!open) return false
+    if (opcode === OPCODE_CLOSE) {
+      close()
+    } else if (opcode === OPCODE_PING) {
+      socket.write(encodeFrame(OPCODE_PONG, payload))
+    } else if (opcode === OPCODE_TEXT) {
+      let message
+      try {
+        message = JSON.parse(payload.toString('utf8'))
+      } catch {
+        return open
+      }
+      if (message && typeof message === 'object') handleMessage(player, message)
+    }
+    return open
+  })
+  socket.on('data', chunk => {
+    if (!read(chunk)) close()
+  })
+  socket.on('close', close)
+  socket.on('error', close)
+})
+
+server.listen(PORT, () => {
+  console.log(`Race relay listening on ws://localhost:${PORT}`)
+})
@@ -0,0 +1,143 @@
+import { Children, ReactNode, isValidElement } from 'react'
+import { act, fireEvent, render, screen } from '@testing-library/react'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import App from './App'
+
+interface SceneCallbacks {
+  onLose: (reason: 'wall' | 'caught' | 'sanity') => void
+  onWin: () => void
+}
+
+// The 3D scene needs WebGL, so the Canvas only keeps hold of what it was
+// asked to draw; tests drive the scene's callbacks directly
+const canvas = vi.hoisted(() => ({ children: null as unknown, mounts: 0 }))
+
+vi.mock('@react-three/fiber', async () => {
+  const { useEffect } = await import('react')
+  return {
+    Canvas: ({ children }: { children: ReactNode }) => {
+      canvas.children = children
+      useEffect(() => {
+        canvas.mounts++
+      }, [])
+      return <div data-testid="canvas" />
+    },
+    useFrame: () => {},
+    useThree: () => ({}),
+  }
+})
+
+vi.mock('@react-three/postprocessing', () => ({
+  EffectComposer: () => null,
+}))
+
+vi.mock('@react-three/drei', () => ({
+  Environment: () => null,
+  Lightformer: () => null,
+  Text: () => null,
+  Float: ({ children }: { children: ReactNode }) => children,
+}))
+
+function findScene(node: unknown): SceneCallbacks | null {
+  if (!isValidElement(node)) return null
+  const props = node.props as Partial<SceneCallbacks> & { children?: ReactNode }
+  if (props.onLose && props.onWin) return props as SceneCallbacks
+  for (const child of Children.toArray(props.children)) {
+    const scene = findScene(child)
+    if (scene) return scene
+  }
+  return null
+}
+
+function scene(): SceneCallbacks {
+  const found = findScene(canvas.children)
+  if (!found) throw new Error('No scene inside the canvas')
+  return found
+}
+
+function startCampaign() {
+  fireEvent.click(screen.getByRole('button', { name: 'ENTER IF YOU DARE' }))
+  fireEvent.click(screen.getByRole('button', { name: "I'M NOT AFRAID" }))
+}
+
+describe('App', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+    canvas.children = null
+    canvas.mounts = 0
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('starts on the title screen', () => {
+    render(<App />)
+    expect(screen.getByText('THE MAZE')).toBeInTheDocument()
+    expect(screen.queryByRole('button', { name: 'Pause' })).not.toBeInTheDocument()
+  })
+
+  it('goes from start to playing behind the jumpscare warning', () => {
+    render(<App />)
+    fireEvent.click(screen.getByRole('button', { name: 'ENTER IF YOU DARE' }))
+    expect(screen.getByText(/WARNING: Contains jumpscare/)).toBeInTheDocument()
+    fireEvent.click(screen.getByRole('button', { name: "I'M NOT AFRAID" }))
+
+    expect(screen.queryByText('THE MAZE')).not.toBeInTheDocument()
+    expect(screen.getByText('The Crypt')).toBeInTheDocument()
+  })
+
+  it('shows the jumpscare on a loss, then drops back into a fresh attempt', () => {
+    render(<App />)
+    startCampaign()
+    const mounts = canvas.mounts
+
+    act(() => scene().onLose('wall'))
+    expect(screen.getByText('YOU DIED')).toBeInTheDocument()
+    expect(screen.queryByText('The Crypt')).not.toBeInTheDocument()
+
+    act(() => {
+      vi.advanceTimersByTime(3500)
+    })
+    expect(screen.queryByText('YOU DIED')).not.toBeInTheDocument()
+    expect(screen.getByText('The Crypt')).toBeInTheDocument()
+    // The scene is remounted so the attempt starts over
+    expect(canvas.mounts).toBeGreaterThan(mounts)
+  })
+
+  it('names the enemy when it was the hunter', () => {
+    render(<App />)
+    startCampaign()
+    act(() => scene().onLose('caught'))
+    expect(screen.getByText('IT CAUGHT YOU')).toBeInTheDocument()
+  })
+
+  it('wins through the campaign and restarts from the first level', () => {
+    render(<App />)
+    startCampaign()
+
+    act(() => scene().onWin())
+    expect(screen.getByText('THE CRYPT ESCAPED')).toBeInTheDocument()
+    fireEvent.click(screen.getByRole('button', { name: 'NEXT LEVEL' }))
+    expect(screen.getByText('The Catacombs')).toBeInTheDocument()
+
+    act(() => scene().onWin())
+    fireEvent.click(screen.getByRole('button', { name: 'NEXT LEVEL' }))
+    expect(screen.getByText('The Abyss')).toBeInTheDocument()
+
+    act(() => scene().onWin())
+    expect(screen.getByText('YOU ESCAPED!')).toBeInTheDocument()
+    fireEvent.click(screen.getByRole('button', { name: 'PLAY AGAIN' }))
+
+    expect(screen.queryByText('YOU ESCAPED!')).not.toBeInTheDocument()
+    expect(screen.getByText('The Crypt')).toBeInTheDocument()
+  })
+
+  it('offers a copyable result after an escape', () => {
+    render(<App />)
+    startCampaign()
+    act(() => scene().onWin())
+    expect(screen.getByLabelText('Shareable result')).toHaveTextContent('THE MAZE · The Crypt')
+    expect(screen.getByRole('button', { name: 'Copy result' })).toBeInTheDocument()
+  })
+})
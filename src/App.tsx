@@ -1,288 +1,1364 @@
-import { useState, useRef, useEffect, useCallback, Suspense } from 'react'
+import { useState, useRef, useEffect, useCallback, useMemo, Suspense, MutableRefObject, RefObject, ChangeEvent, FormEvent } from 'react'
 import { Canvas, useFrame, useThree } from '@react-three/fiber'
-import { Environment, Text, Float } from '@react-three/drei'
+import { Environment, Lightformer, Text, Float } from '@react-three/drei'
+import { EffectComposer } from '@react-three/postprocessing'
+import {
+  BlendFunction,
+  ChromaticAberrationEffect,
+  NoiseEffect,
+  ScanlineEffect,
+  ToneMappingEffect,
+  ToneMappingMode,
+  VignetteEffect,
+} from 'postprocessing'
 import * as THREE from 'three'
+import creepsterFont from '@fontsource/creepster/files/creepster-latin-400-normal.woff'
+import { CELL, GridPoint, KeyColor, MazeGrid, PickupType, doorColor, gateDirection, keyColor, pickupType } from './maze/grid'
+import { randomSeed } from './maze/random'
+import { Blackout, Decoration, Hunter, Level, Trigger } from './levels/format'
+import { LevelValidationError, loadLevel } from './levels/load'
+import { CAMPAIGN } from './levels/campaign'
+import { SEEDED_LEVEL, challengeUrl, dailySeed, describeSeed, normalizeSeed, seedFromUrl } from './levels/seeded'
+import { EditorDocument, fromLevel } from './editor/document'
+import LevelEditor from './editor/LevelEditor'
+import { Replay, ReplayError, ReplayOutcome, createReplay, parseReplay, quantizeInput } from './replay/format'
+import { PlaybackClock, ReplayPlayback, simulateReplay } from './replay/playback'
+import { ghostKey, layoutKey, loadGhost, saveGhostIfBest } from './replay/ghosts'
+import ReplayViewer from './replay/ReplayViewer'
+import { EMPTY_RUN, RunStats, formatDuration, scoreRun } from './scores/scoring'
+import { Submission, createLocalLeaderboard } from './scores/leaderboard'
+import { formatShareResult } from './scores/share'
+import { browserStore } from './storage/keyValue'
+import { DIFFICULTY_MODES, DifficultyMode, MAX_SANITY } from './game/difficulty'
+import { NO_DREAD, measureDread } from './game/dread'
+import { LOW_BATTERY, beamStrength } from './game/flashlight'
+import { EMPTY_INVENTORY, Inventory, KEY_COLOR_HEX } from './game/items'
+import {
+  DueAction,
+  SLIDE_SECONDS,
+  actionsBetween,
+  dueActions,
+  fakeGoalCells,
+  isFakeGoalShown,
+  lungeProgress,
+  slidingWallCells,
+  triggeredBlackouts,
+} from './game/triggers'
+import { getAudioEngine } from './audio/engine'
+import SoundPanel from './audio/SoundPanel'
+import {
+  CAMERA_MODES,
+  CHASE_HEIGHT,
+  CameraMode,
+  EYE_HEIGHT,
+  MAX_PITCH,
+  chaseDistance,
+  nextCameraMode,
+  usesViewRelativeInput,
+  viewToWorldInput,
+  yawTowards,
+} from './game/camera'
+import { findPath } from './maze/solve'
+import { buildWallChunks } from './render/walls'
+import { TORCH_LIGHT_POOL, blackoutLevel, flicker, nearestTorches } from './render/lighting'
+import { BloodPulseEffect, createScreenEffects, updateScreenEffects } from './render/screenEffects'
+import { Exploration, createExploration, explore, isVisited } from './map/exploration'
+import Minimap from './map/Minimap'
+import { KeyBindings, loadBindings, saveBindings } from './input/bindings'
+import { InputController, createInputController } from './input/controller'
+import ControlsScreen from './input/ControlsScreen'
+import TouchControls from './input/TouchControls'
+import { AccessibilityOptions, Preferences, loadPreferences, savePreferences, withSystemMotion } from './settings/preferences'
+import { EffectsQuality, GraphicsQuality, effectsPreset, graphicsPreset } from './settings/graphics'
+import SettingsPanel from './settings/SettingsPanel'
+import PauseMenu from './settings/PauseMenu'
+import {
+  RACE_PLAYERS,
+  RaceClock,
+  RacerResult,
+  formatRaceTime,
+  pauseRaceClock,
+  raceElapsed,
+  raceStandings,
+  resumeRaceClock,
+  startRaceClock,
+} from './race/race'
+import RaceResults from './race/RaceResults'
+import { PositionSnapshot, RoomPlayer, RoomState, SNAPSHOT_INTERVAL_MS, ServerMessage, Standing } from './net/protocol'
+import { INTERPOLATION_DELAY_MS, pushSnapshot, sampleSnapshots } from './net/sync'
+import { RelayConnection, connectToRelay } from './net/client'
+import OnlineLobby, { JoinDetails } from './net/OnlineLobby'
+import OnlineResults from './net/OnlineResults'
+import { JumpscareIntensity, REDUCED_MOTION_QUERY, paletteColors, safeFlashPeriod } from './settings/accessibility'
+import {
+  FiredTrigger,
+  PlayerInput,
+  SimState,
+  consumeFrame,
+  createSimState,
+  createWorld,
+  interpolate,
+  step,
+  TICK_RATE,
+} from './game/simulation'
+import { CELL_SIZE, WALL_HEIGHT, PLAYER_RADIUS, cellCenter, worldToCell } from './game/constants'
+
+type LossReason = 'wall' | 'caught' | 'sanity'
+
+const LOSS_MESSAGES: Record<LossReason, string> = {
+  wall: 'YOU DIED',
+  caught: 'IT CAUGHT YOU',
+  sanity: 'YOUR MIND BROKE',
+}
 
-// Maze layout: 1 = wall, 0 = path, 2 = start, 3 = goal
-const MAZE_LAYOUT = [
-  [1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1],
-  [1, 2, 0, 0, 0, 1, 0, 0, 0, 1, 0, 0, 0, 0, 1],
-  [1, 1, 1, 1, 0, 1, 0, 1, 0, 1, 0, 1, 1, 0, 1],
-  [1, 0, 0, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1, 0, 1],
-  [1, 0, 1, 1, 1, 1, 1, 1, 1, 1, 1, 0, 1, 0, 1],
-  [1, 0, 0, 0, 0, 0, 0, 0, 0, 0, 1, 0, 0, 0, 1],
-  [1, 1, 1, 0, 1, 1, 1, 1, 1, 0, 1, 1, 1, 0, 1],
-  [1, 0, 0, 0, 1, 0, 0, 0, 0, 0, 0, 0, 0, 0, 1],
-  [1, 0, 1, 1, 1, 0, 1, 1, 1, 1, 1, 1, 1, 0, 1],
-  [1, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 1, 0, 1],
-  [1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 0, 1, 0, 1],
-  [1, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 1, 0, 1],
-  [1, 0, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 0, 1],
-  [1, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 3, 1],
-  [1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1],
-]
-
-const CELL_SIZE = 2
-const WALL_HEIGHT = 3
-const PLAYER_RADIUS = 0.3
-
-// Grim reaper jumpscare video URLs (scary clips from the web)
-const JUMPSCARE_VIDEO = 'https://www.youtube.com/embed/0c5_7Kk4cNA?autoplay=1&controls=0&showinfo=0&rel=0&loop=1&start=0&end=3'
+// Read out by screen readers; the shouty versions above are spelled out letter by letter
+const LOSS_ANNOUNCEMENTS: Record<LossReason, string> = {
+  wall: 'You touched a wall and died.',
+  caught: 'A hunter caught you.',
+  sanity: 'Your sanity ran out.',
+}
 
-interface PlayerControllerProps {
-  onWallCollision: () => void
-  onWin: () => void
-  gameActive: boolean
+const leaderboard = createLocalLeaderboard(browserStore)
+
+interface AttemptProgress {
+  ticks: number
+  distance: number
+  sanity: number
+  inventory: Inventory
 }
 
-function PlayerController({ onWallCollision, onWin, gameActive }: PlayerControllerProps) {
-  const { camera } = useThree()
-  const playerPos = useRef(new THREE.Vector3(1.5 * CELL_SIZE, 0.5, 1.5 * CELL_SIZE))
-  const velocity = useRef(new THREE.Vector2(0, 0))
-  const keys = useRef<{ [key: string]: boolean }>({})
+const FRESH_ATTEMPT: AttemptProgress = { ticks: 0, distance: 0, sanity: MAX_SANITY, inventory: EMPTY_INVENTORY }
 
-  // Find start and goal positions
-  const startPos = useRef({ x: 1, z: 1 })
-  const goalPos = useRef({ x: 13, z: 13 })
+// Latest two simulation ticks plus how far the current frame sits between them
+interface SimFrame {
+  previous: SimState
+  current: SimState
+  alpha: number
+}
 
-  useEffect(() => {
-    for (let z = 0; z < MAZE_LAYOUT.length; z++) {
-      for (let x = 0; x < MAZE_LAYOUT[z].length; x++) {
-        if (MAZE_LAYOUT[z][x] === 2) {
-          startPos.current = { x, z }
-          playerPos.current.set((x + 0.5) * CELL_SIZE, 0.5, (z + 0.5) * CELL_SIZE)
-        }
-        if (MAZE_LAYOUT[z][x] === 3) {
-          goalPos.current = { x, z }
-        }
-      }
+function followCamera(camera: THREE.Camera, x: number, z: number) {
+  // Update camera to follow player (top-down view)
+  camera.position.set(x, 15, z + 5)
+  camera.lookAt(x, 0, z)
+}
+
+interface PlayerSphereProps {
+  meshRef: RefObject<THREE.Mesh>
+  position: { x: number; z: number }
+  color: string
+}
+
+function PlayerSphere({ meshRef, position, color }: PlayerSphereProps) {
+  return (
+    <mesh ref={meshRef} position={[position.x, 0.3, position.z]}>
+      <sphereGeometry args={[PLAYER_RADIUS, 16, 16]} />
+      <meshStandardMaterial color={color} emissive={color} emissiveIntensity={0.5} />
+      <pointLight color={color} intensity={2} distance={5} />
+    </mesh>
+  )
+}
+
+// Yaw/pitch from mouse look, plus head-bob phase for first person
+interface ViewState {
+  yaw: number
+  pitch: number
+  bob: number
+}
+
+const MOUSE_SENSITIVITY = 0.0025
+// Keyboard and gamepad turning for players without a mouse
+const TURN_SPEED = 2.5
+const BOB_AMPLITUDE = 0.06
+// Radians of bob cycle per world unit walked
+const BOB_FREQUENCY = 4
+
+// Pitch only applies in first person; the chase camera always looks at the player
+function turnView(view: ViewState, mode: CameraMode, yaw: number, pitch: number) {
+  view.yaw += yaw
+  if (mode === 'first-person') {
+    view.pitch = Math.max(-MAX_PITCH, Math.min(MAX_PITCH, view.pitch + pitch))
+  }
+}
+
+function placeCamera(camera: THREE.Camera, mode: CameraMode, grid: MazeGrid, x: number, z: number, view: ViewState) {
+  if (mode === 'top-down') {
+    followCamera(camera, x, z)
+  } else if (mode === 'first-person') {
+    camera.position.set(x, EYE_HEIGHT + Math.sin(view.bob) * BOB_AMPLITUDE, z)
+    camera.rotation.set(view.pitch, view.yaw, 0, 'YXZ')
+  } else {
+    const distance = chaseDistance(grid, x, z, view.yaw)
+    camera.position.set(x + Math.sin(view.yaw) * distance, CHASE_HEIGHT, z + Math.cos(view.yaw) * distance)
+    camera.lookAt(x, 0.5, z)
+  }
+}
+
+// Initial facing: down the first corridor towards the goal
+function initialYaw(level: Level): number {
+  const path = findPath(level.grid, level.start, level.goal)
+  if (!path || path.length < 2) return 0
+  return yawTowards(path[1].x - path[0].x, path[1].z - path[0].z)
+}
+
+const FLASHLIGHT_INTENSITY = 6
+const LANTERN_INTENSITY = 3
+
+interface FlashlightProps {
+  frame: MutableRefObject<SimFrame>
+  cameraMode: CameraMode
+  // The low-battery flicker swings the main light hard and fast, so it is
+  // reserved for full jumpscares, like the near-miss pulse
+  flickers: boolean
+}
+
+// Spotlight that rides on the camera, pointing where it looks; the top-down
+// view gets a lantern over the player instead. Both dim with the battery.
+function Flashlight({ frame, cameraMode, flickers }: FlashlightProps) {
+  const { camera } = useThree()
+  const spot = useRef<THREE.SpotLight>(null)
+  const lantern = useRef<THREE.PointLight>(null)
+  const forward = useMemo(() => new THREE.Vector3(), [])
+
+  useFrame(({ clock }) => {
+    const { previous, current, alpha } = frame.current
+    const { battery } = current.inventory
+    let strength = beamStrength(battery)
+    if (flickers && battery < LOW_BATTERY) {
+      strength *= flicker(clock.elapsedTime * 1.5, 0, 0.6)
     }
-  }, [])
+    if (spot.current) {
+      camera.getWorldDirection(forward)
+      spot.current.position.copy(camera.position)
+      spot.current.target.position.copy(camera.position).add(forward)
+      spot.current.target.updateMatrixWorld()
+      spot.current.intensity = FLASHLIGHT_INTENSITY * strength
+    }
+    if (lantern.current) {
+      lantern.current.position.set(interpolate(previous.x, current.x, alpha), 1.5, interpolate(previous.z, current.z, alpha))
+      lantern.current.intensity = LANTERN_INTENSITY * strength
+    }
+  })
+
+  return cameraMode === 'top-down' ? (
+    <pointLight ref={lantern} color="#ffe8c0" distance={7} decay={1.5} />
+  ) : (
+    <spotLight ref={spot} color="#ffe8c0" distance={18} angle={0.5} penumbra={0.45} decay={1.5} />
+  )
+}
+
+interface PlayerControllerProps {
+  level: Level
+  difficulty: DifficultyMode
+  cameraMode: CameraMode
+  input: InputController
+  accessibility: AccessibilityOptions
+  // Shared with other renderers (enemies) that draw from the same simulation
+  frame: MutableRefObject<SimFrame>
+  onLose: (reason: LossReason) => void
+  onWin: () => void
+  // Called with the exact input consumed by every tick, for replays
+  onInput?: (input: PlayerInput) => void
+  // Mirrors the current attempt's progress for the DOM HUD
+  attempt?: MutableRefObject<AttemptProgress>
+  gameActive: boolean
+}
 
+function PlayerController({
+  level,
+  difficulty,
+  cameraMode,
+  input,
+  accessibility,
+  frame,
+  onLose,
+  onWin,
+  onInput,
+  attempt,
+  gameActive,
+}: PlayerControllerProps) {
+  const { camera, gl } = useThree()
+  const mesh = useRef<THREE.Mesh>(null)
+  const accumulator = useRef(0)
+  const view = useRef<ViewState>({ yaw: initialYaw(level), pitch: 0, bob: 0 })
+  const world = useMemo(() => createWorld(level, difficulty), [level, difficulty])
+  const lookEnabled = gameActive && usesViewRelativeInput(cameraMode)
+  // Read by the mouse handler so switching modes doesn't re-subscribe and drop pointer lock
+  const lookOptions = useRef({ cameraMode, pitchSign: accessibility.invertLook ? -1 : 1 })
+  lookOptions.current = { cameraMode, pitchSign: accessibility.invertLook ? -1 : 1 }
+
+  // Pointer lock for mouse look; clicking the canvas captures the mouse
   useEffect(() => {
-    const handleKeyDown = (e: KeyboardEvent) => {
-      keys.current[e.key.toLowerCase()] = true
+    const canvas = gl.domElement
+    if (!lookEnabled) {
+      if (document.pointerLockElement === canvas) document.exitPointerLock()
+      return
+    }
+    const handleClick = () => {
+      if (document.pointerLockElement !== canvas) canvas.requestPointerLock()
     }
-    const handleKeyUp = (e: KeyboardEvent) => {
-      keys.current[e.key.toLowerCase()] = false
+    const handleMouseMove = (e: MouseEvent) => {
+      if (document.pointerLockElement !== canvas) return
+      const { cameraMode: mode, pitchSign } = lookOptions.current
+      turnView(view.current, mode, -e.movementX * MOUSE_SENSITIVITY, -e.movementY * MOUSE_SENSITIVITY * pitchSign)
     }
-    window.addEventListener('keydown', handleKeyDown)
-    window.addEventListener('keyup', handleKeyUp)
+    canvas.addEventListener('click', handleClick)
+    document.addEventListener('mousemove', handleMouseMove)
     return () => {
-      window.removeEventListener('keydown', handleKeyDown)
-      window.removeEventListener('keyup', handleKeyUp)
+      canvas.removeEventListener('click', handleClick)
+      document.removeEventListener('mousemove', handleMouseMove)
+      if (document.pointerLockElement === canvas) document.exitPointerLock()
     }
-  }, [])
+  }, [gl, lookEnabled])
 
-  const checkWallCollision = useCallback((x: number, z: number): boolean => {
-    const cellX = Math.floor(x / CELL_SIZE)
-    const cellZ = Math.floor(z / CELL_SIZE)
+  useEffect(() => {
+    if (cameraMode !== 'first-person') view.current.pitch = 0
+  }, [cameraMode])
 
-    // Check bounds
-    if (cellX < 0 || cellX >= MAZE_LAYOUT[0].length || cellZ < 0 || cellZ >= MAZE_LAYOUT.length) {
-      return true
-    }
+  const readInput = useCallback((): PlayerInput => {
+    const move = input.readMove()
+    return usesViewRelativeInput(cameraMode) ? viewToWorldInput(move, view.current.yaw) : move
+  }, [input, cameraMode])
 
-    // Check if it's a wall
-    if (MAZE_LAYOUT[cellZ][cellX] === 1) {
-      return true
+  useFrame((_, delta) => {
+    // A finished attempt has already been reported; wait for the remount
+    if (!gameActive || frame.current.current.status !== 'running') return
+
+    if (usesViewRelativeInput(cameraMode)) {
+      const look = input.takeLook()
+      const pitchSign = lookOptions.current.pitchSign
+      turnView(view.current, cameraMode, look.yaw + input.readTurn() * TURN_SPEED * delta, look.pitch * pitchSign)
     }
 
-    // Check corners for better collision
-    const corners = [
-      { x: x - PLAYER_RADIUS, z: z - PLAYER_RADIUS },
-      { x: x + PLAYER_RADIUS, z: z - PLAYER_RADIUS },
-      { x: x - PLAYER_RADIUS, z: z + PLAYER_RADIUS },
-      { x: x + PLAYER_RADIUS, z: z + PLAYER_RADIUS },
-    ]
+    const { steps, accumulator: leftover, alpha } = consumeFrame(accumulator.current, delta)
+    accumulator.current = leftover
 
-    for (const corner of corners) {
-      const cx = Math.floor(corner.x / CELL_SIZE)
-      const cz = Math.floor(corner.z / CELL_SIZE)
-      if (cx >= 0 && cx < MAZE_LAYOUT[0].length && cz >= 0 && cz < MAZE_LAYOUT.length) {
-        if (MAZE_LAYOUT[cz][cx] === 1) {
-          return true
-        }
+    let { previous, current } = frame.current
+    for (let i = 0; i < steps && current.status === 'running'; i++) {
+      const tickInput = quantizeInput(readInput())
+      onInput?.(tickInput)
+      previous = current
+      current = step(current, tickInput, world)
+    }
+    frame.current = { previous, current, alpha }
+    if (attempt) {
+      attempt.current = {
+        // Time bonuses come straight off the clock
+        ticks: Math.max(0, current.tick - Math.round(current.inventory.timeBonus * TICK_RATE)),
+        distance: current.distance,
+        sanity: current.sanity,
+        inventory: current.inventory,
       }
     }
 
-    return false
-  }, [])
+    if (current.status === 'hit-wall') {
+      onLose(current.sanity <= 0 ? 'sanity' : 'wall')
+      return
+    }
+    if (current.status === 'caught') {
+      onLose('caught')
+      return
+    }
+    if (current.status === 'won') {
+      onWin()
+      return
+    }
 
-  const checkGoal = useCallback((x: number, z: number): boolean => {
-    const cellX = Math.floor(x / CELL_SIZE)
-    const cellZ = Math.floor(z / CELL_SIZE)
-    return cellX === goalPos.current.x && cellZ === goalPos.current.z
-  }, [])
+    const x = interpolate(previous.x, current.x, alpha)
+    const z = interpolate(previous.z, current.z, alpha)
+    view.current.bob = accessibility.reduceMotion ? 0 : view.current.bob + Math.hypot(current.vx, current.vz) * BOB_FREQUENCY * delta
+    if (mesh.current) {
+      mesh.current.position.set(x, 0.3, z)
+      // The camera sits inside the sphere in first person
+      mesh.current.visible = cameraMode !== 'first-person'
+    }
+    placeCamera(camera, cameraMode, level.grid, x, z, view.current)
+  })
 
-  useFrame((_, delta) => {
-    if (!gameActive) return
+  return <PlayerSphere meshRef={mesh} position={frame.current.current} color={paletteColors(accessibility.palette).player} />
+}
 
-    const speed = 5
-    const acceleration = 30
-    const friction = 10
+interface ReplayControllerProps {
+  states: SimState[]
+  clock: MutableRefObject<PlaybackClock>
+  frame: MutableRefObject<SimFrame>
+  color: string
+}
 
-    // Get input direction
-    let inputX = 0
-    let inputZ = 0
-    if (keys.current['w'] || keys.current['arrowup']) inputZ -= 1
-    if (keys.current['s'] || keys.current['arrowdown']) inputZ += 1
-    if (keys.current['a'] || keys.current['arrowleft']) inputX -= 1
-    if (keys.current['d'] || keys.current['arrowright']) inputX += 1
+// Stands in for PlayerController while watching a replay: plays recorded
+// simulation states back instead of stepping from live input
+function ReplayController({ states, clock, frame, color }: ReplayControllerProps) {
+  const { camera } = useThree()
+  const mesh = useRef<THREE.Mesh>(null)
+  const lastTick = states.length - 1
 
-    // Normalize input
-    const inputLength = Math.sqrt(inputX * inputX + inputZ * inputZ)
-    if (inputLength > 0) {
-      inputX /= inputLength
-      inputZ /= inputLength
+  useFrame((_, delta) => {
+    const playback = clock.current
+    if (playback.playing) {
+      playback.tick = Math.min(lastTick, playback.tick + delta * TICK_RATE * playback.speed)
+      if (playback.tick >= lastTick) {
+        playback.playing = false
+      }
     }
 
-    // Apply acceleration
-    velocity.current.x += inputX * acceleration * delta
-    velocity.current.y += inputZ * acceleration * delta
+    const index = Math.min(lastTick, Math.floor(playback.tick))
+    const previous = states[index]
+    const current = states[Math.min(lastTick, index + 1)]
+    const alpha = playback.tick - index
+    frame.current = { previous, current, alpha }
 
-    // Apply friction
-    velocity.current.x -= velocity.current.x * friction * delta
-    velocity.current.y -= velocity.current.y * friction * delta
+    const x = interpolate(previous.x, current.x, alpha)
+    const z = interpolate(previous.z, current.z, alpha)
+    mesh.current?.position.set(x, 0.3, z)
+    followCamera(camera, x, z)
+  })
 
-    // Clamp velocity
-    const velocityLength = velocity.current.length()
-    if (velocityLength > speed) {
-      velocity.current.multiplyScalar(speed / velocityLength)
-    }
+  return <PlayerSphere meshRef={mesh} position={states[0]} color={color} />
+}
 
-    // Calculate new position
-    const newX = playerPos.current.x + velocity.current.x * delta
-    const newZ = playerPos.current.z + velocity.current.y * delta
+// Translucent replay of the best run, kept in lockstep with the live tick
+function Ghost({ states, frame }: { states: SimState[]; frame: MutableRefObject<SimFrame> }) {
+  const mesh = useRef<THREE.Mesh>(null)
 
-    // Check collision and trigger jumpscare
-    if (checkWallCollision(newX, newZ)) {
-      onWallCollision()
-      velocity.current.set(0, 0)
-      return
-    }
+  useFrame(() => {
+    const { current, alpha } = frame.current
+    const last = states.length - 1
+    const previous = states[Math.min(last, Math.max(0, current.tick - 1))]
+    const next = states[Math.min(last, current.tick)]
+    mesh.current?.position.set(interpolate(previous.x, next.x, alpha), 0.3, interpolate(previous.z, next.z, alpha))
+  })
 
-    // Check goal
-    if (checkGoal(newX, newZ)) {
-      onWin()
-      return
-    }
+  return (
+    <mesh ref={mesh} position={[states[0].x, 0.3, states[0].z]}>
+      <sphereGeometry args={[PLAYER_RADIUS, 16, 16]} />
+      <meshStandardMaterial color="#88ccff" emissive="#88ccff" emissiveIntensity={0.6} transparent opacity={0.35} depthWrite={false} />
+    </mesh>
+  )
+}
 
-    // Update position
-    playerPos.current.x = newX
-    playerPos.current.z = newZ
+// The other racer in split-screen, drawn from their half's simulation
+function Rival({ frame, color }: { frame: MutableRefObject<SimFrame>; color: string }) {
+  const mesh = useRef<THREE.Mesh>(null)
 
-    // Update camera to follow player (top-down view)
-    camera.position.set(playerPos.current.x, 15, playerPos.current.z + 5)
-    camera.lookAt(playerPos.current.x, 0, playerPos.current.z)
+  useFrame(() => {
+    const { previous, current, alpha } = frame.current
+    mesh.current?.position.set(interpolate(previous.x, current.x, alpha), 0.3, interpolate(previous.z, current.z, alpha))
   })
 
   return (
-    <mesh position={[playerPos.current.x, 0.3, playerPos.current.z]}>
+    <mesh ref={mesh} position={[frame.current.current.x, 0.3, frame.current.current.z]}>
       <sphereGeometry args={[PLAYER_RADIUS, 16, 16]} />
-      <meshStandardMaterial color="#ff0000" emissive="#ff0000" emissiveIntensity={0.5} />
-      <pointLight color="#ff0000" intensity={2} distance={5} />
+      <meshStandardMaterial color={color} emissive={color} emissiveIntensity={0.6} transparent opacity={0.6} />
     </mesh>
   )
 }
 
-function MazeWalls() {
-  const walls: JSX.Element[] = []
+// What a scene needs for an online race: the others' recent positions and a
+// way to report its own
+interface OnlineRace {
+  rivals: RoomPlayer[]
+  snapshots: MutableRefObject<Map<string, PositionSnapshot[]>>
+  // Milliseconds since the start, on the relay's clock
+  raceTime: () => number
+  attempt: number
+  onSnapshot: (snapshot: PositionSnapshot) => void
+}
 
-  for (let z = 0; z < MAZE_LAYOUT.length; z++) {
-    for (let x = 0; x < MAZE_LAYOUT[z].length; x++) {
-      if (MAZE_LAYOUT[z][x] === 1) {
-        walls.push(
-          <mesh
-            key={`wall-${x}-${z}`}
-            position={[(x + 0.5) * CELL_SIZE, WALL_HEIGHT / 2, (z + 0.5) * CELL_SIZE]}
-          >
-            <boxGeometry args={[CELL_SIZE, WALL_HEIGHT, CELL_SIZE]} />
-            <meshStandardMaterial
-              color="#1a0a0a"
-              roughness={0.9}
-              metalness={0.1}
-            />
-          </mesh>
-        )
+// Other online racers, drawn a little in the past so their motion can be
+// interpolated between snapshots instead of jumping
+function RemoteRacers({ race }: { race: OnlineRace }) {
+  const meshes = useRef<(THREE.Mesh | null)[]>([])
+
+  useFrame(() => {
+    const time = race.raceTime() - INTERPOLATION_DELAY_MS
+    race.rivals.forEach((rival, i) => {
+      const mesh = meshes.current[i]
+      if (!mesh) return
+      const position = sampleSnapshots(race.snapshots.current.get(rival.id) ?? [], time)
+      mesh.visible = position !== null
+      if (position) mesh.position.set(position.x, 0.3, position.z)
+    })
+  })
+
+  return (
+    <>
+      {race.rivals.map((rival, i) => (
+        <mesh key={rival.id} ref={el => { meshes.current[i] = el }} visible={false}>
+          <sphereGeometry args={[PLAYER_RADIUS, 16, 16]} />
+          <meshStandardMaterial color={rival.color} emissive={rival.color} emissiveIntensity={0.6} transparent opacity={0.6} />
+        </mesh>
+      ))}
+    </>
+  )
+}
+
+function SnapshotSender({ race, frame }: { race: OnlineRace; frame: MutableRefObject<SimFrame> }) {
+  const lastSent = useRef(-Infinity)
+
+  useFrame(() => {
+    const { current } = frame.current
+    const time = race.raceTime()
+    if (current.status !== 'running' || time - lastSent.current < SNAPSHOT_INTERVAL_MS) return
+    lastSent.current = time
+    race.onSnapshot({ time, attempt: race.attempt, x: current.x, z: current.z })
+  })
+
+  return null
+}
+
+// Line-of-sight checks only rerun when the player crosses into a new cell
+function ExplorationTracker({ grid, frame, exploration }: { grid: MazeGrid; frame: MutableRefObject<SimFrame>; exploration: Exploration }) {
+  useFrame(() => {
+    const { x, z } = frame.current.current
+    const cell = { x: worldToCell(x), z: worldToCell(z) }
+    const last = exploration.player
+    if (last && last.x === cell.x && last.z === cell.z) return
+    explore(exploration, grid, cell)
+  })
+  return null
+}
+
+function Breadcrumbs({ exploration }: { exploration: Exploration }) {
+  const mesh = useRef<THREE.InstancedMesh>(null)
+  const drawn = useRef(-1)
+  const matrix = useMemo(() => new THREE.Matrix4(), [])
+  const flat = useMemo(() => new THREE.Matrix4().makeRotationX(-Math.PI / 2), [])
+
+  useFrame(() => {
+    const instances = mesh.current
+    if (!instances || drawn.current === exploration.revision) return
+    drawn.current = exploration.revision
+    let count = 0
+    for (let z = 0; z < exploration.height; z++) {
+      for (let x = 0; x < exploration.width; x++) {
+        if (!isVisited(exploration, x, z)) continue
+        matrix.copy(flat).setPosition(cellCenter(x), 0.02, cellCenter(z))
+        instances.setMatrixAt(count++, matrix)
       }
     }
-  }
+    instances.count = count
+    instances.instanceMatrix.needsUpdate = true
+  })
+
+  return (
+    <instancedMesh ref={mesh} args={[undefined, undefined, exploration.width * exploration.height]} frustumCulled={false}>
+      <circleGeometry args={[0.12, 12]} />
+      <meshBasicMaterial color="#8b1a1a" transparent opacity={0.7} />
+    </instancedMesh>
+  )
+}
+
+// One merged mesh per chunk with a single shared material; see render/walls
+function MazeWalls({ maze, highContrast }: { maze: MazeGrid; highContrast: boolean }) {
+  const chunks = useMemo(() => buildWallChunks(maze), [maze])
+  const material = useMemo(
+    () =>
+      new THREE.MeshStandardMaterial({
+        color: highContrast ? '#e0e0e0' : '#1a0a0a',
+        emissive: highContrast ? '#505050' : '#000000',
+        roughness: 0.9,
+        metalness: 0.1,
+      }),
+    [highContrast]
+  )
+
+  useEffect(() => () => chunks.forEach(chunk => chunk.geometry.dispose()), [chunks])
+  useEffect(() => () => material.dispose(), [material])
 
-  return <>{walls}</>
+  return (
+    <>
+      {chunks.map(chunk => (
+        <mesh key={chunk.key} geometry={chunk.geometry} material={material} />
+      ))}
+    </>
+  )
 }
 
-function Floor() {
+function Floor({ maze, highContrast }: { maze: MazeGrid; highContrast: boolean }) {
   return (
-    <mesh rotation={[-Math.PI / 2, 0, 0]} position={[MAZE_LAYOUT[0].length * CELL_SIZE / 2, 0, MAZE_LAYOUT.length * CELL_SIZE / 2]}>
-      <planeGeometry args={[MAZE_LAYOUT[0].length * CELL_SIZE, MAZE_LAYOUT.length * CELL_SIZE]} />
-      <meshStandardMaterial color="#0a0505" roughness={0.95} />
+    <mesh rotation={[-Math.PI / 2, 0, 0]} position={[maze[0].length * CELL_SIZE / 2, 0, maze.length * CELL_SIZE / 2]}>
+      <planeGeometry args={[maze[0].length * CELL_SIZE, maze.length * CELL_SIZE]} />
+      <meshStandardMaterial color={highContrast ? '#000000' : '#0a0505'} roughness={0.95} />
     </mesh>
   )
 }
 
-function GoalMarker() {
-  let goalX = 13
-  let goalZ = 13
-  for (let z = 0; z < MAZE_LAYOUT.length; z++) {
-    for (let x = 0; x < MAZE_LAYOUT[z].length; x++) {
-      if (MAZE_LAYOUT[z][x] === 3) {
-        goalX = x
-        goalZ = z
-      }
-    }
-  }
+interface GoalMarkerProps {
+  goal: { x: number; z: number }
+  color: string
+  animate: boolean
+  // One ring per key the exit still wants
+  requires: KeyColor[]
+  frame: MutableRefObject<SimFrame>
+}
+
+function GoalMarker({ goal, color, animate, requires, frame }: GoalMarkerProps) {
+  const { x: goalX, z: goalZ } = goal
+  const locks = useRef<(THREE.Mesh | null)[]>([])
+
+  useFrame(() => {
+    const { keys } = frame.current.current.inventory
+    requires.forEach((key, i) => {
+      const lock = locks.current[i]
+      if (lock) lock.visible = !keys.includes(key)
+    })
+  })
 
   return (
-    <Float speed={2} rotationIntensity={0.5} floatIntensity={0.5}>
-      <mesh position={[(goalX + 0.5) * CELL_SIZE, 1, (goalZ + 0.5) * CELL_SIZE]}>
-        <octahedronGeometry args={[0.5]} />
-        <meshStandardMaterial color="#00ff00" emissive="#00ff00" emissiveIntensity={1} />
-        <pointLight color="#00ff00" intensity={3} distance={8} />
-      </mesh>
-    </Float>
+    <>
+      <Float enabled={animate} speed={2} rotationIntensity={0.5} floatIntensity={0.5}>
+        <mesh position={[(goalX + 0.5) * CELL_SIZE, 1, (goalZ + 0.5) * CELL_SIZE]}>
+          <octahedronGeometry args={[0.5]} />
+          <meshStandardMaterial color={color} emissive={color} emissiveIntensity={1} />
+          <pointLight color={color} intensity={3} distance={8} />
+        </mesh>
+      </Float>
+      {requires.map((key, i) => (
+        <mesh
+          key={key}
+          ref={el => { locks.current[i] = el }}
+          position={[cellCenter(goalX), 0.4 + i * 0.25, cellCenter(goalZ)]}
+          rotation={[Math.PI / 2, 0, 0]}
+        >
+          <torusGeometry args={[0.7, 0.05, 8, 32]} />
+          <meshStandardMaterial color={KEY_COLOR_HEX[key]} emissive={KEY_COLOR_HEX[key]} emissiveIntensity={0.8} />
+        </mesh>
+      ))}
+    </>
   )
 }
 
-function Skulls() {
-  const skulls: JSX.Element[] = []
-  const positions = [
-    [3, 3], [7, 5], [11, 7], [5, 11], [9, 9], [13, 3]
-  ]
+// Triggers fire rarely, so the due list is only rebuilt when one has
+function useDueActions(triggers: Trigger[]): (fired: readonly FiredTrigger[]) => DueAction[] {
+  const cache = useRef<{ triggers: Trigger[]; fired: readonly FiredTrigger[]; due: DueAction[] } | null>(null)
+  return useCallback(
+    (fired: readonly FiredTrigger[]) => {
+      if (cache.current?.triggers !== triggers || cache.current.fired !== fired) {
+        cache.current = { triggers, fired, due: dueActions(triggers, fired) }
+      }
+      return cache.current.due
+    },
+    [triggers],
+  )
+}
+
+interface SkullsProps {
+  decorations: Decoration[]
+  triggers: Trigger[]
+  frame: MutableRefObject<SimFrame>
+  animate: boolean
+}
+
+// Skulls named by a lunge action fly at the camera and vanish; with reduced
+// motion they simply vanish
+function Skulls({ decorations, triggers, frame, animate }: SkullsProps) {
+  const { camera } = useThree()
+  const meshes = useRef<(THREE.Mesh | null)[]>([])
+  const due = useDueActions(triggers)
+  const skulls = decorations.filter(d => d.type === 'skull')
+
+  useFrame(() => {
+    const { current, alpha } = frame.current
+    const seconds = (current.tick - 1 + alpha) / TICK_RATE
+    skulls.forEach((skull, i) => {
+      const mesh = meshes.current[i]
+      if (!mesh) return
+      const progress = lungeProgress(due(current.fired), skull, seconds)
+      const home = { x: cellCenter(skull.x), y: 0.5, z: cellCenter(skull.z) }
+      if (progress === null) {
+        mesh.visible = true
+        mesh.position.set(home.x, home.y, home.z)
+        mesh.scale.setScalar(1)
+        return
+      }
+      mesh.visible = animate && progress < 1
+      // Eased in so it hangs for a beat, then comes fast
+      const t = progress * progress
+      mesh.position.set(
+        home.x + (camera.position.x - home.x) * t,
+        home.y + (camera.position.y - home.y) * t,
+        home.z + (camera.position.z - home.z) * t,
+      )
+      mesh.scale.setScalar(1 + 2 * t)
+    })
+  })
 
-  positions.forEach(([x, z], i) => {
-    if (MAZE_LAYOUT[z] && MAZE_LAYOUT[z][x] !== 1) {
-      skulls.push(
-        <Float key={`skull-${i}`} speed={1.5} rotationIntensity={0.3} floatIntensity={0.3}>
-          <mesh position={[(x + 0.5) * CELL_SIZE, 0.5, (z + 0.5) * CELL_SIZE]}>
+  return (
+    <>
+      {skulls.map(({ x, z }, i) => (
+        <Float key={`skull-${i}`} enabled={animate} speed={1.5} rotationIntensity={0.3} floatIntensity={0.3}>
+          <mesh ref={el => { meshes.current[i] = el }} position={[(x + 0.5) * CELL_SIZE, 0.5, (z + 0.5) * CELL_SIZE]}>
             <sphereGeometry args={[0.2, 8, 8]} />
             <meshStandardMaterial color="#d4c4a8" emissive="#ff6600" emissiveIntensity={0.2} />
           </mesh>
         </Float>
+      ))}
+    </>
+  )
+}
+
+interface HuntersProps {
+  hunters: Hunter[]
+  frame: MutableRefObject<SimFrame>
+}
+
+// Renders hunters from the simulation; their AI runs inside `step`
+function Hunters({ hunters, frame }: HuntersProps) {
+  const meshes = useRef<(THREE.Mesh | null)[]>([])
+  const eyes = useRef<(THREE.PointLight | null)[]>([])
+
+  useFrame(() => {
+    const { previous, current, alpha } = frame.current
+    current.hunters.forEach((hunter, i) => {
+      const before = previous.hunters[i] ?? hunter
+      meshes.current[i]?.position.set(
+        interpolate(before.x, hunter.x, alpha),
+        0.6,
+        interpolate(before.z, hunter.z, alpha),
       )
+      const light = eyes.current[i]
+      if (light) {
+        light.intensity = hunter.mode === 'chase' ? 4 : 1
+      }
+    })
+  })
+
+  return (
+    <>
+      {hunters.map((hunter, i) => (
+        <mesh
+          key={`hunter-${i}`}
+          ref={el => { meshes.current[i] = el }}
+          position={[(hunter.x + 0.5) * CELL_SIZE, 0.6, (hunter.z + 0.5) * CELL_SIZE]}
+        >
+          <sphereGeometry args={[0.45, 16, 16]} />
+          <meshStandardMaterial color="#050005" emissive="#6600aa" emissiveIntensity={0.4} roughness={1} />
+          <pointLight ref={el => { eyes.current[i] = el }} color="#aa00ff" intensity={1} distance={6} />
+        </mesh>
+      ))}
+    </>
+  )
+}
+
+interface ItemCell extends GridPoint {
+  // Matches the simulation's collected indices
+  index: number
+  key: KeyColor | null
+  pickup: PickupType | null
+}
+
+function ItemModel({ item }: { item: ItemCell }) {
+  if (item.key) {
+    const color = KEY_COLOR_HEX[item.key]
+    return (
+      <group rotation={[0, 0, Math.PI / 2]}>
+        <mesh position={[0, 0.15, 0]}>
+          <torusGeometry args={[0.1, 0.03, 8, 16]} />
+          <meshStandardMaterial color={color} emissive={color} emissiveIntensity={0.6} metalness={0.7} />
+        </mesh>
+        <mesh position={[0, -0.08, 0]}>
+          <boxGeometry args={[0.04, 0.3, 0.04]} />
+          <meshStandardMaterial color={color} emissive={color} emissiveIntensity={0.6} metalness={0.7} />
+        </mesh>
+      </group>
+    )
+  }
+  if (item.pickup === 'life') {
+    return (
+      <mesh>
+        <icosahedronGeometry args={[0.16]} />
+        <meshStandardMaterial color="#ff4d88" emissive="#ff4d88" emissiveIntensity={0.7} />
+      </mesh>
+    )
+  }
+  if (item.pickup === 'time') {
+    return (
+      <group>
+        <mesh position={[0, 0.09, 0]} rotation={[Math.PI, 0, 0]}>
+          <coneGeometry args={[0.12, 0.18, 12]} />
+          <meshStandardMaterial color="#4de1ff" emissive="#4de1ff" emissiveIntensity={0.6} />
+        </mesh>
+        <mesh position={[0, -0.09, 0]}>
+          <coneGeometry args={[0.12, 0.18, 12]} />
+          <meshStandardMaterial color="#4de1ff" emissive="#4de1ff" emissiveIntensity={0.6} />
+        </mesh>
+      </group>
+    )
+  }
+  return (
+    <mesh>
+      <cylinderGeometry args={[0.1, 0.1, 0.3, 12]} />
+      <meshStandardMaterial color="#f5d000" emissive="#f5d000" emissiveIntensity={0.6} />
+    </mesh>
+  )
+}
+
+// Keys and pickups live in the grid; each hides once the simulation has collected it
+function Items({ grid, frame, animate }: { grid: MazeGrid; frame: MutableRefObject<SimFrame>; animate: boolean }) {
+  const groups = useRef<(THREE.Group | null)[]>([])
+  const items = useMemo(
+    () =>
+      grid.flatMap((row, z) =>
+        row.flatMap((value, x): ItemCell[] => {
+          const key = keyColor(value)
+          const pickup = pickupType(value)
+          return key || pickup ? [{ x, z, index: z * row.length + x, key, pickup }] : []
+        }),
+      ),
+    [grid],
+  )
+
+  useFrame(() => {
+    const { collected } = frame.current.current.inventory
+    items.forEach((item, i) => {
+      const group = groups.current[i]
+      if (group) group.visible = !collected.includes(item.index)
+    })
+  })
+
+  return (
+    <>
+      {items.map((item, i) => (
+        <group key={`item-${item.index}`} ref={el => { groups.current[i] = el }} position={[cellCenter(item.x), 0.4, cellCenter(item.z)]}>
+          <Float enabled={animate} speed={2} rotationIntensity={0.4} floatIntensity={0.4}>
+            <ItemModel item={item} />
+          </Float>
+        </group>
+      ))}
+    </>
+  )
+}
+
+// Seconds for an unlocked door to sink into the floor
+const DOOR_OPEN_SECONDS = 0.8
+
+// Locked doors sink away once the player holds their key; the simulation
+// already treats them as open from that tick. A locked door is solid across
+// its whole cell, so it is drawn filling the cell.
+function Doors({ grid, frame, animate }: { grid: MazeGrid; frame: MutableRefObject<SimFrame>; animate: boolean }) {
+  const meshes = useRef<(THREE.Mesh | null)[]>([])
+  const doors = useMemo(
+    () =>
+      grid.flatMap((row, z) =>
+        row.flatMap((value, x) => {
+          const color = doorColor(value)
+          return color ? [{ x, z, color }] : []
+        }),
+      ),
+    [grid],
+  )
+
+  useFrame((_, delta) => {
+    const { keys } = frame.current.current.inventory
+    doors.forEach((door, i) => {
+      const mesh = meshes.current[i]
+      if (!mesh) return
+      const target = keys.includes(door.color) ? -WALL_HEIGHT / 2 : WALL_HEIGHT / 2
+      const speed = WALL_HEIGHT / DOOR_OPEN_SECONDS
+      mesh.position.y = animate
+        ? target < mesh.position.y
+          ? Math.max(target, mesh.position.y - speed * delta)
+          : Math.min(target, mesh.position.y + speed * delta)
+        : target
+    })
+  })
+
+  return (
+    <>
+      {doors.map((door, i) => (
+        <mesh
+          key={`door-${door.x}-${door.z}`}
+          ref={el => { meshes.current[i] = el }}
+          position={[cellCenter(door.x), WALL_HEIGHT / 2, cellCenter(door.z)]}
+        >
+          <boxGeometry args={[CELL_SIZE, WALL_HEIGHT, CELL_SIZE]} />
+          <meshStandardMaterial color={KEY_COLOR_HEX[door.color]} emissive={KEY_COLOR_HEX[door.color]} emissiveIntensity={0.25} metalness={0.6} roughness={0.4} />
+        </mesh>
+      ))}
+    </>
+  )
+}
+
+// An arrow on the floor shows the way through; a faint membrane on the far
+// side marks where there is no coming back
+function Gates({ grid }: { grid: MazeGrid }) {
+  const gates = useMemo(
+    () =>
+      grid.flatMap((row, z) =>
+        row.flatMap((value, x) => {
+          const direction = gateDirection(value)
+          return direction ? [{ x, z, direction }] : []
+        }),
+      ),
+    [grid],
+  )
+
+  return (
+    <>
+      {gates.map(({ x, z, direction }) => (
+        <group key={`gate-${x}-${z}`} position={[cellCenter(x), 0, cellCenter(z)]}>
+          <mesh position={[0, 0.03, 0]} rotation={[-Math.PI / 2, 0, Math.atan2(-direction.z, direction.x)]}>
+            <circleGeometry args={[0.5, 3]} />
+            <meshBasicMaterial color="#b04dff" transparent opacity={0.8} />
+          </mesh>
+          <mesh
+            position={[direction.x * CELL_SIZE / 2, WALL_HEIGHT / 2, direction.z * CELL_SIZE / 2]}
+            rotation={[0, Math.atan2(direction.x, direction.z), 0]}
+          >
+            <planeGeometry args={[CELL_SIZE, WALL_HEIGHT]} />
+            <meshBasicMaterial color="#b04dff" transparent opacity={0.15} side={THREE.DoubleSide} depthWrite={false} />
+          </mesh>
+        </group>
+      ))}
+    </>
+  )
+}
+
+interface SlidingWallsProps {
+  level: Level
+  frame: MutableRefObject<SimFrame>
+  highContrast: boolean
+  animate: boolean
+}
+
+// Walls that triggers can shut or open, rising out of and sinking into the
+// floor; the simulation treats them as solid from the tick they close
+function SlidingWalls({ level, frame, highContrast, animate }: SlidingWallsProps) {
+  const meshes = useRef<(THREE.Mesh | null)[]>([])
+  const cells = useMemo(() => slidingWallCells(level.triggers), [level])
+  const width = level.grid[0].length
+
+  useFrame((_, delta) => {
+    const { closed, closing } = frame.current.current
+    cells.forEach((cell, i) => {
+      const mesh = meshes.current[i]
+      if (!mesh) return
+      const index = cell.z * width + cell.x
+      // A wall waiting on the player to step clear starts rising as a warning
+      const target = closed.includes(index) ? 1 : closing.includes(index) ? 0.15 : 0
+      const height = mesh.scale.y
+      const next = animate
+        ? target < height
+          ? Math.max(target, height - delta / SLIDE_SECONDS)
+          : Math.min(target, height + delta / SLIDE_SECONDS)
+        : target
+      mesh.scale.y = Math.max(next, 0.001)
+      mesh.position.y = (WALL_HEIGHT * next) / 2
+      mesh.visible = next > 0.01
+    })
+  })
+
+  return (
+    <>
+      {cells.map((cell, i) => (
+        <mesh
+          key={`sliding-${cell.x}-${cell.z}`}
+          ref={el => { meshes.current[i] = el }}
+          position={[cellCenter(cell.x), 0, cellCenter(cell.z)]}
+          scale={[1, 0.001, 1]}
+          visible={false}
+        >
+          <boxGeometry args={[CELL_SIZE, WALL_HEIGHT, CELL_SIZE]} />
+          <meshStandardMaterial
+            color={highContrast ? '#e0e0e0' : '#1a0a0a'}
+            emissive={highContrast ? '#505050' : '#000000'}
+            roughness={0.9}
+            metalness={0.1}
+          />
+        </mesh>
+      ))}
+    </>
+  )
+}
+
+interface FakeGoalsProps {
+  triggers: Trigger[]
+  frame: MutableRefObject<SimFrame>
+  color: string
+  animate: boolean
+}
+
+// Decoy crystals in the exit's colour. They carry no light of their own: a
+// point light appearing mid-run would force every material to recompile.
+function FakeGoals({ triggers, frame, color, animate }: FakeGoalsProps) {
+  const meshes = useRef<(THREE.Mesh | null)[]>([])
+  const cells = useMemo(() => fakeGoalCells(triggers), [triggers])
+  const due = useDueActions(triggers)
+
+  useFrame(() => {
+    const { current } = frame.current
+    cells.forEach((cell, i) => {
+      const mesh = meshes.current[i]
+      if (mesh) mesh.visible = isFakeGoalShown(due(current.fired), cell, current.tick)
+    })
+  })
+
+  return (
+    <>
+      {cells.map((cell, i) => (
+        <Float key={`fake-goal-${cell.x}-${cell.z}`} enabled={animate} speed={2} rotationIntensity={0.5} floatIntensity={0.5}>
+          <mesh
+            ref={el => { meshes.current[i] = el }}
+            position={[cellCenter(cell.x), 1, cellCenter(cell.z)]}
+            visible={false}
+          >
+            <octahedronGeometry args={[0.5]} />
+            <meshStandardMaterial color={color} emissive={color} emissiveIntensity={1} />
+          </mesh>
+        </Float>
+      ))}
+    </>
+  )
+}
+
+interface TriggerDirectorProps {
+  triggers: Trigger[]
+  frame: MutableRefObject<SimFrame>
+  onScare: (message?: string) => void
+}
+
+// Plays the one-shot side of trigger actions as their tick passes: scares
+// raise the overlay, lunges and shattering decoys get a stinger
+function TriggerDirector({ triggers, frame, onScare }: TriggerDirectorProps) {
+  const lastTick = useRef(0)
+  const due = useDueActions(triggers)
+
+  useFrame(() => {
+    const { current } = frame.current
+    // A restarted attempt begins again from tick zero
+    if (current.tick < lastTick.current) lastTick.current = 0
+    for (const action of actionsBetween(due(current.fired), lastTick.current, current.tick)) {
+      if (action.type === 'scare') onScare(action.message)
+      else if (action.type === 'lunge' || action.type === 'shatter') getAudioEngine().playStinger()
+    }
+    lastTick.current = current.tick
+  })
+
+  return null
+}
+
+const TORCH_HEIGHT = 1.6
+
+interface LightingDirectorProps {
+  level: Level
+  frame: MutableRefObject<SimFrame>
+  animate: boolean
+}
+
+// Owns the level's lights: flickers torches, hands the nearest of them the
+// pooled point lights, and kills everything during scripted blackouts
+function LightingDirector({ level, frame, animate }: LightingDirectorProps) {
+  const { grid: maze, tuning, torches } = level
+  const ambient = useRef<THREE.AmbientLight>(null)
+  const directional = useRef<THREE.DirectionalLight>(null)
+  const accent = useRef<THREE.PointLight>(null)
+  const pool = useRef<(THREE.PointLight | null)[]>([])
+  const flames = useRef<(THREE.Mesh | null)[]>([])
+  const poolSize = Math.min(TORCH_LIGHT_POOL, torches.length)
+  const due = useDueActions(level.triggers)
+  // Rebuilt only when the level changes or a trigger fires
+  const blackouts = useRef<{ level: Level; due: DueAction[]; all: Blackout[] } | null>(null)
+
+  useFrame(({ clock }) => {
+    const { current } = frame.current
+    const triggered = due(current.fired)
+    if (blackouts.current?.level !== level || blackouts.current.due !== triggered) {
+      blackouts.current = { level, due: triggered, all: [...level.blackouts, ...triggeredBlackouts(triggered)] }
     }
+    // Blackouts run on simulation time so they pause with the game and line up in replays
+    const lit = 1 - blackoutLevel(blackouts.current.all, current.tick / TICK_RATE)
+    if (ambient.current) ambient.current.intensity = tuning.lights.ambient * lit
+    if (directional.current) directional.current.intensity = tuning.lights.directional * lit
+    if (accent.current) accent.current.intensity = tuning.lights.accent * lit
+
+    const brightness = torches.map((_, i) => lit * (animate ? flicker(clock.elapsedTime, i * 1.7) : 1))
+    flames.current.forEach((flame, i) => {
+      if (!flame) return
+      flame.visible = brightness[i] > 0.05
+      flame.scale.setScalar(0.6 + 0.4 * brightness[i])
+    })
+    nearestTorches(torches, current.x, current.z, poolSize).forEach((index, slot) => {
+      const light = pool.current[slot]
+      if (!light) return
+      const torch = torches[index]
+      light.position.set(cellCenter(torch.x), TORCH_HEIGHT + 0.3, cellCenter(torch.z))
+      light.color.set(torch.color)
+      light.intensity = torch.intensity * brightness[index]
+    })
   })
 
-  return <>{skulls}</>
+  return (
+    <>
+      <ambientLight ref={ambient} intensity={tuning.lights.ambient} />
+      <directionalLight ref={directional} position={[10, 20, 10]} intensity={tuning.lights.directional} color="#ff3300" />
+      <pointLight
+        ref={accent}
+        position={[maze[0].length * CELL_SIZE / 2, 10, maze.length * CELL_SIZE / 2]}
+        intensity={tuning.lights.accent}
+        color="#ff0000"
+        distance={30}
+      />
+      {Array.from({ length: poolSize }, (_, slot) => (
+        <pointLight key={`torch-light-${slot}`} ref={el => { pool.current[slot] = el }} distance={8} decay={1.5} />
+      ))}
+      {torches.map((torch, i) => (
+        <group key={`torch-${i}`} position={[cellCenter(torch.x), 0, cellCenter(torch.z)]}>
+          <mesh position={[0, TORCH_HEIGHT / 2, 0]}>
+            <cylinderGeometry args={[0.04, 0.06, TORCH_HEIGHT, 6]} />
+            <meshStandardMaterial color="#2a1a10" roughness={1} />
+          </mesh>
+          <mesh ref={el => { flames.current[i] = el }} position={[0, TORCH_HEIGHT + 0.12, 0]}>
+            <coneGeometry args={[0.1, 0.3, 8]} />
+            <meshBasicMaterial color={torch.color} />
+          </mesh>
+        </group>
+      ))}
+    </>
+  )
+}
+
+interface AudioDirectorProps {
+  level: Level
+  frame: MutableRefObject<SimFrame>
+  gameActive: boolean
+}
+
+// Keeps the Web Audio listener on the camera, attaches positional sounds to
+// skulls and the goal, and drives the heartbeat from how close danger is
+function AudioDirector({ level, frame, gameActive }: AudioDirectorProps) {
+  const { camera } = useThree()
+  const forward = useMemo(() => new THREE.Vector3(), [])
+
+  useEffect(() => {
+    const audio = getAudioEngine()
+    const stops = [
+      ...level.decorations
+        .filter(d => d.type === 'skull')
+        .map(d => audio.createEmitter('skull', { x: cellCenter(d.x), y: 0.5, z: cellCenter(d.z) })),
+      audio.createEmitter('goal', { x: cellCenter(level.goal.x), y: 1, z: cellCenter(level.goal.z) }),
+    ]
+    return () => {
+      stops.forEach(stop => stop())
+      audio.setHeartbeatIntensity(0)
+    }
+  }, [level])
+
+  useFrame(() => {
+    const audio = getAudioEngine()
+    camera.getWorldDirection(forward)
+    audio.setListener(camera.position, forward, camera.up)
+
+    const { current } = frame.current
+    if (!gameActive || current.status !== 'running') {
+      audio.setHeartbeatIntensity(0)
+      return
+    }
+
+    const dread = measureDread(level.grid, current)
+    audio.setHeartbeatIntensity(Math.max(0.6 * dread.wall, dread.hunter))
+  })
+
+  return null
+}
+
+interface ScareEffectsProps {
+  level: Level
+  frame: MutableRefObject<SimFrame>
+  quality: EffectsQuality
+  scanlines: boolean
+  // Near-miss pulses flash, so they follow the jumpscare setting
+  pulses: boolean
+  active: boolean
+}
+
+function createScareEffects() {
+  const scanlines = new ScanlineEffect({ blendFunction: BlendFunction.OVERLAY, density: 1.2 })
+  scanlines.blendMode.opacity.value = 0.25
+  return {
+    // The composer turns off the renderer's own tone mapping
+    toneMapping: new ToneMappingEffect({ mode: ToneMappingMode.ACES_FILMIC }),
+    aberration: new ChromaticAberrationEffect({ offset: new THREE.Vector2(), radialModulation: true, modulationOffset: 0.15 }),
+    vignette: new VignetteEffect({ offset: 0.3 }),
+    blood: new BloodPulseEffect(),
+    scanlines,
+    grain: new NoiseEffect({ blendFunction: BlendFunction.OVERLAY }),
+  }
+}
+
+// Post-processing over the 3D view: grain, vignette and colour fringing that
+// tighten as walls and hunters close in, plus a red pulse on near misses
+function ScareEffects({ level, frame, quality, scanlines, pulses, active }: ScareEffectsProps) {
+  const preset = effectsPreset(quality)
+  const state = useRef(createScreenEffects())
+  // Created and disposed by the same effect, so a remount (StrictMode runs
+  // effects twice in development) never reuses disposed passes
+  const [effects, setEffects] = useState<ReturnType<typeof createScareEffects> | null>(null)
+
+  useEffect(() => {
+    const created = createScareEffects()
+    setEffects(created)
+    return () => Object.values(created).forEach(effect => effect.dispose())
+  }, [])
+
+  useFrame((_, delta) => {
+    if (!effects) return
+    const { current } = frame.current
+    const dread = active && current.status === 'running' ? measureDread(level.grid, current) : NO_DREAD
+    updateScreenEffects(state.current, dread, delta, pulses)
+    const { distortion, pulse } = state.current
+    const swing = distortion * preset.strength
+    effects.grain.blendMode.opacity.value = 0.2 + 0.4 * swing
+    effects.vignette.darkness = 0.5 + 0.4 * swing
+    effects.aberration.offset.setScalar(0.0005 + 0.004 * swing)
+    effects.blood.strength = 0.7 * pulse
+  })
+
+  if (!effects) return null
+
+  const chain = [
+    effects.toneMapping,
+    ...(preset.aberration ? [effects.aberration] : []),
+    effects.vignette,
+    effects.blood,
+    ...(scanlines ? [effects.scanlines] : []),
+    effects.grain,
+  ]
+
+  return (
+    <EffectComposer multisampling={0}>
+      {chain.map(effect => <primitive key={effect.name} object={effect} />)}
+    </EffectComposer>
+  )
+}
+
+interface SceneProps {
+  level: Level
+  difficulty: DifficultyMode
+  cameraMode: CameraMode
+  input: InputController
+  graphics: GraphicsQuality
+  effects: EffectsQuality
+  scanlines: boolean
+  accessibility: AccessibilityOptions
+  // Absent while watching replays, which shouldn't reveal the live map
+  exploration?: Exploration
+  breadcrumbs: boolean
+  onLose: (reason: LossReason) => void
+  onWin: () => void
+  onInput?: (input: PlayerInput) => void
+  // Level-scripted scares; left out for replays and races
+  onScare?: (message?: string) => void
+  attempt?: MutableRefObject<AttemptProgress>
+  gameActive: boolean
+  ghost?: SimState[] | null
+  // When set, the scene plays a recording instead of taking input
+  replay?: { states: SimState[]; clock: MutableRefObject<PlaybackClock> } | null
+  // Split-screen: the owner holds each player's frame so the other half can
+  // draw them as a rival
+  frame?: MutableRefObject<SimFrame>
+  rival?: { frame: MutableRefObject<SimFrame>; color: string } | null
+  // Off when two scenes share one listener and would fight over it
+  audio?: boolean
+  online?: OnlineRace | null
+}
+
+// Rendered once into a cube map from a few light panels, so high graphics
+// don't have to download an HDR
+function NightEnvironment() {
+  return (
+    <Environment resolution={64}>
+      <color attach="background" args={['#020308']} />
+      <Lightformer form="circle" color="#a8b8ff" intensity={1.5} position={[6, 8, -10]} scale={3} />
+      <Lightformer form="rect" color="#1a2340" intensity={0.4} position={[0, 10, 0]} rotation-x={Math.PI / 2} scale={[30, 30, 1]} />
+      <Lightformer form="rect" color="#3a0a05" intensity={0.3} position={[0, -4, 0]} rotation-x={-Math.PI / 2} scale={[30, 30, 1]} />
+    </Environment>
+  )
 }
 
-function Scene({ onWallCollision, onWin, gameActive }: PlayerControllerProps) {
+function Scene({
+  level,
+  difficulty,
+  cameraMode,
+  input,
+  graphics,
+  effects,
+  scanlines,
+  accessibility,
+  exploration,
+  breadcrumbs,
+  onLose,
+  onWin,
+  onInput,
+  onScare,
+  attempt,
+  gameActive,
+  ghost,
+  replay,
+  frame: sharedFrame,
+  rival,
+  audio = true,
+  online,
+}: SceneProps) {
+  const { grid: maze, tuning } = level
+  const initial = useMemo(() => createSimState(level), [level])
+  const ownFrame = useRef<SimFrame>({ previous: initial, current: initial, alpha: 0 })
+  const frame = sharedFrame ?? ownFrame
+  const centerX = maze[0].length * CELL_SIZE / 2
+  const centerZ = maze.length * CELL_SIZE / 2
+  const colors = paletteColors(accessibility.palette)
+  const animate = !accessibility.reduceMotion
+
   return (
     <>
-      <fog attach="fog" args={['#0a0000', 5, 25]} />
-      <ambientLight intensity={0.1} />
-      <directionalLight position={[10, 20, 10]} intensity={0.3} color="#ff3300" />
-      <pointLight position={[15, 10, 15]} intensity={1} color="#ff0000" distance={30} />
-
-      <MazeWalls />
-      <Floor />
-      <GoalMarker />
-      <Skulls />
-      <PlayerController onWallCollision={onWallCollision} onWin={onWin} gameActive={gameActive} />
-
-      <Float speed={0.5} rotationIntensity={0.1}>
+      <fog attach="fog" args={[tuning.fog.color, tuning.fog.near, tuning.fog.far]} />
+      <LightingDirector level={level} frame={frame} animate={animate} />
+      {/* Replays always use the top-down camera */}
+      <Flashlight
+        frame={frame}
+        cameraMode={replay ? 'top-down' : cameraMode}
+        flickers={animate && accessibility.jumpscare === 'full'}
+      />
+
+      <MazeWalls maze={maze} highContrast={accessibility.highContrast} />
+      <Floor maze={maze} highContrast={accessibility.highContrast} />
+      <GoalMarker goal={level.goal} color={colors.goal} animate={animate} requires={level.goalRequires} frame={frame} />
+      <Skulls decorations={level.decorations} triggers={level.triggers} frame={frame} animate={animate} />
+      <Items grid={maze} frame={frame} animate={animate} />
+      <Doors grid={maze} frame={frame} animate={animate} />
+      <Gates grid={maze} />
+      <SlidingWalls level={level} frame={frame} highContrast={accessibility.highContrast} animate={animate} />
+      <FakeGoals triggers={level.triggers} frame={frame} color={colors.goal} animate={animate} />
+      {onScare && !replay && <TriggerDirector triggers={level.triggers} frame={frame} onScare={onScare} />}
+      {replay ? (
+        <ReplayController states={replay.states} clock={replay.clock} frame={frame} color={colors.player} />
+      ) : (
+        <PlayerController
+          level={level}
+          difficulty={difficulty}
+          cameraMode={cameraMode}
+          input={input}
+          accessibility={accessibility}
+          frame={frame}
+          onLose={onLose}
+          onWin={onWin}
+          onInput={onInput}
+          attempt={attempt}
+          gameActive={gameActive}
+        />
+      )}
+      {ghost && !replay && <Ghost states={ghost} frame={frame} />}
+      {rival && <Rival frame={rival.frame} color={rival.color} />}
+      {online && <RemoteRacers race={online} />}
+      {online && gameActive && <SnapshotSender race={online} frame={frame} />}
+      {exploration && gameActive && <ExplorationTracker grid={maze} frame={frame} exploration={exploration} />}
+      {/* Breadcrumbs would hand back the map that hardcore levels take away */}
+      {exploration && breadcrumbs && level.tuning.minimap && <Breadcrumbs exploration={exploration} />}
+      <Hunters hunters={level.enemies} frame={frame} />
+      {audio && <AudioDirector level={level} frame={frame} gameActive={gameActive} />}
+
+      <Float enabled={animate} speed={0.5} rotationIntensity={0.1}>
         <Text
-          position={[MAZE_LAYOUT[0].length * CELL_SIZE / 2, WALL_HEIGHT + 2, MAZE_LAYOUT.length * CELL_SIZE / 2]}
+          position={[centerX, WALL_HEIGHT + 2, centerZ]}
+          font={creepsterFont}
           fontSize={1.5}
           color="#ff0000"
           anchorX="center"
@@ -292,27 +1368,112 @@ function Scene({ onWallCollision, onWin, gameActive }: PlayerControllerProps) {
         </Text>
       </Float>
 
-      <Environment preset="night" />
+      {graphicsPreset(graphics).environment && <NightEnvironment />}
+      {effectsPreset(effects).enabled && (
+        <ScareEffects
+          level={level}
+          frame={frame}
+          quality={effects}
+          scanlines={scanlines}
+          pulses={accessibility.jumpscare === 'full'}
+          active={gameActive || Boolean(replay)}
+        />
+      )}
     </>
   )
 }
 
-function JumpscareOverlay({ onClose }: { onClose: () => void }) {
-  const [showVideo, setShowVideo] = useState(true)
+// Pulses once per cycle, so the period is what the flash limiter stretches
+const JUMPSCARE_PULSE_SECONDS = safeFlashPeriod(0.2)
+
+// Shared by the death scare and the smaller level-scripted ones
+const SCARE_BACKDROP = 'radial-gradient(circle at center, #1a0000 0%, #000 100%)'
+const SKULL_GLOW = '0 0 50px #ff0000, 0 0 100px #ff0000, 0 0 150px #660000'
+
+const STATIC_WIDTH = 160
+const STATIC_HEIGHT = 90
+
+// Blood-tinted TV static, drawn small and stretched over the screen
+function StaticNoise() {
+  const canvas = useRef<HTMLCanvasElement>(null)
+
+  useEffect(() => {
+    const context = canvas.current?.getContext('2d')
+    if (!context) return
+    const image = context.createImageData(STATIC_WIDTH, STATIC_HEIGHT)
+    let frame = 0
+    const draw = () => {
+      const { data } = image
+      for (let i = 0; i < data.length; i += 4) {
+        const level = Math.random() * 255
+        data[i] = level
+        data[i + 1] = level * 0.2
+        data[i + 2] = level * 0.2
+        data[i + 3] = 255
+      }
+      context.putImageData(image, 0, 0)
+      frame = requestAnimationFrame(draw)
+    }
+    draw()
+    return () => cancelAnimationFrame(frame)
+  }, [])
+
+  return (
+    <canvas
+      ref={canvas}
+      width={STATIC_WIDTH}
+      height={STATIC_HEIGHT}
+      className="absolute inset-0 w-full h-full pointer-events-none"
+      style={{ opacity: 0.25, mixBlendMode: 'screen', imageRendering: 'pixelated' }}
+    />
+  )
+}
+
+interface JumpscareOverlayProps {
+  reason: LossReason
+  intensity: JumpscareIntensity
+  onClose: () => void
+}
+
+function JumpscareOverlay({ reason, intensity, onClose }: JumpscareOverlayProps) {
+  const [showing, setShowing] = useState(true)
+  const full = intensity === 'full'
 
   useEffect(() => {
     const timer = setTimeout(() => {
-      setShowVideo(false)
+      setShowing(false)
       setTimeout(onClose, 500)
     }, 3000)
     return () => clearTimeout(timer)
   }, [onClose])
 
+  if (intensity === 'text-only') {
+    return (
+      <div
+        className="fixed inset-0 z-50 flex flex-col items-center justify-center gap-4 bg-black text-center px-4"
+        style={{ animation: showing ? undefined : 'fadeOut 0.5s forwards' }}
+      >
+        <style>{`
+          @keyframes fadeOut {
+            from { opacity: 1; }
+            to { opacity: 0; }
+          }
+        `}</style>
+        <div className="text-3xl text-red-500" style={{ fontFamily: "'Special Elite', cursive" }}>
+          {LOSS_MESSAGES[reason]}
+        </div>
+        <div className="text-gray-500" style={{ fontFamily: "'Special Elite', cursive" }}>
+          Back to the start…
+        </div>
+      </div>
+    )
+  }
+
   return (
     <div
       className="fixed inset-0 z-50 flex items-center justify-center bg-black"
       style={{
-        animation: showVideo ? 'shake 0.1s infinite' : 'fadeOut 0.5s forwards',
+        animation: !showing ? 'fadeOut 0.5s forwards' : full ? 'shake 0.1s infinite' : undefined,
       }}
     >
       <style>{`
@@ -339,22 +1500,23 @@ function JumpscareOverlay({ onClose }: { onClose: () => void }) {
       `}</style>
 
       <div className="relative w-full h-full flex items-center justify-center">
-        {/* Scary static image as backup */}
         <div
           className="absolute inset-0"
           style={{
-            background: 'radial-gradient(circle at center, #1a0000 0%, #000 100%)',
-            animation: 'pulse-red 0.2s infinite',
+            background: SCARE_BACKDROP,
+            boxShadow: full ? undefined : '0 0 100px 50px rgba(255, 0, 0, 0.8)',
+            animation: full ? `pulse-red ${JUMPSCARE_PULSE_SECONDS}s infinite` : undefined,
           }}
         />
+        {full && <StaticNoise />}
 
         {/* Grim Reaper Visual */}
         <div className="relative z-10 text-center">
           <div
             className="text-[200px] md:text-[300px] leading-none"
             style={{
-              textShadow: '0 0 50px #ff0000, 0 0 100px #ff0000, 0 0 150px #660000',
-              animation: 'shake 0.05s infinite',
+              textShadow: SKULL_GLOW,
+              animation: full ? 'shake 0.05s infinite' : undefined,
             }}
           >
             💀
@@ -367,12 +1529,12 @@ function JumpscareOverlay({ onClose }: { onClose: () => void }) {
               letterSpacing: '0.2em',
             }}
           >
-            YOU DIED
+            {LOSS_MESSAGES[reason]}
           </div>
         </div>
 
         {/* Blood drips */}
-        {[...Array(10)].map((_, i) => (
+        {full && [...Array(10)].map((_, i) => (
           <div
             key={i}
             className="absolute top-0 bg-red-800"
@@ -398,37 +1560,376 @@ function JumpscareOverlay({ onClose }: { onClose: () => void }) {
   )
 }
 
-function WinOverlay({ onRestart }: { onRestart: () => void }) {
+const MINI_SCARE_MESSAGE = 'BEHIND YOU'
+const MINI_SCARE_SECONDS = 1.2
+
+interface MiniScareProps {
+  message: string
+  intensity: JumpscareIntensity
+  onClose: () => void
+}
+
+// A level-scripted fright: the death scare's look at a fraction of its
+// strength, over the running game. It never shakes or drips, and it pops in
+// once rather than pulsing, whatever the intensity setting.
+function MiniScare({ message, intensity, onClose }: MiniScareProps) {
+  const pop = intensity === 'full'
+
+  useEffect(() => {
+    const timer = setTimeout(onClose, MINI_SCARE_SECONDS * 1000)
+    return () => clearTimeout(timer)
+  }, [onClose])
+
   return (
-    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/90">
+    <div
+      className="fixed inset-0 z-40 flex items-center justify-center pointer-events-none"
+      style={{ animation: `scareFade ${MINI_SCARE_SECONDS}s forwards` }}
+    >
+      <style>{`
+        @keyframes scareFade {
+          0% { opacity: 0; }
+          10%, 70% { opacity: 1; }
+          100% { opacity: 0; }
+        }
+        @keyframes scarePop {
+          from { transform: scale(0.6); }
+          to { transform: scale(1); }
+        }
+      `}</style>
+      {intensity !== 'text-only' && <div className="absolute inset-0 opacity-60" style={{ background: SCARE_BACKDROP }} />}
+      <div className="relative text-center">
+        {intensity !== 'text-only' && (
+          <div
+            className="text-[100px] md:text-[160px] leading-none"
+            style={{ textShadow: SKULL_GLOW, animation: pop ? 'scarePop 0.15s ease-out' : undefined }}
+          >
+            💀
+          </div>
+        )}
+        <div
+          className="text-3xl md:text-4xl text-red-600 mt-2"
+          style={{ fontFamily: "'Creepster', cursive", textShadow: '0 0 20px #ff0000', letterSpacing: '0.2em' }}
+        >
+          {message}
+        </div>
+      </div>
+    </div>
+  )
+}
+
+interface WinOverlayProps {
+  levelName: string
+  levelNumber: number
+  levelCount: number
+  // Replaces "Level n of m" for runs outside the campaign
+  subtitle?: string
+  onNextLevel: () => void
+  onRestart: () => void
+  // Set while play-testing an editor level
+  onBackToEditor?: () => void
+  onWatchReplay?: () => void
+  stats: RunStats
+  score: number
+  // Null until the leaderboard has answered
+  submission: Submission | null
+  // Result text for pasting to friends
+  shareText: string
+  // Matches the exit marker's colour palette
+  accentColor: string
+}
+
+function WinOverlay({
+  levelName,
+  levelNumber,
+  levelCount,
+  subtitle,
+  onNextLevel,
+  onRestart,
+  onBackToEditor,
+  onWatchReplay,
+  stats,
+  score,
+  submission,
+  shareText,
+  accentColor,
+}: WinOverlayProps) {
+  const hasNextLevel = !onBackToEditor && levelNumber < levelCount
+  const [copy, setCopy] = useState<'idle' | 'copied' | 'failed'>('idle')
+  const sharePre = useRef<HTMLPreElement>(null)
+
+  // The clipboard API needs a secure context; failing that, select the text
+  // so it can be copied by hand
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(shareText)
+      setCopy('copied')
+      setTimeout(() => setCopy('idle'), 1500)
+    } catch {
+      if (sharePre.current) window.getSelection()?.selectAllChildren(sharePre.current)
+      setCopy('failed')
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center overflow-y-auto bg-black/90">
       <div className="text-center p-8">
         <div
-          className="text-6xl md:text-8xl mb-8"
+          className="text-6xl md:text-8xl mb-4"
           style={{
             fontFamily: "'Creepster', cursive",
-            color: '#00ff00',
-            textShadow: '0 0 30px #00ff00, 0 0 60px #00ff00',
+            color: accentColor,
+            textShadow: `0 0 30px ${accentColor}, 0 0 60px ${accentColor}`,
           }}
         >
-          YOU ESCAPED!
+          {hasNextLevel ? `${levelName.toUpperCase()} ESCAPED` : 'YOU ESCAPED!'}
+        </div>
+        <div
+          className="text-xl text-gray-400 mb-8"
+          style={{ fontFamily: "'Special Elite', cursive" }}
+        >
+          {subtitle ?? `Level ${levelNumber} of ${levelCount}`}
+        </div>
+        <div
+          className="grid grid-cols-2 gap-x-8 gap-y-1 text-left text-gray-300 mb-8 mx-auto w-fit"
+          style={{ fontFamily: "'Special Elite', cursive" }}
+        >
+          <span className="text-gray-500">Time</span>
+          <span className="tabular-nums">{formatDuration(stats.ticks)}</span>
+          <span className="text-gray-500">Deaths</span>
+          <span className="tabular-nums">{stats.deaths}</span>
+          <span className="text-gray-500">Distance</span>
+          <span className="tabular-nums">{stats.distance.toFixed(1)} m</span>
+          <span className="text-gray-500">Score</span>
+          <span className="tabular-nums text-green-400">{score}</span>
+          {submission && (
+            <>
+              <span className="text-gray-500">Rank</span>
+              <span className="tabular-nums">{submission.rank ? `#${submission.rank} of ${submission.entries.length}` : 'Unranked'}</span>
+              <span className="text-gray-500">Personal best</span>
+              <span className="tabular-nums">
+                {submission.isPersonalBest
+                  ? <span className="text-green-400">NEW BEST!</span>
+                  : `${submission.personalBest.score} (${formatDuration(submission.personalBest.ticks)})`}
+              </span>
+            </>
+          )}
+        </div>
+        <div className="mb-8 mx-auto w-fit" style={{ fontFamily: "'Special Elite', cursive" }}>
+          <pre
+            ref={sharePre}
+            className="mb-2 p-3 text-left text-sm leading-tight text-gray-300 bg-black/70 border border-red-900 rounded select-all"
+            aria-label="Shareable result"
+          >
+            {shareText}
+          </pre>
+          <button onClick={handleCopy} className="text-sm text-gray-400 hover:text-green-400 underline transition-colors">
+            {copy === 'copied' ? 'Copied!' : copy === 'failed' ? 'Press Ctrl+C to copy' : 'Copy result'}
+          </button>
         </div>
         <button
-          onClick={onRestart}
+          onClick={onBackToEditor ?? (hasNextLevel ? onNextLevel : onRestart)}
           className="px-8 py-4 text-xl font-bold text-black bg-green-500 rounded-lg hover:bg-green-400 transition-all transform hover:scale-105"
           style={{
             fontFamily: "'Creepster', cursive",
             boxShadow: '0 0 30px rgba(0, 255, 0, 0.5)',
           }}
         >
-          PLAY AGAIN
+          {onBackToEditor ? 'BACK TO EDITOR' : hasNextLevel ? 'NEXT LEVEL' : 'PLAY AGAIN'}
         </button>
+        {onWatchReplay && (
+          <div className="mt-6">
+            <button
+              onClick={onWatchReplay}
+              className="text-sm text-gray-400 hover:text-green-400 underline transition-colors"
+              style={{ fontFamily: "'Special Elite', cursive" }}
+            >
+              Watch replay
+            </button>
+          </div>
+        )}
       </div>
     </div>
   )
 }
 
-function StartScreen({ onStart }: { onStart: () => void }) {
+interface HudProps {
+  levelName: string
+  difficulty: DifficultyMode
+  cameraMode: CameraMode
+  onCameraModeChange: (mode: CameraMode) => void
+  onPause: () => void
+  // Levels without a minimap say so up front
+  hardcore: boolean
+  run: MutableRefObject<RunStats>
+  attempt: MutableRefObject<AttemptProgress>
+}
+
+interface InventoryBarProps {
+  // Keys the exit wants, shown as empty slots until found
+  goalRequires: KeyColor[]
+  attempt: MutableRefObject<AttemptProgress>
+}
+
+function InventoryBar({ goalRequires, attempt }: InventoryBarProps) {
+  const [inventory, setInventory] = useState<Inventory>(EMPTY_INVENTORY)
+
+  useEffect(() => {
+    const timer = setInterval(() => setInventory(attempt.current.inventory), 100)
+    return () => clearInterval(timer)
+  }, [attempt])
+
+  const { battery, keys, lives } = inventory
+  const slots = [...keys, ...goalRequires.filter(color => !keys.includes(color))]
+
+  return (
+    <div
+      className="fixed top-16 left-1/2 -translate-x-1/2 z-40 flex items-center gap-4 px-3 py-1 rounded bg-black/60 border border-red-900/40 text-sm text-gray-300 tabular-nums"
+      style={{ fontFamily: "'Special Elite', cursive" }}
+      aria-label="Inventory"
+    >
+      <span className="flex items-center gap-2" aria-label={`Flashlight battery ${Math.round(battery * 100)}%`}>
+        🔦
+        <span className="w-16 h-2 rounded bg-gray-800 overflow-hidden">
+          <span
+            className="block h-full transition-all"
+            style={{ width: `${battery * 100}%`, background: battery > LOW_BATTERY ? '#facc15' : '#dc2626' }}
+          />
+        </span>
+      </span>
+      {slots.map(color => {
+        const held = keys.includes(color)
+        const needed = goalRequires.includes(color)
+        return (
+          <span
+            key={color}
+            style={{ color: KEY_COLOR_HEX[color], opacity: held ? 1 : 0.35 }}
+            title={`${color} key${needed ? ' · the exit needs it' : ''}`}
+            aria-label={`${color} key ${held ? 'held' : 'missing'}${needed ? ', needed for the exit' : ''}`}
+          >
+            🗝
+          </span>
+        )
+      })}
+      {lives > 0 && <span aria-label={`${lives} extra ${lives === 1 ? 'life' : 'lives'}`}>❤ ×{lives}</span>}
+    </div>
+  )
+}
+
+// Visually hidden; screen readers speak each new message
+function Announcer({ message }: { message: string }) {
+  return (
+    <div className="sr-only" role="status" aria-live="polite" aria-atomic="true">
+      {message}
+    </div>
+  )
+}
+
+function Hud({ levelName, difficulty, cameraMode, onCameraModeChange, onPause, hardcore, run, attempt }: HudProps) {
+  const [stats, setStats] = useState<RunStats>(EMPTY_RUN)
+  const [sanity, setSanity] = useState(MAX_SANITY)
+
+  // The simulation writes into refs every frame; sampling keeps React out of the hot path
+  useEffect(() => {
+    const timer = setInterval(() => {
+      setStats({
+        ticks: run.current.ticks + attempt.current.ticks,
+        deaths: run.current.deaths,
+        distance: run.current.distance + attempt.current.distance,
+      })
+      setSanity(attempt.current.sanity)
+    }, 100)
+    return () => clearInterval(timer)
+  }, [run, attempt])
+
+  return (
+    <div
+      className="fixed top-4 left-1/2 -translate-x-1/2 z-40 flex gap-6 px-4 py-2 rounded bg-black/60 border border-red-900/60 text-sm text-gray-300 tabular-nums"
+      style={{ fontFamily: "'Special Elite', cursive" }}
+    >
+      <span className="text-red-500">{levelName}</span>
+      {hardcore && <span title="No minimap on this level">☠ Hardcore</span>}
+      <span>⏱ {formatDuration(stats.ticks)}</span>
+      <span>💀 {stats.deaths}</span>
+      <span>👣 {stats.distance.toFixed(1)} m</span>
+      {difficulty === 'sanity' && (
+        <span className="flex items-center gap-2" aria-label={`Sanity ${sanity}%`}>
+          🧠
+          <span className="w-24 h-2 rounded bg-gray-800 overflow-hidden">
+            <span
+              className="block h-full transition-all"
+              style={{
+                width: `${(sanity / MAX_SANITY) * 100}%`,
+                background: sanity > 50 ? '#a855f7' : sanity > 25 ? '#f59e0b' : '#dc2626',
+              }}
+            />
+          </span>
+        </span>
+      )}
+      <button
+        onClick={() => onCameraModeChange(nextCameraMode(cameraMode))}
+        className="text-gray-400 hover:text-red-400"
+        title={usesViewRelativeInput(cameraMode) ? 'Switch camera · click the maze to look around' : 'Switch camera'}
+      >
+        🎥 {CAMERA_MODES.find((mode) => mode.id === cameraMode)?.label}
+      </button>
+      <button onClick={onPause} className="text-gray-400 hover:text-red-400" aria-label="Pause">
+        ⏸
+      </button>
+    </div>
+  )
+}
+
+interface StartScreenProps {
+  difficulty: DifficultyMode
+  onDifficultyChange: (mode: DifficultyMode) => void
+  // Null plays the campaign; a seed plays the seeded maze
+  onStart: (seed: string | null) => void
+  // Seed from a friend's challenge link
+  linkedSeed: string | null
+  onStartRace: () => void
+  onOpenLobby: () => void
+  onOpenEditor: () => void
+  onOpenControls: () => void
+  onOpenSettings: () => void
+  onLoadReplay: (file: File) => void
+  replayError: string | null
+}
+
+function StartScreen({
+  difficulty,
+  onDifficultyChange,
+  onStart,
+  linkedSeed,
+  onStartRace,
+  onOpenLobby,
+  onOpenEditor,
+  onOpenControls,
+  onOpenSettings,
+  onLoadReplay,
+  replayError,
+}: StartScreenProps) {
   const [showWarning, setShowWarning] = useState(false)
+  // What "I'M NOT AFRAID" will start
+  const [pendingSeed, setPendingSeed] = useState<string | null>(null)
+  const [customSeed, setCustomSeed] = useState('')
+  const replayInput = useRef<HTMLInputElement>(null)
+
+  const choose = (seed: string | null) => {
+    setPendingSeed(seed)
+    setShowWarning(true)
+  }
+
+  const handleSeedSubmit = (e: FormEvent) => {
+    e.preventDefault()
+    const seed = normalizeSeed(customSeed)
+    if (seed !== null) choose(seed)
+  }
+
+  const handleReplayFile = (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (file) onLoadReplay(file)
+  }
 
   return (
     <div
@@ -482,9 +1983,37 @@ function StartScreen({ onStart }: { onStart: () => void }) {
         <p>Reach the green crystal to escape</p>
       </div>
 
+      <div className="mb-8 text-center px-4" style={{ fontFamily: "'Special Elite', cursive" }}>
+        <div className="flex justify-center gap-2 mb-2" role="radiogroup" aria-label="Difficulty">
+          {DIFFICULTY_MODES.map(mode => (
+            <button
+              key={mode.id}
+              role="radio"
+              aria-checked={difficulty === mode.id}
+              onClick={() => onDifficultyChange(mode.id)}
+              className={`px-4 py-2 rounded border transition-colors ${difficulty === mode.id ? 'bg-red-800 border-red-500 text-white' : 'border-red-900 text-gray-400 hover:bg-red-900/40'}`}
+            >
+              {mode.label}
+            </button>
+          ))}
+        </div>
+        <p className="text-sm text-gray-500">
+          {DIFFICULTY_MODES.find(mode => mode.id === difficulty)?.description}
+        </p>
+      </div>
+
+      {linkedSeed !== null && !showWarning && (
+        <div className="mb-6 text-center text-gray-300 px-4" style={{ fontFamily: "'Special Elite', cursive" }}>
+          A friend dared you to play {describeSeed(linkedSeed)}.{' '}
+          <button onClick={() => choose(linkedSeed)} className="text-red-400 hover:text-red-300 underline transition-colors">
+            Play their maze
+          </button>
+        </div>
+      )}
+
       {!showWarning ? (
         <button
-          onClick={() => setShowWarning(true)}
+          onClick={() => choose(null)}
           className="px-12 py-5 text-2xl font-bold text-white border-2 border-red-800 rounded-lg hover:bg-red-900/50 transition-all transform hover:scale-105"
           style={{
             fontFamily: "'Creepster', cursive",
@@ -495,11 +2024,23 @@ function StartScreen({ onStart }: { onStart: () => void }) {
         </button>
       ) : (
         <div className="text-center">
-          <div className="text-red-500 text-xl mb-6 animate-pulse">
+          <div className="text-red-500 text-xl mb-2 animate-pulse">
             ⚠️ WARNING: Contains jumpscare ⚠️
           </div>
+          {pendingSeed !== null && (
+            <div className="text-gray-300 mb-2" style={{ fontFamily: "'Special Elite', cursive" }}>
+              {describeSeed(pendingSeed)}
+            </div>
+          )}
+          <button
+            onClick={onOpenSettings}
+            className="block mx-auto mb-6 text-sm text-gray-500 hover:text-red-400 underline transition-colors"
+            style={{ fontFamily: "'Special Elite', cursive" }}
+          >
+            Tone down jumpscares and flashing
+          </button>
           <button
-            onClick={onStart}
+            onClick={() => onStart(pendingSeed)}
             className="px-12 py-5 text-2xl font-bold text-black bg-red-600 rounded-lg hover:bg-red-500 transition-all transform hover:scale-105"
             style={{
               fontFamily: "'Creepster', cursive",
@@ -511,6 +2052,55 @@ function StartScreen({ onStart }: { onStart: () => void }) {
         </div>
       )}
 
+      <div className="mt-8 flex flex-wrap items-center justify-center gap-3 text-sm" style={{ fontFamily: "'Special Elite', cursive" }}>
+        <button
+          onClick={() => choose(dailySeed())}
+          className="px-4 py-2 rounded border border-red-900 text-gray-300 hover:bg-red-900/40 transition-colors"
+        >
+          Daily maze
+        </button>
+        <form onSubmit={handleSeedSubmit} className="flex gap-2">
+          <input
+            value={customSeed}
+            onChange={e => setCustomSeed(e.target.value)}
+            placeholder="Custom seed"
+            aria-label="Custom seed"
+            maxLength={40}
+            className="w-36 px-3 py-2 rounded border border-red-900 bg-black/70 text-gray-200 focus:outline-none focus:border-red-500"
+          />
+          <button
+            type="submit"
+            disabled={normalizeSeed(customSeed) === null}
+            className="px-4 py-2 rounded border border-red-900 text-gray-300 hover:bg-red-900/40 transition-colors disabled:opacity-40"
+          >
+            Play seed
+          </button>
+        </form>
+      </div>
+
+      <div className="mt-6 flex gap-6 text-sm" style={{ fontFamily: "'Special Elite', cursive" }}>
+        <button onClick={onStartRace} className="text-gray-500 hover:text-red-400 underline transition-colors">
+          Two-player race
+        </button>
+        <button onClick={onOpenLobby} className="text-gray-500 hover:text-red-400 underline transition-colors">
+          Online race
+        </button>
+        <button onClick={onOpenEditor} className="text-gray-500 hover:text-red-400 underline transition-colors">
+          Level editor
+        </button>
+        <button onClick={onOpenControls} className="text-gray-500 hover:text-red-400 underline transition-colors">
+          Controls
+        </button>
+        <button onClick={onOpenSettings} className="text-gray-500 hover:text-red-400 underline transition-colors">
+          Settings
+        </button>
+        <button onClick={() => replayInput.current?.click()} className="text-gray-500 hover:text-red-400 underline transition-colors">
+          Load replay
+        </button>
+        <input ref={replayInput} type="file" accept="application/json,.json" className="hidden" onChange={handleReplayFile} />
+      </div>
+      {replayError && <div className="mt-3 text-sm text-red-400 max-w-md text-center px-4">{replayError}</div>}
+
       {/* Decorative skulls */}
       <div className="absolute bottom-20 left-0 right-0 flex justify-center space-x-4 opacity-30">
         {['💀', '☠️', '💀', '☠️', '💀'].map((skull, i) => (
@@ -536,95 +2126,958 @@ function StartScreen({ onStart }: { onStart: () => void }) {
   )
 }
 
-function MobileControls({ onMove }: { onMove: (dir: string, active: boolean) => void }) {
+// Counts down to a start time on the local clock, then hands over
+function Countdown({ startAt, onDone }: { startAt: number; onDone: () => void }) {
+  const [remaining, setRemaining] = useState(() => startAt - performance.now())
+
+  useEffect(() => {
+    const timer = setInterval(() => {
+      const left = startAt - performance.now()
+      setRemaining(left)
+      if (left <= 0) {
+        clearInterval(timer)
+        onDone()
+      }
+    }, 50)
+    return () => clearInterval(timer)
+  }, [startAt, onDone])
+
   return (
-    <div className="fixed bottom-24 left-1/2 -translate-x-1/2 z-40 md:hidden">
-      <div className="grid grid-cols-3 gap-2">
-        <div />
-        <button
-          onTouchStart={() => onMove('w', true)}
-          onTouchEnd={() => onMove('w', false)}
-          className="w-14 h-14 bg-red-900/80 rounded-lg flex items-center justify-center text-2xl border border-red-700"
-        >
-          ↑
-        </button>
-        <div />
-        <button
-          onTouchStart={() => onMove('a', true)}
-          onTouchEnd={() => onMove('a', false)}
-          className="w-14 h-14 bg-red-900/80 rounded-lg flex items-center justify-center text-2xl border border-red-700"
-        >
-          ←
-        </button>
-        <button
-          onTouchStart={() => onMove('s', true)}
-          onTouchEnd={() => onMove('s', false)}
-          className="w-14 h-14 bg-red-900/80 rounded-lg flex items-center justify-center text-2xl border border-red-700"
-        >
-          ↓
-        </button>
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 pointer-events-none" role="timer">
+      <div
+        className="text-[160px] leading-none text-red-600 tabular-nums"
+        style={{ fontFamily: "'Creepster', cursive", textShadow: '0 0 40px #ff0000' }}
+      >
+        {Math.max(1, Math.ceil(remaining / 1000))}
+      </div>
+    </div>
+  )
+}
+
+// How long a racer's half stays on their death before they respawn
+const RACE_RESPAWN_SECONDS = 1.5
+
+interface Racer extends RacerResult {
+  // Bumped on every respawn to remount that half's scene
+  attempt: number
+  lost: LossReason | null
+}
+
+function freshRacers(): Racer[] {
+  return RACE_PLAYERS.map((_, player) => ({ player, deaths: 0, finishedIn: null, attempt: 0, lost: null }))
+}
+
+function RaceTimer({ clock }: { clock: MutableRefObject<RaceClock> }) {
+  const [elapsed, setElapsed] = useState(0)
+
+  useEffect(() => {
+    const timer = setInterval(() => setElapsed(raceElapsed(clock.current, performance.now())), 100)
+    return () => clearInterval(timer)
+  }, [clock])
+
+  return (
+    <div
+      className="fixed top-4 left-1/2 -translate-x-1/2 z-40 px-4 py-1 rounded bg-black/70 border border-red-900 text-2xl text-red-500 tabular-nums"
+      style={{ fontFamily: "'Special Elite', cursive" }}
+    >
+      {formatRaceTime(elapsed)}
+    </div>
+  )
+}
+
+interface RaceViewProps {
+  level: Level
+  difficulty: DifficultyMode
+  preferences: Preferences
+  onPreferencesChange: (preferences: Preferences) => void
+  onQuit: () => void
+}
+
+// Local split-screen: each half is its own canvas and camera running its own
+// simulation of the same maze, so deaths and respawns never touch the other
+// player. Both use the top-down camera, since mouse look can't be shared.
+function RaceView({ level, difficulty, preferences, onPreferencesChange, onQuit }: RaceViewProps) {
+  const inputs = useMemo(
+    () => RACE_PLAYERS.map(player => createInputController(player.bindings, { gamepad: player.gamepad })),
+    [],
+  )
+  const initial = useMemo(() => createSimState(level), [level])
+  const frames = [
+    useRef<SimFrame>({ previous: initial, current: initial, alpha: 0 }),
+    useRef<SimFrame>({ previous: initial, current: initial, alpha: 0 }),
+  ]
+  const clock = useRef<RaceClock>(startRaceClock(performance.now()))
+  const respawns = useRef<ReturnType<typeof setTimeout>[]>([])
+  const [racers, setRacers] = useState<Racer[]>(freshRacers)
+  const [round, setRound] = useState(0)
+  const [paused, setPaused] = useState(false)
+  const [ended, setEnded] = useState(false)
+  const graphics = graphicsPreset(preferences.graphics)
+  const finished = racers.every(racer => racer.finishedIn !== null)
+  const showResults = ended || finished
+
+  useEffect(() => {
+    const detach = inputs.map(input => input.attach())
+    return () => detach.forEach(stop => stop())
+  }, [inputs])
+
+  useEffect(() => () => respawns.current.forEach(clearTimeout), [])
+
+  useEffect(() => {
+    if (showResults) return
+    const stops = inputs.map(input =>
+      input.onAction(action => {
+        if (action === 'pause') setPaused(current => !current)
+      }),
+    )
+    return () => stops.forEach(stop => stop())
+  }, [inputs, showResults])
+
+  useEffect(() => {
+    const handleVisibility = () => {
+      if (document.hidden) setPaused(true)
+    }
+    document.addEventListener('visibilitychange', handleVisibility)
+    return () => document.removeEventListener('visibilitychange', handleVisibility)
+  }, [])
+
+  useEffect(() => {
+    const now = performance.now()
+    clock.current = paused || showResults ? pauseRaceClock(clock.current, now) : resumeRaceClock(clock.current, now)
+  }, [paused, showResults])
+
+  const updateRacer = useCallback((player: number, changes: (racer: Racer) => Partial<Racer>) => {
+    setRacers(current => current.map(racer => (racer.player === player ? { ...racer, ...changes(racer) } : racer)))
+  }, [])
+
+  const handleLose = useCallback((player: number, reason: LossReason) => {
+    getAudioEngine().playStinger()
+    updateRacer(player, racer => ({ lost: reason, deaths: racer.deaths + 1 }))
+    respawns.current.push(
+      setTimeout(() => {
+        frames[player].current = { previous: initial, current: initial, alpha: 0 }
+        updateRacer(player, racer => ({ lost: null, attempt: racer.attempt + 1 }))
+      }, RACE_RESPAWN_SECONDS * 1000),
+    )
+  }, [updateRacer, initial])
+
+  const handleWin = useCallback((player: number) => {
+    updateRacer(player, () => ({ finishedIn: raceElapsed(clock.current, performance.now()) }))
+  }, [updateRacer])
+
+  const handleRematch = useCallback(() => {
+    respawns.current.forEach(clearTimeout)
+    respawns.current = []
+    frames.forEach(frame => { frame.current = { previous: initial, current: initial, alpha: 0 } })
+    clock.current = startRaceClock(performance.now())
+    setRacers(freshRacers())
+    setRound(r => r + 1)
+    setPaused(false)
+    setEnded(false)
+  }, [initial])
+
+  const escapedCount = racers.filter(racer => racer.finishedIn !== null).length
+
+  return (
+    <>
+      <div className="fixed inset-0 flex">
+        {racers.map(racer => {
+          const player = RACE_PLAYERS[racer.player]
+          const other = 1 - racer.player
+          const place = raceStandings(racers).findIndex(entry => entry.player === racer.player) + 1
+          return (
+            <div
+              key={racer.player}
+              className={`relative w-1/2 h-full ${racer.player === 0 ? 'border-r-2 border-red-900' : ''}`}
+            >
+              <Canvas
+                key={`${round}-${racer.attempt}`}
+                dpr={graphics.dpr}
+                gl={{ antialias: graphics.antialias }}
+                camera={{ position: [15, 15, 20], fov: 60 }}
+              >
+                <Suspense fallback={null}>
+                  <Scene
+                    level={level}
+                    difficulty={difficulty}
+                    cameraMode="top-down"
+                    input={inputs[racer.player]}
+                    graphics={preferences.graphics}
+                    effects={preferences.effects}
+                    scanlines={preferences.scanlines}
+                    accessibility={preferences.accessibility}
+                    breadcrumbs={false}
+                    onLose={reason => handleLose(racer.player, reason)}
+                    onWin={() => handleWin(racer.player)}
+                    gameActive={!paused && !showResults && racer.lost === null && racer.finishedIn === null}
+                    frame={frames[racer.player]}
+                    rival={{ frame: frames[other], color: RACE_PLAYERS[other].color }}
+                    audio={false}
+                  />
+                </Suspense>
+              </Canvas>
+
+              {racer.lost && (
+                <div className="absolute inset-0 flex flex-col items-center justify-center gap-2 bg-black/80 text-center px-4">
+                  <div className="text-7xl" style={{ textShadow: SKULL_GLOW }}>💀</div>
+                  <div className="text-3xl text-red-600" style={{ fontFamily: "'Creepster', cursive", letterSpacing: '0.1em' }}>
+                    {LOSS_MESSAGES[racer.lost]}
+                  </div>
+                  <div className="text-gray-500" style={{ fontFamily: "'Special Elite', cursive" }}>Respawning…</div>
+                </div>
+              )}
+              {racer.finishedIn !== null && !showResults && (
+                <div className="absolute inset-0 flex flex-col items-center justify-center gap-2 bg-black/70 text-center">
+                  <div className="text-6xl" style={{ fontFamily: "'Creepster', cursive", color: player.color }}>
+                    {place === 1 ? 'ESCAPED FIRST' : 'ESCAPED'}
+                  </div>
+                  <div className="text-2xl text-gray-300 tabular-nums" style={{ fontFamily: "'Special Elite', cursive" }}>
+                    {formatRaceTime(racer.finishedIn)}
+                  </div>
+                </div>
+              )}
+
+              <div
+                className="absolute bottom-4 left-4 px-3 py-1 rounded bg-black/70 text-sm"
+                style={{ fontFamily: "'Special Elite', cursive", color: player.color }}
+              >
+                {player.label} · {racer.deaths} {racer.deaths === 1 ? 'death' : 'deaths'}
+                <span className="block text-xs text-gray-500">{player.controls}</span>
+              </div>
+            </div>
+          )
+        })}
+      </div>
+
+      {!showResults && <RaceTimer clock={clock} />}
+      {!showResults && escapedCount > 0 && (
         <button
-          onTouchStart={() => onMove('d', true)}
-          onTouchEnd={() => onMove('d', false)}
-          className="w-14 h-14 bg-red-900/80 rounded-lg flex items-center justify-center text-2xl border border-red-700"
+          onClick={() => setEnded(true)}
+          className="fixed top-16 left-1/2 -translate-x-1/2 z-40 px-4 py-2 text-sm text-gray-300 border border-red-900 rounded bg-black/70 hover:bg-red-900/50"
+          style={{ fontFamily: "'Special Elite', cursive" }}
         >
-          →
+          End race
         </button>
-      </div>
-    </div>
+      )}
+      {paused && !showResults && (
+        <PauseMenu
+          levelName={level.name}
+          preferences={preferences}
+          onPreferencesChange={onPreferencesChange}
+          onResume={() => setPaused(false)}
+          onRestart={handleRematch}
+          onQuit={onQuit}
+        />
+      )}
+      {showResults && <RaceResults levelName={level.name} results={racers} onRematch={handleRematch} onQuit={onQuit} />}
+    </>
   )
 }
 
+type GameState =
+  | 'start'
+  | 'playing'
+  | 'paused'
+  | 'jumpscare'
+  | 'win'
+  | 'editor'
+  | 'replay'
+  | 'controls'
+  | 'settings'
+  | 'race'
+  | 'lobby'
+  | 'countdown'
+
+interface OnlineSession {
+  selfId: string | null
+  room: RoomState | null
+  // Relay time the current race starts at, and the same moment on our clock
+  startAt: number | null
+  localStartAt: number | null
+  standings: Standing[] | null
+  final: boolean
+}
+
+const NEW_SESSION: OnlineSession = { selfId: null, room: null, startAt: null, localStartAt: null, standings: null, final: false }
+
+function describeGameState(gameState: GameState, levelName: string, lossReason: LossReason, stats: RunStats | null): string {
+  switch (gameState) {
+    case 'playing':
+      return `${levelName}. Find the exit.`
+    case 'paused':
+      return 'Paused.'
+    case 'jumpscare':
+      return `${LOSS_ANNOUNCEMENTS[lossReason]} Restarting the level.`
+    case 'win':
+      return stats ? `You escaped ${levelName} in ${formatDuration(stats.ticks)} with ${stats.deaths} deaths.` : `You escaped ${levelName}.`
+    case 'replay':
+      return 'Watching a replay.'
+    case 'race':
+      return `Two-player race through ${levelName}.`
+    case 'lobby':
+      return 'Online race lobby.'
+    case 'countdown':
+      return 'The race is about to start.'
+    default:
+      return ''
+  }
+}
+
+interface ReplayViewerState extends ReplayPlayback {
+  replay: Replay
+  // Where closing the viewer returns to
+  returnTo: GameState
+}
+
 export default function App() {
-  const [gameState, setGameState] = useState<'start' | 'playing' | 'jumpscare' | 'win'>('start')
+  const [gameState, setGameState] = useState<GameState>('start')
+  const [preferences, setPreferences] = useState<Preferences>(() => loadPreferences())
+  // The mode of the run in progress; preference changes apply from the next run
+  const [difficulty, setDifficulty] = useState<DifficultyMode>(preferences.difficulty)
+  const [bindings, setBindings] = useState<KeyBindings>(() => loadBindings())
+  const input = useMemo(() => createInputController(), [])
+  const [lossReason, setLossReason] = useState<LossReason>('wall')
+  // Message of the level-scripted scare on screen, if any
+  const [scare, setScare] = useState<string | null>(null)
+  const relay = useRef<RelayConnection | null>(null)
+  const [online, setOnline] = useState<OnlineSession | null>(null)
+  const [onlineError, setOnlineError] = useState<string | null>(null)
+  const snapshots = useRef(new Map<string, PositionSnapshot[]>())
   const [key, setKey] = useState(0)
+  const [levelIndex, setLevelIndex] = useState(0)
+  const [seed, setSeed] = useState(randomSeed)
+  // Seed of the seeded maze being played instead of the campaign
+  const [challenge, setChallenge] = useState<string | null>(null)
+  const [linkedSeed] = useState(() => seedFromUrl(window.location.search))
+  const [editorDocument, setEditorDocument] = useState<EditorDocument>(() => fromLevel(loadLevel(CAMPAIGN[0])))
+  const [playtestLevel, setPlaytestLevel] = useState<Level | null>(null)
+  const [lastReplay, setLastReplay] = useState<Replay | null>(null)
+  const [viewer, setViewer] = useState<ReplayViewerState | null>(null)
+  const [replayError, setReplayError] = useState<string | null>(null)
+  const inputLog = useRef<PlayerInput[]>([])
+  const run = useRef<RunStats>(EMPTY_RUN)
+  const attempt = useRef<AttemptProgress>(FRESH_ATTEMPT)
+  const [result, setResult] = useState<{ stats: RunStats; score: number; submission: Submission | null } | null>(null)
+  const playbackClock = useRef<PlaybackClock>({ tick: 0, playing: true, speed: 1 })
+  const campaignLevel = useMemo(() => loadLevel(CAMPAIGN[levelIndex], { seed }), [levelIndex, seed])
+  const challengeLevel = useMemo(() => (challenge === null ? null : loadLevel(SEEDED_LEVEL, { seed: challenge })), [challenge])
+  const level = playtestLevel ?? challengeLevel ?? campaignLevel
+  // Campaign mazes are reseeded every session, so a ghost of one would never
+  // be raced again; only fixed layouts and shared seeds keep them. Play-tests
+  // keep the id of the level they were opened from, so they never get one.
+  const ghostSlot = !playtestLevel && (level.seed === undefined || level === challengeLevel)
+    ? ghostKey(level, difficulty)
+    : null
+  const { cameraMode, mix } = preferences
+  const graphics = graphicsPreset(preferences.graphics)
+  const colors = paletteColors(preferences.accessibility.palette)
+  // Survives deaths and retries; a new level starts with a blank map
+  const exploration = useMemo(() => createExploration(level.grid), [level])
+  const minimapColors = useMemo(
+    () => ({ player: colors.player, goal: colors.goal, highContrast: preferences.accessibility.highContrast }),
+    [colors, preferences.accessibility.highContrast]
+  )
 
-  const handleWallCollision = useCallback(() => {
-    setGameState('jumpscare')
+  // Browsers keep audio suspended until the first user gesture
+  useEffect(() => {
+    const resume = () => getAudioEngine().resume()
+    window.addEventListener('pointerdown', resume)
+    window.addEventListener('keydown', resume)
+    return () => {
+      window.removeEventListener('pointerdown', resume)
+      window.removeEventListener('keydown', resume)
+    }
+  }, [])
+
+  useEffect(() => {
+    getAudioEngine().setMix(mix)
+  }, [mix])
+
+  useEffect(() => {
+    savePreferences(preferences)
+  }, [preferences])
+
+  // Follow the system's reduced-motion setting if it changes mid-session
+  useEffect(() => {
+    const query = window.matchMedia(REDUCED_MOTION_QUERY)
+    const handleChange = () => {
+      setPreferences(current => {
+        const accessibility = withSystemMotion(current.accessibility, query.matches)
+        return accessibility === current.accessibility ? current : { ...current, accessibility }
+      })
+    }
+    query.addEventListener('change', handleChange)
+    return () => query.removeEventListener('change', handleChange)
+  }, [])
+
+  const updatePreferences = useCallback((changes: Partial<Preferences>) => {
+    setPreferences(current => ({ ...current, ...changes }))
+  }, [])
+
+  useEffect(() => input.attach(), [input])
+
+  useEffect(() => {
+    input.setBindings(bindings)
+  }, [input, bindings])
+
+  useEffect(() => {
+    if (gameState !== 'playing' && gameState !== 'paused') return
+    return input.onAction(action => {
+      if (action === 'pause') {
+        setGameState(gameState === 'playing' ? 'paused' : 'playing')
+      } else if (action === 'toggleCamera' && gameState === 'playing') {
+        setPreferences(current => ({ ...current, cameraMode: nextCameraMode(current.cameraMode) }))
+      }
+    })
+  }, [input, gameState])
+
+  // Tabbing away would otherwise leave the run ticking (or, with the frame
+  // loop throttled, lurch forward on return)
+  useEffect(() => {
+    if (gameState !== 'playing') return
+    const handleVisibility = () => {
+      if (document.hidden) setGameState('paused')
+    }
+    document.addEventListener('visibilitychange', handleVisibility)
+    return () => document.removeEventListener('visibilitychange', handleVisibility)
+  }, [gameState])
+
+  // Browsers swallow the Escape that releases pointer lock, so losing the
+  // lock mid-run is treated as the pause key
+  useEffect(() => {
+    if (gameState !== 'playing' || !usesViewRelativeInput(cameraMode)) return
+    const handleLockChange = () => {
+      if (!document.pointerLockElement) setGameState('paused')
+    }
+    document.addEventListener('pointerlockchange', handleLockChange)
+    return () => document.removeEventListener('pointerlockchange', handleLockChange)
+  }, [gameState, cameraMode])
+
+  useEffect(() => {
+    const audio = getAudioEngine()
+    if (gameState === 'start' || gameState === 'editor' || gameState === 'controls' || gameState === 'settings') {
+      audio.stopAmbience()
+    } else {
+      audio.startAmbience()
+    }
+  }, [gameState])
+
+  // Every remount of the canvas is a fresh attempt with a fresh recording
+  useEffect(() => {
+    inputLog.current = []
+    attempt.current = FRESH_ATTEMPT
+  }, [key])
+
+  // Retries keep the same level object, so totals only reset on a new level
+  useEffect(() => {
+    run.current = EMPTY_RUN
+  }, [level])
+
+  const endAttempt = useCallback((died: boolean): RunStats => {
+    run.current = {
+      ticks: run.current.ticks + attempt.current.ticks,
+      deaths: run.current.deaths + (died ? 1 : 0),
+      distance: run.current.distance + attempt.current.distance,
+    }
+    attempt.current = FRESH_ATTEMPT
+    return run.current
+  }, [])
+
+  const ghost = useMemo(() => {
+    const best = ghostSlot === null ? null : loadGhost(ghostSlot)
+    if (!best) return null
+    try {
+      return simulateReplay(best, level).states
+    } catch {
+      return null
+    }
+  }, [level, ghostSlot, key])
+
+  const handleScare = useCallback((message?: string) => {
+    setScare(message ?? MINI_SCARE_MESSAGE)
+  }, [])
+  const handleScareClose = useCallback(() => setScare(null), [])
+
+  // Dying, pausing or winning cuts a scare short
+  useEffect(() => {
+    if (gameState !== 'playing') setScare(null)
+  }, [gameState])
+
+  const handleRelayMessage = useCallback((message: ServerMessage) => {
+    switch (message.type) {
+      case 'welcome':
+        setOnline(current => current && { ...current, selfId: message.id })
+        return
+      case 'room': {
+        const index = CAMPAIGN.findIndex(entry => (entry as { id?: unknown }).id === message.levelId)
+        if (index === -1) {
+          relay.current?.close()
+          setOnlineError(`This room races "${message.levelId}", which this build doesn't have`)
+          return
+        }
+        // Everyone in the room plays the host's maze on the host's difficulty
+        setPlaytestLevel(null)
+        setLevelIndex(index)
+        setSeed(message.seed)
+        setDifficulty(message.mode)
+        setOnline(current => current && { ...current, room: message })
+        return
+      }
+      case 'countdown':
+        snapshots.current = new Map()
+        run.current = EMPTY_RUN
+        attempt.current = FRESH_ATTEMPT
+        setOnline(current => current && {
+          ...current,
+          startAt: message.startAt,
+          localStartAt: performance.now() + message.startAt - (relay.current?.serverNow() ?? message.startAt),
+          standings: null,
+          final: false,
+        })
+        setKey(k => k + 1)
+        setGameState('countdown')
+        return
+      case 'snapshot':
+        snapshots.current.set(message.id, pushSnapshot(snapshots.current.get(message.id) ?? [], message))
+        return
+      case 'standings':
+        setOnline(current => current && { ...current, standings: message.standings, final: message.final })
+        return
+      case 'error':
+        setOnlineError(message.message)
+        return
+    }
+  }, [])
+
+  const handleJoin = useCallback((details: JoinDetails) => {
+    relay.current?.close()
+    setOnlineError(null)
+    setOnline(NEW_SESSION)
+    const connection = connectToRelay(
+      details.url,
+      {
+        room: details.room,
+        name: details.name,
+        levelId: String((CAMPAIGN[details.levelIndex] as { id?: unknown }).id),
+        seed: randomSeed(),
+        mode: preferences.difficulty,
+      },
+      {
+        onMessage: handleRelayMessage,
+        onClose: reason => {
+          if (relay.current === connection) relay.current = null
+          setOnline(null)
+          setOnlineError(reason)
+        },
+      },
+    )
+    relay.current = connection
+  }, [preferences.difficulty, handleRelayMessage])
+
+  const handleLeaveLobby = useCallback(() => {
+    relay.current?.close()
+    relay.current = null
+    setOnline(null)
+    setOnlineError(null)
+    setGameState('start')
+  }, [])
+
+  // Back to the lobby if the relay calls the race before we escape, or the
+  // connection drops before the start. A drop mid-race leaves the run
+  // playable on its own.
+  useEffect(() => {
+    const racing = gameState === 'countdown' || gameState === 'playing' || gameState === 'paused' || gameState === 'jumpscare'
+    const called = online !== null && online.final && online.startAt !== null
+    const dropped = online === null && gameState === 'countdown'
+    if (racing && (called || dropped)) setGameState('lobby')
+  }, [gameState, online])
+
+  const onlineRace = useMemo((): OnlineRace | null => {
+    if (!online?.room || online.startAt === null) return null
+    const startAt = online.startAt
+    return {
+      rivals: online.room.players.filter(player => player.id !== online.selfId),
+      snapshots,
+      raceTime: () => (relay.current?.serverNow() ?? startAt) - startAt,
+      attempt: key,
+      onSnapshot: snapshot => relay.current?.send({ type: 'snapshot', ...snapshot }),
+    }
+  }, [online, key])
+
+  const handleInput = useCallback((input: PlayerInput) => {
+    inputLog.current.push(input)
   }, [])
 
+  const finishRun = useCallback((outcome: ReplayOutcome) => {
+    const replay = playtestLevel
+      ? createReplay(level, difficulty, inputLog.current, outcome, true)
+      : createReplay(level, difficulty, inputLog.current, outcome)
+    setLastReplay(replay)
+    if (outcome === 'won' && ghostSlot !== null) {
+      saveGhostIfBest(ghostSlot, replay)
+    }
+  }, [level, playtestLevel, ghostSlot, difficulty])
+
+  const handleLose = useCallback((reason: LossReason) => {
+    finishRun(reason === 'caught' ? 'caught' : 'hit-wall')
+    endAttempt(true)
+    getAudioEngine().playStinger()
+    setLossReason(reason)
+    setGameState('jumpscare')
+  }, [finishRun, endAttempt])
+
   const handleWin = useCallback(() => {
+    finishRun('won')
+    const stats = endAttempt(false)
+    // The relay ranks escapes by when this arrives; it ignores it outside a race
+    relay.current?.send({ type: 'finish', deaths: stats.deaths })
+    const score = scoreRun(stats, level)
+    setResult({ stats, score, submission: null })
     setGameState('win')
+
+    // Editor play-tests and practice runs don't belong on the campaign boards
+    if (!playtestLevel && difficulty !== 'practice') {
+      leaderboard
+        // Each seed of the seeded maze is its own board
+        .submit({ ...stats, levelId: challenge === null ? level.id : layoutKey(level), mode: difficulty, score, finishedAt: new Date().toISOString() })
+        .then(submission => setResult(current => (current && current.stats === stats ? { ...current, submission } : current)))
+        .catch(() => {
+          // Leaderboards are best-effort; the win still counts
+        })
+    }
+  }, [finishRun, endAttempt, level, playtestLevel, challenge, difficulty])
+
+  const openReplay = useCallback((replay: Replay, returnTo: GameState) => {
+    try {
+      setViewer({ ...simulateReplay(replay), replay, returnTo })
+      playbackClock.current = { tick: 0, playing: true, speed: 1 }
+      setReplayError(null)
+      setKey(k => k + 1)
+      setGameState('replay')
+    } catch (error) {
+      if (error instanceof ReplayError || error instanceof LevelValidationError) {
+        setReplayError(error.message)
+      } else {
+        throw error
+      }
+    }
   }, [])
 
+  const handleCloseReplay = useCallback(() => {
+    setGameState(viewer?.returnTo ?? 'start')
+    setViewer(null)
+    setKey(k => k + 1)
+  }, [viewer])
+
+  const handleLoadReplay = useCallback(async (file: File) => {
+    try {
+      openReplay(parseReplay(JSON.parse(await file.text())), 'start')
+    } catch (error) {
+      setReplayError(`Could not load ${file.name}: ${(error as Error).message}`)
+    }
+  }, [openReplay])
+
   const handleJumpscareClose = useCallback(() => {
     setKey(k => k + 1)
     setGameState('playing')
   }, [])
 
+  const handleNextLevel = useCallback(() => {
+    setLevelIndex(i => Math.min(i + 1, CAMPAIGN.length - 1))
+    setSeed(randomSeed())
+    setDifficulty(preferences.difficulty)
+    setKey(k => k + 1)
+    setGameState('playing')
+  }, [preferences.difficulty])
+
   const handleRestart = useCallback(() => {
+    setLevelIndex(0)
+    setSeed(randomSeed())
+    setDifficulty(preferences.difficulty)
+    setKey(k => k + 1)
+    setGameState('playing')
+  }, [preferences.difficulty])
+
+  const handleStart = useCallback((challengeSeed: string | null) => {
+    setChallenge(challengeSeed)
+    setDifficulty(preferences.difficulty)
     setKey(k => k + 1)
     setGameState('playing')
+  }, [preferences.difficulty])
+
+  const handleCountdownDone = useCallback(() => setGameState('playing'), [])
+
+  const handleStartRace = useCallback(() => {
+    setDifficulty(preferences.difficulty)
+    setGameState('race')
+  }, [preferences.difficulty])
+
+  // Same maze, fresh totals; the abandoned attempt isn't recorded
+  const handleRestartLevel = useCallback(() => {
+    run.current = EMPTY_RUN
+    setDifficulty(preferences.difficulty)
+    setKey(k => k + 1)
+    setGameState('playing')
+  }, [preferences.difficulty])
+
+  const handleQuit = useCallback(() => {
+    relay.current?.close()
+    relay.current = null
+    setOnline(null)
+    run.current = EMPTY_RUN
+    setPlaytestLevel(null)
+    setChallenge(null)
+    setKey(k => k + 1)
+    setGameState('start')
+  }, [])
+
+  const handleOpenEditor = useCallback(() => {
+    setGameState('editor')
   }, [])
 
-  const handleStart = useCallback(() => {
+  const handleCloseEditor = useCallback(() => {
+    setGameState('start')
+  }, [])
+
+  const handlePlaytest = useCallback((testLevel: Level) => {
+    setPlaytestLevel(testLevel)
+    setDifficulty(preferences.difficulty)
+    setKey(k => k + 1)
     setGameState('playing')
+  }, [preferences.difficulty])
+
+  const handleBackToEditor = useCallback(() => {
+    setPlaytestLevel(null)
+    setKey(k => k + 1)
+    setGameState('editor')
   }, [])
 
-  const handleMobileMove = useCallback((dir: string, active: boolean) => {
-    const event = new KeyboardEvent(active ? 'keydown' : 'keyup', { key: dir })
-    window.dispatchEvent(event)
+  const handleBindingsChange = useCallback((next: KeyBindings) => {
+    setBindings(next)
+    saveBindings(next)
   }, [])
 
   return (
     <div className="w-screen h-screen bg-black overflow-hidden relative">
-      {gameState === 'start' && <StartScreen onStart={handleStart} />}
-      {gameState === 'jumpscare' && <JumpscareOverlay onClose={handleJumpscareClose} />}
-      {gameState === 'win' && <WinOverlay onRestart={handleRestart} />}
-
-      <div className="w-full h-full">
-        <Canvas key={key} camera={{ position: [15, 15, 20], fov: 60 }}>
-          <Suspense fallback={null}>
-            <Scene
-              onWallCollision={handleWallCollision}
-              onWin={handleWin}
-              gameActive={gameState === 'playing'}
-            />
-          </Suspense>
-        </Canvas>
-      </div>
+      {gameState === 'start' && (
+        <StartScreen
+          difficulty={preferences.difficulty}
+          onDifficultyChange={mode => updatePreferences({ difficulty: mode })}
+          onStart={handleStart}
+          linkedSeed={linkedSeed}
+          onStartRace={handleStartRace}
+          onOpenLobby={() => setGameState('lobby')}
+          onOpenEditor={handleOpenEditor}
+          onOpenControls={() => setGameState('controls')}
+          onOpenSettings={() => setGameState('settings')}
+          onLoadReplay={handleLoadReplay}
+          replayError={replayError}
+        />
+      )}
+      {gameState === 'settings' && (
+        <div
+          className="fixed inset-0 z-50 flex flex-col items-center justify-center gap-6 p-4 overflow-y-auto"
+          style={{ background: 'linear-gradient(180deg, #0a0000 0%, #1a0505 50%, #0a0000 100%)' }}
+        >
+          <h2 className="text-5xl text-red-600" style={{ fontFamily: "'Creepster', cursive" }}>
+            Settings
+          </h2>
+          <SettingsPanel preferences={preferences} onChange={setPreferences} />
+          <button
+            onClick={() => setGameState('start')}
+            className="px-6 py-2 rounded bg-red-700 text-black hover:bg-red-600"
+            style={{ fontFamily: "'Special Elite', cursive" }}
+          >
+            Done
+          </button>
+        </div>
+      )}
+      {gameState === 'paused' && (
+        <PauseMenu
+          levelName={level.name}
+          preferences={preferences}
+          onPreferencesChange={setPreferences}
+          difficultyNote={
+            preferences.difficulty !== difficulty ? 'Restart the level to play on the new difficulty.' : undefined
+          }
+          onResume={() => setGameState('playing')}
+          onRestart={handleRestartLevel}
+          onQuit={handleQuit}
+        />
+      )}
+      {gameState === 'controls' && (
+        <ControlsScreen bindings={bindings} onChange={handleBindingsChange} onClose={() => setGameState('start')} />
+      )}
+      {gameState === 'replay' && viewer && (
+        <ReplayViewer
+          replay={viewer.replay}
+          levelName={viewer.level.name}
+          desynced={viewer.desynced}
+          clock={playbackClock}
+          onClose={handleCloseReplay}
+        />
+      )}
+      {gameState === 'editor' && (
+        <LevelEditor
+          document={editorDocument}
+          onChange={setEditorDocument}
+          onPlaytest={handlePlaytest}
+          onExit={handleCloseEditor}
+        />
+      )}
+      {gameState === 'playing' && scare && (
+        <MiniScare key={scare} message={scare} intensity={preferences.accessibility.jumpscare} onClose={handleScareClose} />
+      )}
+      {gameState === 'jumpscare' && (
+        <JumpscareOverlay reason={lossReason} intensity={preferences.accessibility.jumpscare} onClose={handleJumpscareClose} />
+      )}
+      {gameState === 'lobby' && (
+        <OnlineLobby
+          levels={CAMPAIGN.map(entry => String((entry as { name?: unknown }).name))}
+          levelName={level.name}
+          connecting={online !== null && online.room === null}
+          room={online?.room ?? null}
+          selfId={online?.selfId ?? null}
+          results={online?.final ? online.standings : null}
+          error={onlineError}
+          onJoin={handleJoin}
+          onReady={ready => relay.current?.send({ type: 'ready', ready })}
+          onLeave={handleLeaveLobby}
+        />
+      )}
+      {gameState === 'countdown' && online && online.localStartAt !== null && (
+        <Countdown startAt={online.localStartAt} onDone={handleCountdownDone} />
+      )}
+      {gameState === 'win' && online && online.startAt !== null && (
+        <OnlineResults
+          standings={online.standings ?? []}
+          final={online.final}
+          selfId={online.selfId}
+          accentColor={colors.goalText}
+          onBackToLobby={() => setGameState('lobby')}
+        />
+      )}
+      {gameState === 'win' && result && (!online || online.startAt === null) && (
+        <WinOverlay
+          levelName={level.name}
+          levelNumber={challenge === null ? levelIndex + 1 : 1}
+          levelCount={challenge === null ? CAMPAIGN.length : 1}
+          subtitle={challenge === null ? undefined : describeSeed(challenge)}
+          onNextLevel={handleNextLevel}
+          onRestart={challenge === null ? handleRestart : handleRestartLevel}
+          onBackToEditor={playtestLevel ? handleBackToEditor : undefined}
+          onWatchReplay={lastReplay ? () => openReplay(lastReplay, 'win') : undefined}
+          stats={result.stats}
+          score={result.score}
+          submission={result.submission}
+          shareText={formatShareResult({
+            title: challenge === null ? level.name : describeSeed(challenge),
+            seed: level.seed,
+            stats: result.stats,
+            grid: level.grid,
+            visited: exploration.visited,
+            start: level.start,
+            goal: level.goal,
+            url: challenge === null ? undefined : challengeUrl(challenge, window.location.href),
+          })}
+          accentColor={colors.goalText}
+        />
+      )}
+
+      {gameState === 'playing' && lastReplay && lastReplay.outcome !== 'won' && (
+        <button
+          onClick={() => openReplay(lastReplay, 'playing')}
+          className="fixed top-4 right-4 z-40 px-4 py-2 text-sm text-gray-300 border border-red-900 rounded bg-black/70 hover:bg-red-900/50"
+          style={{ fontFamily: "'Special Elite', cursive" }}
+        >
+          ▶ Replay last death
+        </button>
+      )}
+
+      {gameState === 'playing' && playtestLevel && (
+        <button
+          onClick={handleBackToEditor}
+          className="fixed top-4 left-4 z-40 px-4 py-2 text-sm text-gray-300 border border-red-900 rounded bg-black/70 hover:bg-red-900/50"
+          style={{ fontFamily: "'Special Elite', cursive" }}
+        >
+          ◀ Editor
+        </button>
+      )}
+
+      {gameState === 'race' && (
+        <RaceView
+          level={level}
+          difficulty={difficulty}
+          preferences={preferences}
+          onPreferencesChange={setPreferences}
+          onQuit={handleQuit}
+        />
+      )}
+      {gameState !== 'editor' && gameState !== 'race' && (
+        <div className="w-full h-full">
+          <Canvas
+            key={key}
+            dpr={graphics.dpr}
+            gl={{ antialias: graphics.antialias }}
+            camera={{ position: [15, 15, 20], fov: 60 }}
+          >
+            <Suspense fallback={null}>
+              <Scene
+                level={viewer?.level ?? level}
+                difficulty={difficulty}
+                cameraMode={cameraMode}
+                input={input}
+                graphics={preferences.graphics}
+                effects={preferences.effects}
+                scanlines={preferences.scanlines}
+                accessibility={preferences.accessibility}
+                exploration={gameState === 'replay' ? undefined : exploration}
+                breadcrumbs={preferences.breadcrumbs}
+                onLose={handleLose}
+                onWin={handleWin}
+                onInput={handleInput}
+                onScare={handleScare}
+                online={gameState === 'replay' ? null : onlineRace}
+                attempt={attempt}
+                gameActive={gameState === 'playing'}
+                ghost={ghost}
+                replay={gameState === 'replay' && viewer ? { states: viewer.states, clock: playbackClock } : null}
+              />
+            </Suspense>
+          </Canvas>
+        </div>
+      )}
+
+      {gameState === 'playing' && (
+        <Hud
+          levelName={level.name}
+          difficulty={difficulty}
+          cameraMode={cameraMode}
+          onCameraModeChange={mode => updatePreferences({ cameraMode: mode })}
+          onPause={() => setGameState('paused')}
+          hardcore={!level.tuning.minimap}
+          run={run}
+          attempt={attempt}
+        />
+      )}
+      {gameState === 'playing' && <InventoryBar goalRequires={level.goalRequires} attempt={attempt} />}
+      {gameState === 'playing' && level.tuning.minimap && (
+        <Minimap
+          grid={level.grid}
+          goal={level.goal}
+          exploration={exploration}
+          breadcrumbs={preferences.breadcrumbs}
+          colors={minimapColors}
+        />
+      )}
+      {gameState === 'playing' && (
+        <TouchControls input={input} canLook={usesViewRelativeInput(cameraMode)} />
+      )}
+      {(gameState === 'start' || gameState === 'playing' || gameState === 'jumpscare' || gameState === 'win') && (
+        <SoundPanel mix={mix} onChange={next => updatePreferences({ mix: next })} />
+      )}
 
-      {gameState === 'playing' && <MobileControls onMove={handleMobileMove} />}
+      <Announcer message={scare ?? describeGameState(gameState, level.name, lossReason, result?.stats ?? null)} />
 
       {/* Footer */}
       <footer
@@ -0,0 +1,56 @@
+import { useState } from 'react'
+import { AudioMix, MIX_CHANNELS } from './engine'
+
+interface SoundPanelProps {
+  mix: AudioMix
+  onChange: (mix: AudioMix) => void
+}
+
+export default function SoundPanel({ mix, onChange }: SoundPanelProps) {
+  const [open, setOpen] = useState(false)
+
+  return (
+    <div
+      className="fixed bottom-4 left-4 z-40 flex flex-col-reverse items-start gap-2 text-sm text-gray-300"
+      style={{ fontFamily: "'Special Elite', cursive" }}
+    >
+      <div className="flex gap-2">
+        <button
+          onClick={() => onChange({ ...mix, muted: !mix.muted })}
+          className="w-10 h-10 rounded bg-black/70 border border-red-900 hover:bg-red-900/50"
+          aria-label={mix.muted ? 'Unmute' : 'Mute'}
+          aria-pressed={mix.muted}
+        >
+          {mix.muted ? '🔇' : '🔊'}
+        </button>
+        <button
+          onClick={() => setOpen(o => !o)}
+          className="h-10 px-3 rounded bg-black/70 border border-red-900 hover:bg-red-900/50"
+          aria-expanded={open}
+        >
+          Sound
+        </button>
+      </div>
+
+      {open && (
+        <div className="p-3 rounded bg-black/80 border border-red-900 flex flex-col gap-2">
+          {MIX_CHANNELS.map(({ key, label }) => (
+            <label key={key} className="flex items-center gap-3">
+              <span className="w-16">{label}</span>
+              <input
+                type="range"
+                min={0}
+                max={1}
+                step={0.05}
+                value={mix[key]}
+                onChange={e => onChange({ ...mix, [key]: e.target.valueAsNumber })}
+                className="accent-red-600"
+              />
+              <span className="w-10 text-right tabular-nums">{Math.round(mix[key] * 100)}%</span>
+            </label>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
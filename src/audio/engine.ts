@@ -0,0 +1,167 @@
+import { StopSound, playStinger, scheduleHeartbeat, startChime, startDrone, startWhisper } from './synths'
+
+export interface AudioMix {
+  master: number
+  music: number
+  sfx: number
+  muted: boolean
+}
+
+export const DEFAULT_MIX: AudioMix = { master: 0.8, music: 0.6, sfx: 0.9, muted: false }
+
+export const MIX_CHANNELS: readonly { key: 'master' | 'music' | 'sfx'; label: string }[] = [
+  { key: 'master', label: 'Master' },
+  { key: 'music', label: 'Music' },
+  { key: 'sfx', label: 'Effects' },
+]
+
+export type EmitterKind = 'skull' | 'goal'
+
+interface Vector {
+  x: number
+  y: number
+  z: number
+}
+
+export interface AudioEngine {
+  // Browsers only allow audio after a user gesture; call from a click handler
+  resume(): void
+  setMix(mix: AudioMix): void
+  startAmbience(): void
+  stopAmbience(): void
+  // 0 = calm, 1 = something is right behind you
+  setHeartbeatIntensity(intensity: number): void
+  setListener(position: Vector, forward: Vector, up: Vector): void
+  // Returns a function that fades the emitter out and releases it
+  createEmitter(kind: EmitterKind, position: Vector): () => void
+  playStinger(): void
+}
+
+const SILENT_ENGINE: AudioEngine = {
+  resume() {},
+  setMix() {},
+  startAmbience() {},
+  stopAmbience() {},
+  setHeartbeatIntensity() {},
+  setListener() {},
+  createEmitter: () => () => {},
+  playStinger() {},
+}
+
+// Heartbeats are scheduled slightly ahead on the audio clock so timer jitter
+// on the main thread never makes the rhythm stutter
+const SCHEDULE_INTERVAL_MS = 50
+const SCHEDULE_AHEAD_SECONDS = 0.15
+const HEARTBEAT_THRESHOLD = 0.1
+
+function createAudioEngine(): AudioEngine {
+  const AudioContextClass = window.AudioContext ?? (window as { webkitAudioContext?: typeof AudioContext }).webkitAudioContext
+  if (!AudioContextClass) {
+    return SILENT_ENGINE
+  }
+
+  const ctx = new AudioContextClass()
+  const master = ctx.createGain()
+  const music = ctx.createGain()
+  const sfx = ctx.createGain()
+  music.connect(master)
+  sfx.connect(master)
+  master.connect(ctx.destination)
+
+  let stopDrone: StopSound | null = null
+  let heartbeat = 0
+  let nextBeat = 0
+
+  setInterval(() => {
+    if (ctx.state !== 'running' || heartbeat < HEARTBEAT_THRESHOLD) {
+      nextBeat = 0
+      return
+    }
+    const now = ctx.currentTime
+    if (nextBeat < now) {
+      nextBeat = now + 0.05
+    }
+    while (nextBeat < now + SCHEDULE_AHEAD_SECONDS) {
+      scheduleHeartbeat(ctx, sfx, nextBeat, 0.15 + 0.85 * heartbeat)
+      // 50 bpm when uneasy, 140 bpm when terrified
+      nextBeat += 60 / (50 + 90 * heartbeat)
+    }
+  }, SCHEDULE_INTERVAL_MS)
+
+  const setParam = (param: AudioParam, value: number) => {
+    param.setTargetAtTime(value, ctx.currentTime, 0.05)
+  }
+
+  return {
+    resume() {
+      if (ctx.state === 'suspended') {
+        void ctx.resume()
+      }
+    },
+    setMix(mix) {
+      setParam(master.gain, mix.muted ? 0 : mix.master)
+      setParam(music.gain, mix.music)
+      setParam(sfx.gain, mix.sfx)
+    },
+    startAmbience() {
+      if (!stopDrone) {
+        stopDrone = startDrone(ctx, music)
+      }
+    },
+    stopAmbience() {
+      stopDrone?.()
+      stopDrone = null
+    },
+    setHeartbeatIntensity(intensity) {
+      heartbeat = Math.max(0, Math.min(1, intensity))
+    },
+    setListener(position, forward, up) {
+      const { listener } = ctx
+      if (listener.positionX) {
+        listener.positionX.value = position.x
+        listener.positionY.value = position.y
+        listener.positionZ.value = position.z
+        listener.forwardX.value = forward.x
+        listener.forwardY.value = forward.y
+        listener.forwardZ.value = forward.z
+        listener.upX.value = up.x
+        listener.upY.value = up.y
+        listener.upZ.value = up.z
+      } else {
+        // Firefox still only has the deprecated setters
+        listener.setPosition(position.x, position.y, position.z)
+        listener.setOrientation(forward.x, forward.y, forward.z, up.x, up.y, up.z)
+      }
+    },
+    createEmitter(kind, position) {
+      const panner = ctx.createPanner()
+      panner.panningModel = 'HRTF'
+      panner.distanceModel = 'inverse'
+      panner.refDistance = 2
+      panner.maxDistance = 40
+      panner.rolloffFactor = 1.5
+      panner.positionX.value = position.x
+      panner.positionY.value = position.y
+      panner.positionZ.value = position.z
+      panner.connect(sfx)
+      const stop = kind === 'skull' ? startWhisper(ctx, panner) : startChime(ctx, panner)
+      return () => {
+        stop()
+        setTimeout(() => panner.disconnect(), 2000)
+      }
+    },
+    playStinger() {
+      playStinger(ctx, sfx)
+    },
+  }
+}
+
+let engine: AudioEngine | null = null
+
+// Created lazily so importing this module never touches Web Audio
+export function getAudioEngine(): AudioEngine {
+  if (!engine) {
+    engine = typeof window === 'undefined' ? SILENT_ENGINE : createAudioEngine()
+  }
+  return engine
+}
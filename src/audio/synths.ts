@@ -0,0 +1,203 @@
+// Every sound is synthesised from oscillators and noise so the game needs
+// no media files and works offline
+
+export type StopSound = () => void
+
+const noiseBuffers = new WeakMap<BaseAudioContext, AudioBuffer>()
+
+export function noiseBuffer(ctx: BaseAudioContext): AudioBuffer {
+  let buffer = noiseBuffers.get(ctx)
+  if (!buffer) {
+    buffer = ctx.createBuffer(1, ctx.sampleRate * 2, ctx.sampleRate)
+    const data = buffer.getChannelData(0)
+    for (let i = 0; i < data.length; i++) {
+      data[i] = Math.random() * 2 - 1
+    }
+    noiseBuffers.set(ctx, buffer)
+  }
+  return buffer
+}
+
+function loopedNoise(ctx: AudioContext): AudioBufferSourceNode {
+  const source = ctx.createBufferSource()
+  source.buffer = noiseBuffer(ctx)
+  source.loop = true
+  return source
+}
+
+function lfo(ctx: AudioContext, frequency: number, depth: number, target: AudioParam): OscillatorNode {
+  const osc = ctx.createOscillator()
+  const gain = ctx.createGain()
+  osc.frequency.value = frequency
+  gain.gain.value = depth
+  osc.connect(gain).connect(target)
+  return osc
+}
+
+function stopAll(sources: AudioScheduledSourceNode[], output: GainNode, ctx: AudioContext): StopSound {
+  return () => {
+    const end = ctx.currentTime + 1.5
+    output.gain.cancelScheduledValues(ctx.currentTime)
+    output.gain.setTargetAtTime(0, ctx.currentTime, 0.4)
+    for (const source of sources) {
+      source.stop(end)
+    }
+  }
+}
+
+// Detuned low saws through a slowly breathing filter, plus a band of wind
+export function startDrone(ctx: AudioContext, destination: AudioNode): StopSound {
+  const output = ctx.createGain()
+  output.gain.value = 0
+  output.gain.setTargetAtTime(1, ctx.currentTime, 2)
+  output.connect(destination)
+
+  const filter = ctx.createBiquadFilter()
+  filter.type = 'lowpass'
+  filter.frequency.value = 180
+  filter.Q.value = 6
+  const tone = ctx.createGain()
+  tone.gain.value = 0.25
+  filter.connect(tone).connect(output)
+
+  const oscillators = [
+    { type: 'sawtooth' as const, frequency: 55 },
+    { type: 'sawtooth' as const, frequency: 55 * 1.007 },
+    { type: 'sine' as const, frequency: 41.2 },
+  ].map(({ type, frequency }) => {
+    const osc = ctx.createOscillator()
+    osc.type = type
+    osc.frequency.value = frequency
+    osc.connect(filter)
+    return osc
+  })
+
+  const wind = loopedNoise(ctx)
+  const windFilter = ctx.createBiquadFilter()
+  windFilter.type = 'bandpass'
+  windFilter.frequency.value = 400
+  windFilter.Q.value = 0.7
+  const windGain = ctx.createGain()
+  windGain.gain.value = 0.08
+  wind.connect(windFilter).connect(windGain).connect(output)
+
+  const modulators = [
+    lfo(ctx, 0.07, 80, filter.frequency),
+    lfo(ctx, 0.13, 200, windFilter.frequency),
+    lfo(ctx, 0.05, 0.04, windGain.gain),
+  ]
+
+  const sources = [...oscillators, wind, ...modulators]
+  for (const source of sources) {
+    source.start()
+  }
+  return stopAll(sources, output, ctx)
+}
+
+// One "lub-dub": a sine thump with a falling pitch, then a softer echo
+export function scheduleHeartbeat(ctx: AudioContext, destination: AudioNode, time: number, level: number) {
+  for (const [offset, strength] of [[0, 1], [0.28, 0.7]]) {
+    const start = time + offset
+    const osc = ctx.createOscillator()
+    const gain = ctx.createGain()
+    osc.frequency.setValueAtTime(65, start)
+    osc.frequency.exponentialRampToValueAtTime(38, start + 0.12)
+    gain.gain.setValueAtTime(0.0001, start)
+    gain.gain.exponentialRampToValueAtTime(0.9 * level * strength + 0.0001, start + 0.008)
+    gain.gain.exponentialRampToValueAtTime(0.0001, start + 0.2)
+    osc.connect(gain).connect(destination)
+    osc.start(start)
+    osc.stop(start + 0.25)
+  }
+}
+
+// Breathy, wandering whisper for skulls
+export function startWhisper(ctx: AudioContext, destination: AudioNode): StopSound {
+  const output = ctx.createGain()
+  output.gain.value = 0.05
+  output.connect(destination)
+
+  const noise = loopedNoise(ctx)
+  const filter = ctx.createBiquadFilter()
+  filter.type = 'bandpass'
+  filter.frequency.value = 900
+  filter.Q.value = 8
+  const swell = ctx.createGain()
+  swell.gain.value = 0.5
+  noise.connect(filter).connect(swell).connect(output)
+
+  // Slightly different rates per skull keep a room of them from pulsing in sync
+  const rate = 0.2 + Math.random() * 0.2
+  const sources = [noise, lfo(ctx, rate, 0.5, swell.gain), lfo(ctx, rate * 0.7, 300, filter.frequency)]
+  for (const source of sources) {
+    source.start(ctx.currentTime + Math.random())
+  }
+  return stopAll(sources, output, ctx)
+}
+
+// Glassy fifth with a tremolo for the goal crystal
+export function startChime(ctx: AudioContext, destination: AudioNode): StopSound {
+  const output = ctx.createGain()
+  output.gain.value = 0.04
+  output.connect(destination)
+
+  const shimmer = ctx.createGain()
+  shimmer.gain.value = 0.6
+  shimmer.connect(output)
+
+  const oscillators = [880, 1318.5, 1760 * 1.002].map(frequency => {
+    const osc = ctx.createOscillator()
+    osc.type = 'sine'
+    osc.frequency.value = frequency
+    osc.connect(shimmer)
+    return osc
+  })
+
+  const sources = [...oscillators, lfo(ctx, 5.5, 0.4, shimmer.gain)]
+  for (const source of sources) {
+    source.start()
+  }
+  return stopAll(sources, output, ctx)
+}
+
+// Noise burst, a dissonant falling cluster and a sub boom
+export function playStinger(ctx: AudioContext, destination: AudioNode) {
+  const now = ctx.currentTime
+
+  const noise = ctx.createBufferSource()
+  noise.buffer = noiseBuffer(ctx)
+  const highpass = ctx.createBiquadFilter()
+  highpass.type = 'highpass'
+  highpass.frequency.value = 1200
+  const noiseGain = ctx.createGain()
+  noiseGain.gain.setValueAtTime(0.6, now)
+  noiseGain.gain.exponentialRampToValueAtTime(0.001, now + 1.2)
+  noise.connect(highpass).connect(noiseGain).connect(destination)
+  noise.start(now)
+  noise.stop(now + 1.3)
+
+  const clusterGain = ctx.createGain()
+  clusterGain.gain.setValueAtTime(0.0001, now)
+  clusterGain.gain.exponentialRampToValueAtTime(0.18, now + 0.02)
+  clusterGain.gain.exponentialRampToValueAtTime(0.001, now + 2)
+  clusterGain.connect(destination)
+  for (const frequency of [311, 330, 466, 493, 987]) {
+    const osc = ctx.createOscillator()
+    osc.type = 'sawtooth'
+    osc.frequency.setValueAtTime(frequency, now)
+    osc.frequency.exponentialRampToValueAtTime(frequency * 0.45, now + 1.8)
+    osc.connect(clusterGain)
+    osc.start(now)
+    osc.stop(now + 2.1)
+  }
+
+  const boom = ctx.createOscillator()
+  const boomGain = ctx.createGain()
+  boom.frequency.setValueAtTime(90, now)
+  boom.frequency.exponentialRampToValueAtTime(28, now + 0.8)
+  boomGain.gain.setValueAtTime(0.9, now)
+  boomGain.gain.exponentialRampToValueAtTime(0.001, now + 1)
+  boom.connect(boomGain).connect(destination)
+  boom.start(now)
+  boom.stop(now + 1.1)
+}
@@ -0,0 +1,387 @@
+import { useState, useMemo, useRef, useCallback, ChangeEvent, KeyboardEvent } from 'react'
+import {
+  CELL,
+  GATE_DIRECTIONS,
+  GateDirection,
+  GridPoint,
+  KEY_COLORS,
+  KeyColor,
+  doorColor,
+  gateDirection,
+  keyColor,
+  pickupType,
+} from '../maze/grid'
+import { randomSeed } from '../maze/random'
+import { findPath } from '../maze/solve'
+import { Level } from '../levels/format'
+import { KEY_COLOR_HEX } from '../game/items'
+import { LevelValidationError, loadLevel } from '../levels/load'
+import {
+  EDITOR_TOOLS,
+  EditorDocument,
+  EditorTool,
+  MAX_EDITOR_SIZE,
+  MIN_EDITOR_SIZE,
+  DEFAULT_TOOL_OPTIONS,
+  ToolOptions,
+  applyTool,
+  createBlankDocument,
+  createGeneratedDocument,
+  fromLevel,
+  resizeDocument,
+  toLevelFile,
+  validateDocument,
+} from './document'
+
+const TOOL_LABELS: Record<EditorTool, string> = {
+  wall: '▇ Wall',
+  path: '□ Path',
+  start: '● Start',
+  goal: '◆ Goal',
+  skull: '💀 Skull',
+  hunter: '👁 Hunter',
+  torch: '🔥 Torch',
+  key: '🗝 Key',
+  door: '▮ Door',
+  gate: '⇥ Gate',
+  battery: '🔋 Battery',
+  life: '❤ Extra life',
+  time: '⏳ Time bonus',
+}
+
+const GATE_ARROWS: Record<GateDirection, string> = { north: '↑', east: '→', south: '↓', west: '←' }
+
+const PICKUP_ICONS = { battery: '🔋', life: '❤', time: '⏳' }
+
+// Brush tools paint while dragging; markers only place on click
+const DRAG_TOOLS: readonly EditorTool[] = ['wall', 'path']
+
+interface LevelEditorProps {
+  document: EditorDocument
+  onChange: (document: EditorDocument) => void
+  onPlaytest: (level: Level) => void
+  onExit: () => void
+}
+
+export default function LevelEditor({ document: doc, onChange, onPlaytest, onExit }: LevelEditorProps) {
+  const [tool, setTool] = useState<EditorTool>('wall')
+  const [toolOptions, setToolOptions] = useState<ToolOptions>(DEFAULT_TOOL_OPTIONS)
+  const [importError, setImportError] = useState<string[] | null>(null)
+  const [copy, setCopy] = useState<'idle' | 'copied' | 'failed'>('idle')
+  // Typed sizes apply on blur or Enter, so a half-typed "2" on the way from
+  // 21 to 25 never crops the grid
+  const [sizeDraft, setSizeDraft] = useState<{ width: string; height: string } | null>(null)
+  const painting = useRef(false)
+  const fileInput = useRef<HTMLInputElement>(null)
+
+  const width = doc.grid[0].length
+  const height = doc.grid.length
+  const cellPx = Math.max(6, Math.min(32, Math.floor(560 / Math.max(width, height))))
+
+  const validation = useMemo(() => validateDocument(doc), [doc])
+
+  const solution = useMemo(() => {
+    if (!validation.ok) return new Set<string>()
+    const path = findPath(validation.level.grid, validation.level.start, validation.level.goal) ?? []
+    return new Set(path.map(({ x, z }) => `${x},${z}`))
+  }, [validation])
+
+  const paint = useCallback((point: GridPoint) => {
+    onChange(applyTool(doc, tool, point, toolOptions))
+  }, [doc, tool, toolOptions, onChange])
+
+  const editSize = (key: 'width' | 'height', value: string) => {
+    setSizeDraft(current => ({ width: String(width), height: String(height), ...current, [key]: value }))
+  }
+
+  const applySize = () => {
+    if (!sizeDraft) return
+    setSizeDraft(null)
+    const nextWidth = Number.parseInt(sizeDraft.width, 10)
+    const nextHeight = Number.parseInt(sizeDraft.height, 10)
+    if (!Number.isFinite(nextWidth) || !Number.isFinite(nextHeight)) return
+    if (nextWidth !== width || nextHeight !== height) onChange(resizeDocument(doc, nextWidth, nextHeight))
+  }
+
+  const sizeInputProps = (key: 'width' | 'height') => ({
+    type: 'number',
+    min: MIN_EDITOR_SIZE,
+    max: MAX_EDITOR_SIZE,
+    value: sizeDraft ? sizeDraft[key] : String(key === 'width' ? width : height),
+    onChange: (e: ChangeEvent<HTMLInputElement>) => editSize(key, e.target.value),
+    onBlur: applySize,
+    onKeyDown: (e: KeyboardEvent<HTMLInputElement>) => {
+      if (e.key === 'Enter') applySize()
+    },
+    className: 'w-20 bg-black border border-red-900 rounded px-2 py-1 text-gray-200',
+  })
+
+  const exportJson = () => JSON.stringify(toLevelFile(doc), null, 2)
+
+  const handleDownload = () => {
+    const url = URL.createObjectURL(new Blob([exportJson()], { type: 'application/json' }))
+    const link = window.document.createElement('a')
+    link.href = url
+    link.download = `${doc.id || 'level'}.json`
+    link.click()
+    URL.revokeObjectURL(url)
+  }
+
+  // The clipboard API needs a secure context; failing that, show the JSON
+  // selected so it can be copied by hand
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(exportJson())
+      setCopy('copied')
+      setTimeout(() => setCopy('idle'), 1500)
+    } catch {
+      setCopy('failed')
+    }
+  }
+
+  const handleImport = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) return
+    try {
+      onChange(fromLevel(loadLevel(JSON.parse(await file.text()))))
+      setImportError(null)
+    } catch (error) {
+      if (error instanceof LevelValidationError) {
+        setImportError(error.issues)
+      } else {
+        setImportError([`Could not read ${file.name}: ${(error as Error).message}`])
+      }
+    }
+  }
+
+  const cellColor = (x: number, z: number): string => {
+    if (doc.start && doc.start.x === x && doc.start.z === z) return '#ff0000'
+    if (doc.goal && doc.goal.x === x && doc.goal.z === z) return '#00ff00'
+    if (doc.grid[z][x] === CELL.WALL) return '#3a1a1a'
+    const door = doorColor(doc.grid[z][x])
+    if (door) return KEY_COLOR_HEX[door]
+    if (solution.has(`${x},${z}`)) return '#2a2a10'
+    return '#0a0505'
+  }
+
+  const cellIcon = (x: number, z: number) => {
+    const value = doc.grid[z][x]
+    const key = keyColor(value)
+    if (key) return <span style={{ color: KEY_COLOR_HEX[key] }}>🗝</span>
+    const gate = gateDirection(value)
+    if (gate) return <span className="text-purple-400">{GATE_ARROWS[GATE_DIRECTIONS[value - CELL.GATE_NORTH]]}</span>
+    const pickup = pickupType(value)
+    return pickup ? PICKUP_ICONS[pickup] : null
+  }
+
+  const toggleGoalKey = (color: KeyColor) => {
+    const goalRequires = doc.goalRequires.includes(color)
+      ? doc.goalRequires.filter(c => c !== color)
+      : [...doc.goalRequires, color]
+    onChange({ ...doc, goalRequires })
+  }
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex flex-col md:flex-row items-center md:items-start justify-center gap-6 p-6 overflow-auto text-gray-300"
+      style={{
+        background: 'linear-gradient(180deg, #0a0000 0%, #1a0505 50%, #0a0000 100%)',
+        fontFamily: "'Special Elite', cursive",
+      }}
+      onPointerUp={() => { painting.current = false }}
+      onPointerLeave={() => { painting.current = false }}
+    >
+      <div
+        className="grid select-none touch-none border border-red-900"
+        style={{ gridTemplateColumns: `repeat(${width}, ${cellPx}px)` }}
+      >
+        {doc.grid.map((row, z) =>
+          row.map((_, x) => {
+            const skull = doc.decorations.some(d => d.x === x && d.z === z)
+            const hunter = doc.enemies.some(e => e.x === x && e.z === z)
+            const torch = doc.torches.some(t => t.x === x && t.z === z)
+            return (
+              <div
+                key={`${x}-${z}`}
+                className="flex items-center justify-center"
+                style={{
+                  width: cellPx,
+                  height: cellPx,
+                  background: cellColor(x, z),
+                  fontSize: cellPx * 0.7,
+                  lineHeight: 1,
+                }}
+                onPointerDown={e => {
+                  e.preventDefault()
+                  painting.current = DRAG_TOOLS.includes(tool)
+                  paint({ x, z })
+                }}
+                onPointerEnter={() => {
+                  if (painting.current) paint({ x, z })
+                }}
+              >
+                {hunter ? '👁' : skull ? '💀' : torch ? '🔥' : cellIcon(x, z)}
+              </div>
+            )
+          }),
+        )}
+      </div>
+
+      <div className="w-full max-w-xs flex flex-col gap-4">
+        <div
+          className="text-4xl text-red-600"
+          style={{ fontFamily: "'Creepster', cursive", textShadow: '0 0 20px #ff0000' }}
+        >
+          LEVEL EDITOR
+        </div>
+
+        <label className="flex flex-col gap-1 text-sm">
+          Name
+          <input
+            value={doc.name}
+            onChange={e => onChange({ ...doc, name: e.target.value })}
+            className="bg-black border border-red-900 rounded px-2 py-1 text-gray-200"
+          />
+        </label>
+
+        <div className="grid grid-cols-2 gap-2">
+          {EDITOR_TOOLS.map(t => (
+            <button
+              key={t}
+              onClick={() => setTool(t)}
+              className={`px-3 py-2 rounded border text-sm ${t === tool ? 'bg-red-700 border-red-500 text-black' : 'border-red-900 hover:bg-red-900/50'}`}
+            >
+              {TOOL_LABELS[t]}
+            </button>
+          ))}
+        </div>
+
+        {(tool === 'key' || tool === 'door') && (
+          <div className="flex gap-2 text-sm" role="radiogroup" aria-label="Key colour">
+            {KEY_COLORS.map(color => (
+              <button
+                key={color}
+                role="radio"
+                aria-checked={toolOptions.color === color}
+                onClick={() => setToolOptions({ ...toolOptions, color })}
+                className={`flex-1 px-2 py-1 rounded border capitalize ${toolOptions.color === color ? 'border-gray-200' : 'border-red-900'}`}
+                style={{ color: KEY_COLOR_HEX[color] }}
+              >
+                {color}
+              </button>
+            ))}
+          </div>
+        )}
+        {tool === 'gate' && (
+          <div className="flex gap-2 text-sm" role="radiogroup" aria-label="Gate direction">
+            {GATE_DIRECTIONS.map(direction => (
+              <button
+                key={direction}
+                role="radio"
+                aria-checked={toolOptions.direction === direction}
+                aria-label={direction}
+                onClick={() => setToolOptions({ ...toolOptions, direction })}
+                className={`flex-1 px-2 py-1 rounded border ${toolOptions.direction === direction ? 'bg-red-700 border-red-500 text-black' : 'border-red-900'}`}
+              >
+                {GATE_ARROWS[direction]}
+              </button>
+            ))}
+          </div>
+        )}
+
+        <div className="flex items-center gap-3 text-sm">
+          Exit needs
+          {KEY_COLORS.map(color => (
+            <label key={color} className="flex items-center gap-1 capitalize" style={{ color: KEY_COLOR_HEX[color] }}>
+              <input type="checkbox" checked={doc.goalRequires.includes(color)} onChange={() => toggleGoalKey(color)} />
+              {color}
+            </label>
+          ))}
+        </div>
+
+        <div className="flex gap-2 items-end text-sm">
+          <label className="flex flex-col gap-1">
+            Width
+            <input {...sizeInputProps('width')} />
+          </label>
+          <label className="flex flex-col gap-1">
+            Height
+            <input {...sizeInputProps('height')} />
+          </label>
+        </div>
+
+        <div className="grid grid-cols-2 gap-2 text-sm">
+          <button
+            onClick={() => onChange(createBlankDocument(width, height))}
+            className="px-3 py-2 rounded border border-red-900 hover:bg-red-900/50"
+          >
+            Clear
+          </button>
+          <button
+            onClick={() => onChange(createGeneratedDocument(width, height, randomSeed()))}
+            className="px-3 py-2 rounded border border-red-900 hover:bg-red-900/50"
+          >
+            Generate
+          </button>
+        </div>
+
+        <div className={`text-sm rounded border p-3 ${validation.ok ? 'border-green-800 text-green-400' : 'border-red-800 text-red-400'}`}>
+          {validation.ok ? (
+            <span>
+              {/* Routes through doors depend on keys, so there's no single shortest path to show */}
+              {solution.size > 0 ? `Solvable · shortest route ${solution.size - 1} steps` : 'Solvable with keys'}
+            </span>
+          ) : (
+            <ul className="list-disc pl-4">
+              {validation.issues.map(issue => <li key={issue}>{issue}</li>)}
+            </ul>
+          )}
+        </div>
+
+        <button
+          disabled={!validation.ok}
+          onClick={() => validation.ok && onPlaytest(validation.level)}
+          className="px-6 py-3 text-xl font-bold text-black bg-red-600 rounded-lg hover:bg-red-500 disabled:opacity-40 disabled:hover:bg-red-600 transition-all"
+          style={{ fontFamily: "'Creepster', cursive" }}
+        >
+          PLAY-TEST
+        </button>
+
+        <div className="grid grid-cols-3 gap-2 text-sm">
+          <button onClick={handleDownload} className="px-2 py-2 rounded border border-red-900 hover:bg-red-900/50">
+            Export
+          </button>
+          <button onClick={handleCopy} className="px-2 py-2 rounded border border-red-900 hover:bg-red-900/50">
+            {copy === 'copied' ? 'Copied!' : copy === 'failed' ? 'Copy by hand' : 'Copy'}
+          </button>
+          <button onClick={() => fileInput.current?.click()} className="px-2 py-2 rounded border border-red-900 hover:bg-red-900/50">
+            Import
+          </button>
+          <input ref={fileInput} type="file" accept="application/json,.json" className="hidden" onChange={handleImport} />
+        </div>
+
+        {copy === 'failed' && (
+          <textarea
+            readOnly
+            autoFocus
+            value={exportJson()}
+            onFocus={e => e.target.select()}
+            aria-label="Level JSON"
+            className="h-32 bg-black border border-red-900 rounded p-2 text-xs font-mono text-gray-300"
+          />
+        )}
+
+        {importError && (
+          <ul className="text-sm text-red-400 list-disc pl-4">
+            {importError.map(issue => <li key={issue}>{issue}</li>)}
+          </ul>
+        )}
+
+        <button onClick={onExit} className="text-sm text-gray-500 hover:text-gray-300 underline">
+          Back to title
+        </button>
+      </div>
+    </div>
+  )
+}
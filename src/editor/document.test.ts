@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest'
+import { CAMPAIGN } from '../levels/campaign'
+import { loadLevel } from '../levels/load'
+import { applyTool, fromLevel, resizeDocument, validateDocument } from './document'
+
+// The crypt closes a wall at (8,11) behind the player
+const crypt = () => fromLevel(loadLevel(CAMPAIGN[0]))
+
+describe('editor triggers', () => {
+  it('drops a trigger whose sliding wall is painted over', () => {
+    const doc = applyTool(crypt(), 'wall', { x: 8, z: 11 })
+    expect(doc.triggers.some(t => t.actions.some(a => a.type === 'close-wall'))).toBe(false)
+    expect(validateDocument(doc).ok).toBe(true)
+  })
+
+  it('drops triggers that no longer fit after shrinking', () => {
+    const doc = resizeDocument(crypt(), 5, 5)
+    expect(doc.triggers).toEqual([])
+  })
+
+  it('keeps triggers an edit does not touch', () => {
+    const original = crypt()
+    expect(applyTool(original, 'torch', { x: 1, z: 1 }).triggers).toBe(original.triggers)
+  })
+})
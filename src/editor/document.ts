@@ -0,0 +1,335 @@
+import {
+  CELL,
+  GateDirection,
+  GridPoint,
+  KeyColor,
+  MazeGrid,
+  PICKUP_CELLS,
+  doorCell,
+  gateCell,
+  inBounds,
+  keyCell,
+} from '../maze/grid'
+import { generateMaze } from '../maze/generate'
+import { Seed } from '../maze/random'
+import { Blackout, Decoration, EnemySpawn, LEVEL_FORMAT_VERSION, Level, LevelFile, TorchSpawn, TriggerSpawn } from '../levels/format'
+import { LevelValidationError, loadLevel } from '../levels/load'
+
+export type EditorTool =
+  | 'wall'
+  | 'path'
+  | 'start'
+  | 'goal'
+  | 'skull'
+  | 'hunter'
+  | 'torch'
+  | 'key'
+  | 'door'
+  | 'gate'
+  | 'battery'
+  | 'life'
+  | 'time'
+
+export const EDITOR_TOOLS: readonly EditorTool[] = [
+  'wall',
+  'path',
+  'start',
+  'goal',
+  'skull',
+  'hunter',
+  'torch',
+  'key',
+  'door',
+  'gate',
+  'battery',
+  'life',
+  'time',
+]
+
+// Which key and door colour, and which gate direction, the brushes paint
+export interface ToolOptions {
+  color: KeyColor
+  direction: GateDirection
+}
+
+export const DEFAULT_TOOL_OPTIONS: ToolOptions = { color: 'red', direction: 'east' }
+
+export const MIN_EDITOR_SIZE = 5
+export const MAX_EDITOR_SIZE = 101
+
+// Editable level. The grid holds walls, paths and the item, door and gate
+// cells; start and goal markers live alongside it so painting over them never
+// leaves a stray 2 or 3 behind.
+export interface EditorDocument {
+  id: string
+  name: string
+  grid: MazeGrid
+  start: GridPoint | null
+  goal: GridPoint | null
+  decorations: Decoration[]
+  enemies: EnemySpawn[]
+  torches: TorchSpawn[]
+  goalRequires: KeyColor[]
+  // Not editable on the grid; carried through so edits don't lose them.
+  // Triggers an edit breaks are dropped, since they can't be fixed here.
+  blackouts: Blackout[]
+  triggers: TriggerSpawn[]
+}
+
+function samePoint(a: GridPoint | null, b: GridPoint): boolean {
+  return a !== null && a.x === b.x && a.z === b.z
+}
+
+function clampSize(size: number): number {
+  return Math.min(MAX_EDITOR_SIZE, Math.max(MIN_EDITOR_SIZE, Math.floor(size)))
+}
+
+export function createBlankDocument(width: number, height: number): EditorDocument {
+  const w = clampSize(width)
+  const h = clampSize(height)
+  const grid = Array.from({ length: h }, (_, z) =>
+    Array.from({ length: w }, (_, x) => (x === 0 || z === 0 || x === w - 1 || z === h - 1 ? CELL.WALL : CELL.PATH)),
+  )
+  return {
+    id: 'custom-level',
+    name: 'Custom Level',
+    grid,
+    start: { x: 1, z: 1 },
+    goal: { x: w - 2, z: h - 2 },
+    decorations: [],
+    enemies: [],
+    torches: [],
+    goalRequires: [],
+    blackouts: [],
+    triggers: [],
+  }
+}
+
+export function createGeneratedDocument(width: number, height: number, seed: Seed): EditorDocument {
+  return fromLevel(loadLevel({
+    version: LEVEL_FORMAT_VERSION,
+    id: 'custom-level',
+    name: 'Custom Level',
+    grid: generateMaze({ width: clampSize(width), height: clampSize(height), seed }),
+  }))
+}
+
+export function fromLevel(level: Level): EditorDocument {
+  return {
+    id: level.id,
+    name: level.name,
+    grid: level.grid.map(row => row.map(cell => (cell === CELL.START || cell === CELL.GOAL ? CELL.PATH : cell))),
+    start: level.start,
+    goal: level.goal,
+    decorations: level.decorations,
+    enemies: level.enemies,
+    torches: level.torches,
+    goalRequires: level.goalRequires,
+    blackouts: level.blackouts,
+    triggers: level.triggers,
+  }
+}
+
+function toolCell(tool: EditorTool, options: ToolOptions): number | null {
+  switch (tool) {
+    case 'key':
+      return keyCell(options.color)
+    case 'door':
+      return doorCell(options.color)
+    case 'gate':
+      return gateCell(options.direction)
+    case 'battery':
+    case 'life':
+    case 'time':
+      return PICKUP_CELLS[tool]
+    default:
+      return null
+  }
+}
+
+// Whether a trigger still passes the loader's checks on this document: its
+// region inside the grid, and its cell effects on cells they can act on
+function triggerFits(doc: EditorDocument, { region, actions }: TriggerSpawn): boolean {
+  const width = region.width ?? 1
+  const height = region.height ?? 1
+  if (!inBounds(doc.grid, region.x, region.z) || !inBounds(doc.grid, region.x + width - 1, region.z + height - 1)) {
+    return false
+  }
+  const markers = [doc.start, doc.goal]
+  const coversGoal = doc.goal !== null &&
+    doc.goal.x >= region.x && doc.goal.x < region.x + width && doc.goal.z >= region.z && doc.goal.z < region.z + height
+  return actions.every(action => {
+    if (!('x' in action)) return true
+    if (!inBounds(doc.grid, action.x, action.z) || doc.grid[action.z][action.x] === CELL.WALL) return false
+    const onMarker = markers.some(marker => samePoint(marker, action))
+    switch (action.type) {
+      case 'close-wall':
+      case 'open-wall':
+        return doc.grid[action.z][action.x] === CELL.PATH && !onMarker
+      case 'fake-goal':
+      case 'shatter':
+        return !onMarker && !coversGoal
+      case 'lunge':
+        return doc.decorations.some(d => d.type === 'skull' && samePoint(d, action))
+    }
+  })
+}
+
+function withFittingTriggers(doc: EditorDocument): EditorDocument {
+  const triggers = doc.triggers.filter(trigger => triggerFits(doc, trigger))
+  return triggers.length === doc.triggers.length ? doc : { ...doc, triggers }
+}
+
+export function applyTool(
+  doc: EditorDocument,
+  tool: EditorTool,
+  point: GridPoint,
+  options: ToolOptions = DEFAULT_TOOL_OPTIONS,
+): EditorDocument {
+  return withFittingTriggers(paint(doc, tool, point, options))
+}
+
+function paint(
+  doc: EditorDocument,
+  tool: EditorTool,
+  point: GridPoint,
+  options: ToolOptions = DEFAULT_TOOL_OPTIONS,
+): EditorDocument {
+  if (!inBounds(doc.grid, point.x, point.z)) {
+    return doc
+  }
+
+  const setCell = (value: number) => {
+    if (doc.grid[point.z][point.x] === value) return doc.grid
+    return doc.grid.map((row, z) => (z === point.z ? row.map((cell, x) => (x === point.x ? value : cell)) : row))
+  }
+  const withoutDecoration = doc.decorations.filter(d => !samePoint(d, point))
+  const withoutEnemy = doc.enemies.filter(e => !samePoint(e, point))
+  const withoutTorch = doc.torches.filter(t => !samePoint(t, point))
+
+  // Item, door and gate cells own their cell outright, and toggle off again
+  const cell = toolCell(tool, options)
+  if (cell !== null) {
+    if (doc.grid[point.z][point.x] === cell) {
+      return { ...doc, grid: setCell(CELL.PATH) }
+    }
+    return {
+      ...doc,
+      grid: setCell(cell),
+      start: samePoint(doc.start, point) ? null : doc.start,
+      goal: samePoint(doc.goal, point) ? null : doc.goal,
+      decorations: withoutDecoration,
+      enemies: withoutEnemy,
+      torches: withoutTorch,
+    }
+  }
+
+  switch (tool) {
+    case 'wall':
+      return {
+        ...doc,
+        grid: setCell(CELL.WALL),
+        start: samePoint(doc.start, point) ? null : doc.start,
+        goal: samePoint(doc.goal, point) ? null : doc.goal,
+        decorations: withoutDecoration,
+        enemies: withoutEnemy,
+        torches: withoutTorch,
+      }
+    case 'path':
+      return { ...doc, grid: setCell(CELL.PATH) }
+    case 'start':
+      return {
+        ...doc,
+        grid: setCell(CELL.PATH),
+        start: point,
+        goal: samePoint(doc.goal, point) ? null : doc.goal,
+      }
+    case 'goal':
+      return {
+        ...doc,
+        grid: setCell(CELL.PATH),
+        goal: point,
+        start: samePoint(doc.start, point) ? null : doc.start,
+      }
+    case 'skull':
+      // Toggles, so the same tool removes a misplaced skull
+      if (withoutDecoration.length !== doc.decorations.length) {
+        return { ...doc, decorations: withoutDecoration }
+      }
+      return {
+        ...doc,
+        grid: setCell(CELL.PATH),
+        decorations: [...doc.decorations, { type: 'skull', x: point.x, z: point.z }],
+      }
+    case 'hunter':
+      if (withoutEnemy.length !== doc.enemies.length) {
+        return { ...doc, enemies: withoutEnemy }
+      }
+      return {
+        ...doc,
+        grid: setCell(CELL.PATH),
+        enemies: [...doc.enemies, { type: 'hunter', x: point.x, z: point.z }],
+      }
+    case 'torch':
+      if (withoutTorch.length !== doc.torches.length) {
+        return { ...doc, torches: withoutTorch }
+      }
+      return { ...doc, grid: setCell(CELL.PATH), torches: [...doc.torches, { x: point.x, z: point.z }] }
+    default:
+      return doc
+  }
+}
+
+// Keeps the overlapping region; new cells are walls so the maze stays sealed
+export function resizeDocument(doc: EditorDocument, width: number, height: number): EditorDocument {
+  const w = clampSize(width)
+  const h = clampSize(height)
+  const grid = Array.from({ length: h }, (_, z) =>
+    Array.from({ length: w }, (_, x) => doc.grid[z]?.[x] ?? CELL.WALL),
+  )
+  const keep = (point: GridPoint | null) => (point && inBounds(grid, point.x, point.z) ? point : null)
+  return withFittingTriggers({
+    ...doc,
+    grid,
+    start: keep(doc.start),
+    goal: keep(doc.goal),
+    decorations: doc.decorations.filter(d => inBounds(grid, d.x, d.z)),
+    // Patrol routes may now point outside the grid; drop them rather than the hunter
+    enemies: doc.enemies
+      .filter(e => inBounds(grid, e.x, e.z))
+      .map(e => ({ ...e, patrol: e.patrol?.filter(p => inBounds(grid, p.x, p.z)) })),
+    torches: doc.torches.filter(t => inBounds(grid, t.x, t.z)),
+  })
+}
+
+export function toLevelFile(doc: EditorDocument): LevelFile {
+  return {
+    version: LEVEL_FORMAT_VERSION,
+    id: doc.id,
+    name: doc.name,
+    grid: doc.grid.map(row => [...row]),
+    ...(doc.start ? { start: doc.start } : {}),
+    ...(doc.goal ? { goal: doc.goal } : {}),
+    decorations: doc.decorations,
+    enemies: doc.enemies,
+    torches: doc.torches,
+    blackouts: doc.blackouts,
+    triggers: doc.triggers,
+    ...(doc.goalRequires.length > 0 ? { goalRequires: doc.goalRequires } : {}),
+  }
+}
+
+export type ValidationResult =
+  | { ok: true; level: Level; issues: [] }
+  | { ok: false; level: null; issues: string[] }
+
+export function validateDocument(doc: EditorDocument): ValidationResult {
+  try {
+    return { ok: true, level: loadLevel(toLevelFile(doc)), issues: [] }
+  } catch (error) {
+    if (error instanceof LevelValidationError) {
+      return { ok: false, level: null, issues: error.issues }
+    }
+    throw error
+  }
+}
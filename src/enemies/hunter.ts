@@ -0,0 +1,151 @@
+import { GridPoint, MazeGrid, isWalkable } from '../maze/grid'
+import { createRandom, randomInt } from '../maze/random'
+import { findPath } from '../maze/solve'
+import { hasLineOfSight } from '../maze/sight'
+import { CELL_SIZE, cellCenter, worldToCell } from '../game/constants'
+import { Hunter } from '../levels/format'
+
+export type HunterMode = 'patrol' | 'chase' | 'search'
+
+export interface HunterState {
+  // World-space position on the floor plane
+  x: number
+  z: number
+  mode: HunterMode
+  // Remaining cells to walk through, nearest first
+  path: GridPoint[]
+  patrolIndex: number
+  lastSeen: GridPoint | null
+  repathIn: number
+}
+
+export interface HunterUpdate {
+  state: HunterState
+  caught: boolean
+}
+
+// How often a chasing hunter re-plans towards the player, in seconds
+const REPATH_INTERVAL = 0.3
+const ARRIVE_EPSILON = 0.05
+// Wander targets are picked this many tries deep before giving up
+const WANDER_ATTEMPTS = 8
+
+export function createHunterState(hunter: Hunter): HunterState {
+  return {
+    x: cellCenter(hunter.x),
+    z: cellCenter(hunter.z),
+    mode: 'patrol',
+    path: [],
+    patrolIndex: 0,
+    lastSeen: null,
+    repathIn: 0,
+  }
+}
+
+function currentCell(state: HunterState): GridPoint {
+  return { x: worldToCell(state.x), z: worldToCell(state.z) }
+}
+
+function planPath(grid: MazeGrid, from: GridPoint, to: GridPoint): GridPoint[] {
+  // Drop the cell we're standing in so the hunter heads straight for the next one
+  return findPath(grid, from, to)?.slice(1) ?? []
+}
+
+// Patrol routes come from level data; hunters without one wander between
+// random cells. Targets are derived from spawn + index so runs are repeatable.
+function nextPatrolTarget(grid: MazeGrid, hunter: Hunter, index: number): GridPoint {
+  if (hunter.patrol.length > 0) {
+    return hunter.patrol[index % hunter.patrol.length]
+  }
+  const random = createRandom(`${hunter.x},${hunter.z},${index}`)
+  for (let i = 0; i < WANDER_ATTEMPTS; i++) {
+    const target = { x: randomInt(random, grid[0].length), z: randomInt(random, grid.length) }
+    if (isWalkable(grid, target.x, target.z)) {
+      return target
+    }
+  }
+  return { x: hunter.x, z: hunter.z }
+}
+
+function moveAlongPath(state: HunterState, speed: number, delta: number): HunterState {
+  let { x, z } = state
+  const path = [...state.path]
+  let budget = speed * delta
+
+  while (budget > 0 && path.length > 0) {
+    const targetX = cellCenter(path[0].x)
+    const targetZ = cellCenter(path[0].z)
+    const dx = targetX - x
+    const dz = targetZ - z
+    const distance = Math.sqrt(dx * dx + dz * dz)
+    if (distance <= budget || distance < ARRIVE_EPSILON) {
+      x = targetX
+      z = targetZ
+      budget -= distance
+      path.shift()
+    } else {
+      x += (dx / distance) * budget
+      z += (dz / distance) * budget
+      budget = 0
+    }
+  }
+
+  return { ...state, x, z, path }
+}
+
+export function updateHunter(
+  state: HunterState,
+  hunter: Hunter,
+  grid: MazeGrid,
+  player: { x: number; z: number },
+  delta: number,
+): HunterUpdate {
+  const here = currentCell(state)
+  const playerCell = { x: worldToCell(player.x), z: worldToCell(player.z) }
+  const sees = hasLineOfSight(
+    grid,
+    { x: state.x / CELL_SIZE, z: state.z / CELL_SIZE },
+    { x: player.x / CELL_SIZE, z: player.z / CELL_SIZE },
+    hunter.sightRange,
+  )
+
+  let next: HunterState = { ...state, repathIn: state.repathIn - delta }
+
+  if (sees) {
+    if (next.mode !== 'chase' || next.repathIn <= 0 || next.path.length === 0) {
+      next = { ...next, mode: 'chase', path: planPath(grid, here, playerCell), repathIn: REPATH_INTERVAL }
+    }
+    next.lastSeen = playerCell
+  } else if (next.mode === 'chase') {
+    // Lost sight: head for where the player was last spotted
+    next = { ...next, mode: 'search', path: next.lastSeen ? planPath(grid, here, next.lastSeen) : [] }
+  }
+
+  if (next.path.length === 0 && next.mode !== 'chase') {
+    const target = nextPatrolTarget(grid, hunter, next.patrolIndex)
+    next = {
+      ...next,
+      mode: 'patrol',
+      patrolIndex: next.patrolIndex + 1,
+      lastSeen: null,
+      path: planPath(grid, here, target),
+    }
+  }
+
+  next = moveAlongPath(next, next.mode === 'patrol' ? hunter.speed : hunter.chaseSpeed, delta)
+
+  // Closing the final gap once the path has run out inside the player's cell
+  if (next.mode === 'chase' && next.path.length === 0 && sees) {
+    const dx = player.x - next.x
+    const dz = player.z - next.z
+    const distance = Math.sqrt(dx * dx + dz * dz)
+    const step = Math.min(distance, hunter.chaseSpeed * delta)
+    if (distance > 0) {
+      next = { ...next, x: next.x + (dx / distance) * step, z: next.z + (dz / distance) * step }
+    }
+  }
+
+  const dx = player.x - next.x
+  const dz = player.z - next.z
+  return { state: next, caught: Math.sqrt(dx * dx + dz * dz) < hunter.catchRadius }
+}
@@ -0,0 +1,59 @@
+import { MazeGrid } from '../maze/grid'
+import { PlayerInput } from './simulation'
+import { CELL_SIZE } from './constants'
+import { checkWallCollision } from './collision'
+
+export type CameraMode = 'top-down' | 'chase' | 'first-person'
+
+export const CAMERA_MODES: readonly { id: CameraMode; label: string }[] = [
+  { id: 'top-down', label: 'Top-down' },
+  { id: 'chase', label: 'Chase' },
+  { id: 'first-person', label: 'First person' },
+]
+
+export const DEFAULT_CAMERA_MODE: CameraMode = 'top-down'
+
+export const EYE_HEIGHT = 1.2
+export const CHASE_DISTANCE = 4
+export const CHASE_HEIGHT = 2.5
+export const MAX_PITCH = Math.PI * 0.42
+
+export function nextCameraMode(mode: CameraMode): CameraMode {
+  const index = CAMERA_MODES.findIndex(m => m.id === mode)
+  return CAMERA_MODES[(index + 1) % CAMERA_MODES.length].id
+}
+
+// Whether WASD is relative to where the camera faces rather than the map
+export function usesViewRelativeInput(mode: CameraMode): boolean {
+  return mode !== 'top-down'
+}
+
+// Rotates a view-space input (z = -1 is "forward") into world space for a
+// camera yawed by `yaw` radians. The simulation only ever sees world input,
+// so replays stay valid whatever camera was used.
+export function viewToWorldInput({ x, z }: PlayerInput, yaw: number): PlayerInput {
+  const cos = Math.cos(yaw)
+  const sin = Math.sin(yaw)
+  return {
+    x: x * cos + z * sin,
+    z: -x * sin + z * cos,
+  }
+}
+
+// Yaw that looks from one cell towards a neighbouring one
+export function yawTowards(dx: number, dz: number): number {
+  return Math.atan2(-dx, -dz)
+}
+
+// Pulls the chase camera in when a wall sits between it and the player
+export function chaseDistance(grid: MazeGrid, x: number, z: number, yaw: number): number {
+  const backX = Math.sin(yaw)
+  const backZ = Math.cos(yaw)
+  const step = CELL_SIZE / 8
+  for (let d = step; d <= CHASE_DISTANCE; d += step) {
+    if (checkWallCollision(grid, x + backX * d, z + backZ * d, 0.2)) {
+      return Math.max(0.5, d - step)
+    }
+  }
+  return CHASE_DISTANCE
+}
@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest'
+import { CELL, MazeGrid } from '../maze/grid'
+import { checkWallCollision, findWallContacts, resolveWallCollision } from './collision'
+import { CELL_SIZE, PLAYER_RADIUS } from './constants'
+
+const O = CELL.PATH
+const W = CELL.WALL
+
+// Open 3x3 room with a single wall block in the middle
+const ROOM: MazeGrid = [
+  [O, O, O],
+  [O, W, O],
+  [O, O, O],
+]
+
+describe('checkWallCollision', () => {
+  it('is clear in the middle of an open cell', () => {
+    expect(checkWallCollision(ROOM, 1, 1)).toBe(false)
+  })
+
+  it('treats everything outside the grid as wall', () => {
+    expect(checkWallCollision(ROOM, PLAYER_RADIUS - 0.01, 1)).toBe(true)
+    expect(checkWallCollision(ROOM, 1, PLAYER_RADIUS - 0.01)).toBe(true)
+    expect(checkWallCollision(ROOM, 3 * CELL_SIZE - PLAYER_RADIUS + 0.01, 1)).toBe(true)
+    expect(checkWallCollision(ROOM, 1, 3 * CELL_SIZE - PLAYER_RADIUS + 0.01)).toBe(true)
+  })
+
+  it('stops a player standing outside the grid entirely', () => {
+    expect(checkWallCollision(ROOM, -5, -5)).toBe(true)
+  })
+
+  it('does not count exactly touching as a hit', () => {
+    expect(checkWallCollision(ROOM, PLAYER_RADIUS, 1)).toBe(false)
+    expect(checkWallCollision(ROOM, CELL_SIZE - PLAYER_RADIUS, 1)).toBe(false)
+  })
+
+  it('measures corners by distance, not by bounding box', () => {
+    // Diagonally off the wall's top-left corner: the circle's box overlaps
+    // the wall cell but the circle itself misses it
+    const clear = CELL_SIZE - PLAYER_RADIUS * 0.75
+    expect(checkWallCollision(ROOM, clear, clear)).toBe(false)
+    const grazing = CELL_SIZE - PLAYER_RADIUS * 0.6
+    expect(checkWallCollision(ROOM, grazing, grazing)).toBe(true)
+  })
+
+  it('finds the grid corner solid from both outside edges', () => {
+    const contacts = findWallContacts(ROOM, 0.1, 0.1)
+    expect(contacts.some(contact => contact.normalX === 1 && contact.normalZ === 0)).toBe(true)
+    expect(contacts.some(contact => contact.normalX === 0 && contact.normalZ === 1)).toBe(true)
+  })
+})
+
+describe('resolveWallCollision', () => {
+  it('pushes out diagonally from an outside corner', () => {
+    const inset = CELL_SIZE - PLAYER_RADIUS * 0.5
+    const { x, z, contacts } = resolveWallCollision(ROOM, inset, inset)
+    expect(contacts).toHaveLength(1)
+    expect(contacts[0].normalX).toBeCloseTo(-Math.SQRT1_2)
+    expect(contacts[0].normalZ).toBeCloseTo(-Math.SQRT1_2)
+    expect(checkWallCollision(ROOM, x, z)).toBe(false)
+  })
+
+  it('settles into the inside corner of the grid bounds', () => {
+    const { x, z } = resolveWallCollision(ROOM, 0.05, 0.05)
+    expect(x).toBeCloseTo(PLAYER_RADIUS)
+    expect(z).toBeCloseTo(PLAYER_RADIUS)
+    expect(checkWallCollision(ROOM, x + 0.001, z + 0.001)).toBe(false)
+  })
+
+  it('leaves a player who is clear where they are', () => {
+    expect(resolveWallCollision(ROOM, 1, 1)).toEqual({ x: 1, z: 1, contacts: [] })
+  })
+})
@@ -0,0 +1,142 @@
+import { CELL, MazeGrid } from '../maze/grid'
+import { CELL_SIZE, PLAYER_RADIUS } from './constants'
+
+export interface Contact {
+  // Unit vector pointing out of the wall, towards the player
+  normalX: number
+  normalZ: number
+  depth: number
+}
+
+export interface CollisionResult {
+  x: number
+  z: number
+  contacts: Contact[]
+}
+
+// Whether a cell stops the player. Doors and gates depend on the run, so the
+// simulation can pass its own; walls and the outside are always solid.
+export type SolidTest = (cellX: number, cellZ: number) => boolean
+
+// Outside the grid counts as solid so the player can never leave the maze
+function isSolid(grid: MazeGrid, cellX: number, cellZ: number): boolean {
+  return grid[cellZ]?.[cellX] === undefined || grid[cellZ][cellX] === CELL.WALL
+}
+
+export function circleTouchesCell(x: number, z: number, radius: number, cellX: number, cellZ: number): boolean {
+  const closestX = Math.max(cellX * CELL_SIZE, Math.min(x, (cellX + 1) * CELL_SIZE))
+  const closestZ = Math.max(cellZ * CELL_SIZE, Math.min(z, (cellZ + 1) * CELL_SIZE))
+  return (x - closestX) ** 2 + (z - closestZ) ** 2 < radius * radius
+}
+
+// Circle-vs-AABB against every solid cell the circle's bounds touch
+export function findWallContacts(
+  grid: MazeGrid,
+  x: number,
+  z: number,
+  radius = PLAYER_RADIUS,
+  solid: SolidTest = (cx, cz) => isSolid(grid, cx, cz),
+): Contact[] {
+  const contacts: Contact[] = []
+  const minX = Math.floor((x - radius) / CELL_SIZE)
+  const maxX = Math.floor((x + radius) / CELL_SIZE)
+  const minZ = Math.floor((z - radius) / CELL_SIZE)
+  const maxZ = Math.floor((z + radius) / CELL_SIZE)
+
+  for (let cz = minZ; cz <= maxZ; cz++) {
+    for (let cx = minX; cx <= maxX; cx++) {
+      if (!solid(cx, cz)) continue
+
+      const left = cx * CELL_SIZE
+      const top = cz * CELL_SIZE
+      const closestX = Math.max(left, Math.min(x, left + CELL_SIZE))
+      const closestZ = Math.max(top, Math.min(z, top + CELL_SIZE))
+      const dx = x - closestX
+      const dz = z - closestZ
+      const distanceSq = dx * dx + dz * dz
+      if (distanceSq >= radius * radius) continue
+
+      if (distanceSq > 0) {
+        const distance = Math.sqrt(distanceSq)
+        contacts.push({ normalX: dx / distance, normalZ: dz / distance, depth: radius - distance })
+        continue
+      }
+
+      // Centre is inside the box: push out through the nearest face
+      const exits = [
+        { normalX: -1, normalZ: 0, depth: x - left + radius },
+        { normalX: 1, normalZ: 0, depth: left + CELL_SIZE - x + radius },
+        { normalX: 0, normalZ: -1, depth: z - top + radius },
+        { normalX: 0, normalZ: 1, depth: top + CELL_SIZE - z + radius },
+      ]
+      contacts.push(exits.reduce((best, exit) => (exit.depth < best.depth ? exit : best)))
+    }
+  }
+
+  return contacts
+}
+
+export function checkWallCollision(grid: MazeGrid, x: number, z: number, radius = PLAYER_RADIUS, solid?: SolidTest): boolean {
+  return findWallContacts(grid, x, z, radius, solid).length > 0
+}
+
+// A few relaxation passes settle inside corners where two walls push at once
+const RESOLVE_ITERATIONS = 4
+
+export function resolveWallCollision(
+  grid: MazeGrid,
+  x: number,
+  z: number,
+  radius = PLAYER_RADIUS,
+  solid?: SolidTest,
+): CollisionResult {
+  const touched: Contact[] = []
+  for (let i = 0; i < RESOLVE_ITERATIONS; i++) {
+    const contacts = findWallContacts(grid, x, z, radius, solid)
+    if (contacts.length === 0) break
+    // Resolve the deepest contact first; the rest are re-tested next pass
+    const deepest = contacts.reduce((best, contact) => (contact.depth > best.depth ? contact : best))
+    x += deepest.normalX * deepest.depth
+    z += deepest.normalZ * deepest.depth
+    touched.push(...contacts)
+  }
+  return { x, z, contacts: touched }
+}
+
+// Removes the part of the velocity heading into each wall, leaving the slide
+export function slideVelocity(vx: number, vz: number, contacts: Contact[]): { vx: number; vz: number } {
+  for (const { normalX, normalZ } of contacts) {
+    const into = vx * normalX + vz * normalZ
+    if (into < 0) {
+      vx -= into * normalX
+      vz -= into * normalZ
+    }
+  }
+  return { vx, vz }
+}
+
+// Distance from a point to the closest wall surface, capped at `maxDistance`
+export function distanceToNearestWall(
+  grid: MazeGrid,
+  x: number,
+  z: number,
+  maxDistance: number,
+  solid: SolidTest = (cx, cz) => isSolid(grid, cx, cz),
+): number {
+  let nearest = maxDistance
+  const minX = Math.floor((x - maxDistance) / CELL_SIZE)
+  const maxX = Math.floor((x + maxDistance) / CELL_SIZE)
+  const minZ = Math.floor((z - maxDistance) / CELL_SIZE)
+  const maxZ = Math.floor((z + maxDistance) / CELL_SIZE)
+
+  for (let cz = minZ; cz <= maxZ; cz++) {
+    for (let cx = minX; cx <= maxX; cx++) {
+      if (!solid(cx, cz)) continue
+      const closestX = Math.max(cx * CELL_SIZE, Math.min(x, (cx + 1) * CELL_SIZE))
+      const closestZ = Math.max(cz * CELL_SIZE, Math.min(z, (cz + 1) * CELL_SIZE))
+      nearest = Math.min(nearest, Math.sqrt((x - closestX) ** 2 + (z - closestZ) ** 2))
+    }
+  }
+
+  return nearest
+}
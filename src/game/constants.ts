@@ -0,0 +1,11 @@
+export const CELL_SIZE = 2
+export const WALL_HEIGHT = 3
+export const PLAYER_RADIUS = 0.3
+
+export function cellCenter(cell: number): number {
+  return (cell + 0.5) * CELL_SIZE
+}
+
+export function worldToCell(world: number): number {
+  return Math.floor(world / CELL_SIZE)
+}
@@ -0,0 +1,20 @@
+export type DifficultyMode = 'classic' | 'sanity' | 'practice'
+
+export interface DifficultyInfo {
+  id: DifficultyMode
+  label: string
+  description: string
+}
+
+export const DIFFICULTY_MODES: readonly DifficultyInfo[] = [
+  { id: 'classic', label: 'Classic', description: 'Touch a wall and face your doom.' },
+  { id: 'sanity', label: 'Sanity', description: 'Walls drain your sanity. Lose it all and it finds you.' },
+  { id: 'practice', label: 'Practice', description: 'Slide along walls freely. Nothing can kill you.' },
+]
+
+export const DEFAULT_DIFFICULTY: DifficultyMode = 'classic'
+
+export const MAX_SANITY = 100
+export const WALL_HIT_DAMAGE = 25
+// Grace period after a hit so grinding along a wall doesn't drain instantly
+export const HIT_COOLDOWN_TICKS = 45
@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest'
+import { CELL, doorCell } from '../maze/grid'
+import { CELL_SIZE } from './constants'
+import { EMPTY_INVENTORY } from './items'
+import { measureDread } from './dread'
+
+const W = CELL.WALL
+const P = CELL.PATH
+const GRID = [
+  [W, W, W, W, W, W, W],
+  [W, P, P, doorCell('red'), P, P, W],
+  [W, W, W, W, W, W, W],
+]
+
+// Mid-corridor, half a metre short of the door cell
+const near = { x: 3 * CELL_SIZE - 0.5, z: 1.5 * CELL_SIZE, hunters: [], inventory: EMPTY_INVENTORY, closed: [] }
+
+describe('measureDread', () => {
+  it('counts a locked door as a wall', () => {
+    expect(measureDread(GRID, near).wall).toBeGreaterThan(0)
+  })
+
+  it('ignores a door the player holds the key to', () => {
+    expect(measureDread(GRID, { ...near, inventory: { ...EMPTY_INVENTORY, keys: ['red'] } }).wall).toBe(0)
+  })
+
+  it('counts a shut sliding wall', () => {
+    const open = { ...near, inventory: { ...EMPTY_INVENTORY, keys: ['red' as const] } }
+    expect(measureDread(GRID, { ...open, closed: [1 * GRID[0].length + 3] }).wall).toBeGreaterThan(0)
+  })
+})
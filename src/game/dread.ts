@@ -0,0 +1,38 @@
+import { MazeGrid } from '../maze/grid'
+import { distanceToNearestWall } from './collision'
+import { PLAYER_RADIUS } from './constants'
+import { createSolidTest } from './items'
+import { SimState } from './simulation'
+
+// Beyond these distances walls and hunters stop adding to the dread
+export const WALL_DREAD_DISTANCE = 1
+export const HUNTER_DREAD_DISTANCE = 10
+
+export interface Dread {
+  // Space between the player's edge and the nearest wall
+  wallGap: number
+  // Each 0..1, rising as walls and hunters close in
+  wall: number
+  hunter: number
+}
+
+export const NO_DREAD: Dread = { wallGap: WALL_DREAD_DISTANCE - PLAYER_RADIUS, wall: 0, hunter: 0 }
+
+// Walls are whatever the simulation would stop the player on right now,
+// locked doors and shut sliding walls included
+export function measureDread(
+  grid: MazeGrid,
+  { x, z, hunters, inventory, closed }: Pick<SimState, 'x' | 'z' | 'hunters' | 'inventory' | 'closed'>,
+): Dread {
+  const solid = createSolidTest(grid, inventory.keys, closed, x, z)
+  const wallGap = Math.max(0, distanceToNearestWall(grid, x, z, WALL_DREAD_DISTANCE, solid) - PLAYER_RADIUS)
+  const hunterDistance = hunters.reduce(
+    (nearest, hunter) => Math.min(nearest, Math.hypot(hunter.x - x, hunter.z - z)),
+    HUNTER_DREAD_DISTANCE,
+  )
+  return {
+    wallGap,
+    wall: 1 - wallGap / (WALL_DREAD_DISTANCE - PLAYER_RADIUS),
+    hunter: 1 - hunterDistance / HUNTER_DREAD_DISTANCE,
+  }
+}
@@ -0,0 +1,16 @@
+// A full battery lasts this long; pickups buy back a share of it
+export const BATTERY_LIFE_SECONDS = 90
+export const BATTERY_PICKUP_CHARGE = 0.5
+// World-unit distance from a pickup's cell centre at which it is collected
+export const PICKUP_RADIUS = 0.7
+// Below this the beam gutters and the HUD warns
+export const LOW_BATTERY = 0.2
+// An empty torch still leaves a faint glow so the player is never fully blind
+const EMPTY_BEAM = 0.08
+
+// Beam brightness for a charge level, 0..1. Stays near full for most of the
+// charge and falls away over the last stretch, like a real cell.
+export function beamStrength(battery: number): number {
+  const charge = Math.min(1, Math.max(0, battery))
+  return EMPTY_BEAM + (1 - EMPTY_BEAM) * Math.min(1, charge / (LOW_BATTERY * 2))
+}
@@ -0,0 +1,92 @@
+import { CELL, KeyColor, MazeGrid, doorColor, gateDirection, keyColor, pickupType } from '../maze/grid'
+import { SolidTest, circleTouchesCell } from './collision'
+import { PLAYER_RADIUS, cellCenter, worldToCell } from './constants'
+import { BATTERY_PICKUP_CHARGE, PICKUP_RADIUS } from './flashlight'
+
+// Knocked off the attempt's clock by a time bonus pickup
+export const TIME_BONUS_SECONDS = 10
+// An extra life turns a death into this much invulnerability instead
+export const GRACE_SECONDS = 1.5
+
+export const KEY_COLOR_HEX: Record<KeyColor, string> = {
+  red: '#ff3030',
+  blue: '#3a7bff',
+  yellow: '#ffd21f',
+}
+
+export interface Inventory {
+  keys: readonly KeyColor[]
+  // Spare lives; each absorbs one death
+  lives: number
+  // Flashlight charge, 0..1
+  battery: number
+  // Seconds taken off the clock so far
+  timeBonus: number
+  // Grid indices (z * width + x) of cells whose item has been picked up
+  collected: readonly number[]
+}
+
+export const EMPTY_INVENTORY: Inventory = { keys: [], lives: 0, battery: 1, timeBonus: 0, collected: [] }
+
+export function hasKeys(held: readonly KeyColor[], required: readonly KeyColor[]): boolean {
+  return required.every(color => held.includes(color))
+}
+
+// Doors are solid until the player holds their key. A gate is solid unless
+// the player stands in the cell behind it or is already partly inside it, so
+// it can only be entered from behind. Anyone still touching the gate cell
+// can turn back; once they have left it on the far side, it shuts behind
+// them. `closed` lists the grid indices of sliding walls that are currently
+// shut.
+export function createSolidTest(
+  grid: MazeGrid,
+  keys: readonly KeyColor[],
+  closed: readonly number[],
+  x: number,
+  z: number,
+): SolidTest {
+  const cellX = worldToCell(x)
+  const cellZ = worldToCell(z)
+  return (cx, cz) => {
+    const value = grid[cz]?.[cx]
+    if (value === undefined || value === CELL.WALL) return true
+    if (closed.length > 0 && closed.includes(cz * grid[0].length + cx)) return true
+    const door = doorColor(value)
+    if (door) return !keys.includes(door)
+    const gate = gateDirection(value)
+    if (gate) {
+      const behind = cellX === cx - gate.x && cellZ === cz - gate.z
+      return !behind && !circleTouchesCell(x, z, PLAYER_RADIUS, cx, cz)
+    }
+    return false
+  }
+}
+
+// Picks up whatever lies in the player's cell once they reach its middle
+export function collectItem(inventory: Inventory, grid: MazeGrid, x: number, z: number): Inventory {
+  const cellX = worldToCell(x)
+  const cellZ = worldToCell(z)
+  const value = grid[cellZ]?.[cellX]
+  if (value === undefined || (x - cellCenter(cellX)) ** 2 + (z - cellCenter(cellZ)) ** 2 > PICKUP_RADIUS ** 2) {
+    return inventory
+  }
+  const index = cellZ * grid[0].length + cellX
+  const key = keyColor(value)
+  const pickup = pickupType(value)
+  if ((!key && !pickup) || inventory.collected.includes(index)) {
+    return inventory
+  }
+
+  const collected = [...inventory.collected, index]
+  if (key) {
+    return { ...inventory, collected, keys: inventory.keys.includes(key) ? inventory.keys : [...inventory.keys, key] }
+  }
+  switch (pickup) {
+    case 'battery':
+      return { ...inventory, collected, battery: Math.min(1, inventory.battery + BATTERY_PICKUP_CHARGE) }
+    case 'life':
+      return { ...inventory, collected, lives: inventory.lives + 1 }
+    default:
+      return { ...inventory, collected, timeBonus: inventory.timeBonus + TIME_BONUS_SECONDS }
+  }
+}
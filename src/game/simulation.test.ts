@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest'
+import { loadLevel } from '../levels/load'
+import { CELL_SIZE, PLAYER_RADIUS } from './constants'
+import { DifficultyMode } from './difficulty'
+import { PlayerInput, SimState, checkGoal, createSimState, createWorld, step } from './simulation'
+
+const CORRIDOR = loadLevel({
+  version: 1,
+  id: 'corridor',
+  name: 'Corridor',
+  grid: [
+    [1, 1, 1, 1, 1],
+    [1, 2, 0, 3, 1],
+    [1, 1, 1, 1, 1],
+  ],
+})
+
+function runUntilDone(state: SimState, input: PlayerInput, mode: DifficultyMode = 'classic', maxTicks = 600): SimState {
+  const world = createWorld(CORRIDOR, mode)
+  for (let i = 0; i < maxTicks && state.status === 'running'; i++) {
+    state = step(state, input, world)
+  }
+  return state
+}
+
+describe('checkGoal', () => {
+  const goal = { x: 3, z: 1 }
+
+  it('counts the whole goal cell, edges included', () => {
+    expect(checkGoal(goal, 3 * CELL_SIZE, 1 * CELL_SIZE)).toBe(true)
+    expect(checkGoal(goal, 3.5 * CELL_SIZE, 1.5 * CELL_SIZE)).toBe(true)
+    expect(checkGoal(goal, 4 * CELL_SIZE - 0.001, 2 * CELL_SIZE - 0.001)).toBe(true)
+  })
+
+  it('stops at the far edges, which belong to the next cells', () => {
+    expect(checkGoal(goal, 4 * CELL_SIZE, 1.5 * CELL_SIZE)).toBe(false)
+    expect(checkGoal(goal, 3.5 * CELL_SIZE, 2 * CELL_SIZE)).toBe(false)
+    expect(checkGoal(goal, 3 * CELL_SIZE - 0.001, 1.5 * CELL_SIZE)).toBe(false)
+  })
+})
+
+describe('step', () => {
+  it('escapes when the player walks into the goal', () => {
+    const end = runUntilDone(createSimState(CORRIDOR), { x: 1, z: 0 })
+    expect(end.status).toBe('won')
+  })
+
+  it('ends a classic attempt on a wall hit', () => {
+    const end = runUntilDone(createSimState(CORRIDOR), { x: 0, z: 1 })
+    expect(end.status).toBe('hit-wall')
+  })
+
+  it('holds a practice player against the wall instead', () => {
+    const end = runUntilDone(createSimState(CORRIDOR), { x: 0, z: 1 }, 'practice', 120)
+    expect(end.status).toBe('running')
+    expect(end.z).toBeCloseTo(2 * CELL_SIZE - PLAYER_RADIUS)
+  })
+
+  it('stands still without input', () => {
+    const start = createSimState(CORRIDOR)
+    const end = runUntilDone(start, { x: 0, z: 0 }, 'classic', 60)
+    expect(end.status).toBe('running')
+    expect(end.x).toBe(start.x)
+    expect(end.z).toBe(start.z)
+  })
+
+  it('remembers only the latest firing of a repeatable trigger', () => {
+    const level = loadLevel({
+      version: 1,
+      id: 'pacing',
+      name: 'Pacing',
+      grid: [
+        [1, 1, 1, 1, 1, 1, 1],
+        [1, 2, 0, 0, 0, 0, 1],
+        [1, 1, 1, 1, 1, 0, 1],
+        [1, 1, 1, 1, 1, 3, 1],
+        [1, 1, 1, 1, 1, 1, 1],
+      ],
+      triggers: [{ region: { x: 3, z: 1 }, once: false, actions: [{ type: 'scare' }] }],
+    })
+    const world = createWorld(level, 'practice')
+    let state = createSimState(level)
+    let firstFiring = -1
+    for (let lap = 0; lap < 3; lap++) {
+      for (const x of [1, -1]) {
+        for (let i = 0; i < 90; i++) state = step(state, { x, z: 0 }, world)
+      }
+      if (lap === 0) firstFiring = state.fired[0].tick
+    }
+    expect(state.fired).toHaveLength(1)
+    expect(state.fired[0].tick).toBeGreaterThan(firstFiring)
+  })
+})
@@ -0,0 +1,274 @@
+import { GridPoint, KeyColor, MazeGrid } from '../maze/grid'
+import { Hunter, Level, Trigger, TriggerAction } from '../levels/format'
+import { HunterState, createHunterState, updateHunter } from '../enemies/hunter'
+import { CELL_SIZE, PLAYER_RADIUS, cellCenter, worldToCell } from './constants'
+import { circleTouchesCell, resolveWallCollision, slideVelocity } from './collision'
+import { BATTERY_LIFE_SECONDS } from './flashlight'
+import { EMPTY_INVENTORY, GRACE_SECONDS, Inventory, collectItem, createSolidTest, hasKeys } from './items'
+import { DEFAULT_DIFFICULTY, DifficultyMode, HIT_COOLDOWN_TICKS, MAX_SANITY, WALL_HIT_DAMAGE } from './difficulty'
+
+// Everything gameplay-relevant advances in fixed ticks so outcomes don't
+// depend on the display's refresh rate or on frame hitches.
+export const TICK_RATE = 60
+export const TICK_SECONDS = 1 / TICK_RATE
+// Frames longer than this (tab switches, GC pauses) are not caught up in full
+export const MAX_FRAME_SECONDS = 0.25
+
+export const ACCELERATION = 30
+export const FRICTION = 10
+
+const GRACE_TICKS = Math.round(GRACE_SECONDS * TICK_RATE)
+
+export type SimStatus = 'running' | 'hit-wall' | 'caught' | 'won'
+
+// Desired movement direction on the floor plane; longer vectors are normalised
+export interface PlayerInput {
+  x: number
+  z: number
+}
+
+export const NO_INPUT: PlayerInput = { x: 0, z: 0 }
+
+export interface SimWorld {
+  grid: MazeGrid
+  goal: GridPoint
+  speed: number
+  hunters: Hunter[]
+  goalRequires: KeyColor[]
+  triggers: Trigger[]
+  mode: DifficultyMode
+}
+
+export interface FiredTrigger {
+  // Index into the world's triggers
+  trigger: number
+  tick: number
+}
+
+export interface SimState {
+  tick: number
+  status: SimStatus
+  x: number
+  z: number
+  vx: number
+  vz: number
+  // World units travelled this attempt
+  distance: number
+  // Only drained in sanity mode; reaching zero ends the attempt
+  sanity: number
+  // Ticks of grace left after the last wall hit
+  hitCooldown: number
+  wallHits: number
+  hunters: HunterState[]
+  // The battery drains every tick outside practice
+  inventory: Inventory
+  // Ticks of invulnerability left after an extra life was spent
+  graceTicks: number
+  // The latest firing of each trigger that has fired, oldest first; effects
+  // are timed from these, so firing again restarts a trigger's actions
+  fired: readonly FiredTrigger[]
+  // Grid indices of sliding walls that are shut, and of those waiting for
+  // the player to step clear before they close
+  closed: readonly number[]
+  closing: readonly number[]
+}
+
+export function createWorld(level: Level, mode: DifficultyMode = DEFAULT_DIFFICULTY): SimWorld {
+  return {
+    grid: level.grid,
+    goal: level.goal,
+    speed: level.tuning.speed,
+    hunters: level.enemies,
+    goalRequires: level.goalRequires,
+    triggers: level.triggers,
+    mode,
+  }
+}
+
+export function createSimState(level: Level): SimState {
+  return {
+    tick: 0,
+    status: 'running',
+    x: cellCenter(level.start.x),
+    z: cellCenter(level.start.z),
+    vx: 0,
+    vz: 0,
+    distance: 0,
+    sanity: MAX_SANITY,
+    hitCooldown: 0,
+    wallHits: 0,
+    hunters: level.enemies.map(createHunterState),
+    inventory: EMPTY_INVENTORY,
+    graceTicks: 0,
+    fired: [],
+    closed: [],
+    closing: [],
+  }
+}
+
+export function checkGoal(goal: GridPoint, x: number, z: number): boolean {
+  return Math.floor(x / CELL_SIZE) === goal.x && Math.floor(z / CELL_SIZE) === goal.z
+}
+
+// Tick on which a fired trigger's action takes effect
+export function actionTick(fired: FiredTrigger, action: TriggerAction): number {
+  return fired.tick + Math.round(action.at * TICK_RATE)
+}
+
+function inRegion({ region }: Trigger, x: number, z: number): boolean {
+  const cellX = worldToCell(x)
+  const cellZ = worldToCell(z)
+  return cellX >= region.x && cellX < region.x + region.width && cellZ >= region.z && cellZ < region.z + region.height
+}
+
+type TriggerUpdate = Pick<SimState, 'fired' | 'closed' | 'closing'>
+
+// Fires triggers the player has just stepped into, then applies the sliding
+// walls due this tick. A wall never closes on the player: it waits until
+// they are clear of its cell.
+function updateTriggers(state: SimState, world: SimWorld, tick: number, x: number, z: number): TriggerUpdate {
+  let { fired, closed, closing } = state
+  world.triggers.forEach((trigger, i) => {
+    const entered = inRegion(trigger, x, z) && (state.tick === 0 || !inRegion(trigger, state.x, state.z))
+    if (entered && !(trigger.once && fired.some(f => f.trigger === i))) {
+      fired = [...fired.filter(f => f.trigger !== i), { trigger: i, tick }]
+    }
+  })
+
+  for (const entry of fired) {
+    for (const action of world.triggers[entry.trigger].actions) {
+      if ((action.type !== 'close-wall' && action.type !== 'open-wall') || actionTick(entry, action) !== tick) continue
+      const index = action.z * world.grid[0].length + action.x
+      closed = closed.filter(cell => cell !== index)
+      closing = closing.filter(cell => cell !== index)
+      if (action.type === 'close-wall') closing = [...closing, index]
+    }
+  }
+
+  const width = world.grid[0].length
+  const clear = closing.filter(index => !circleTouchesCell(x, z, PLAYER_RADIUS, index % width, Math.floor(index / width)))
+  if (clear.length > 0) {
+    closed = [...closed, ...clear]
+    closing = closing.filter(index => !clear.includes(index))
+  }
+  return { fired, closed, closing }
+}
+
+// Advances one fixed tick. Finished simulations are returned unchanged.
+export function step(state: SimState, input: PlayerInput, world: SimWorld): SimState {
+  if (state.status !== 'running') {
+    return state
+  }
+
+  const dt = TICK_SECONDS
+
+  // Normalize input
+  let inputX = input.x
+  let inputZ = input.z
+  const inputLength = Math.sqrt(inputX * inputX + inputZ * inputZ)
+  if (inputLength > 1) {
+    inputX /= inputLength
+    inputZ /= inputLength
+  }
+
+  // Apply acceleration, then friction
+  let vx = state.vx + inputX * ACCELERATION * dt
+  let vz = state.vz + inputZ * ACCELERATION * dt
+  vx -= vx * FRICTION * dt
+  vz -= vz * FRICTION * dt
+
+  // Clamp velocity
+  const velocityLength = Math.sqrt(vx * vx + vz * vz)
+  if (velocityLength > world.speed) {
+    vx *= world.speed / velocityLength
+    vz *= world.speed / velocityLength
+  }
+
+  let x = state.x + vx * dt
+  let z = state.z + vz * dt
+  const tick = state.tick + 1
+  let { sanity, wallHits } = state
+  let hitCooldown = Math.max(0, state.hitCooldown - 1)
+  let graceTicks = Math.max(0, state.graceTicks - 1)
+  let inventory = state.inventory
+
+  // Spends an extra life, if there is one, to survive a death
+  const survive = () => {
+    if (graceTicks > 0) return true
+    if (inventory.lives === 0) return false
+    inventory = { ...inventory, lives: inventory.lives - 1 }
+    graceTicks = GRACE_TICKS
+    return true
+  }
+
+  const solid = createSolidTest(world.grid, inventory.keys, state.closed, state.x, state.z)
+  const collision = resolveWallCollision(world.grid, x, z, PLAYER_RADIUS, solid)
+  if (collision.contacts.length > 0) {
+    if (world.mode === 'classic' && !survive()) {
+      return { ...state, tick, status: 'hit-wall', vx: 0, vz: 0 }
+    }
+    x = collision.x
+    z = collision.z
+    const slid = slideVelocity(vx, vz, collision.contacts)
+    vx = slid.vx
+    vz = slid.vz
+    if (world.mode === 'sanity' && hitCooldown === 0) {
+      sanity = Math.max(0, sanity - WALL_HIT_DAMAGE)
+      hitCooldown = HIT_COOLDOWN_TICKS
+      wallHits++
+    }
+  }
+
+  const distance = state.distance + Math.sqrt((x - state.x) ** 2 + (z - state.z) ** 2)
+
+  if (sanity <= 0) {
+    if (!survive()) {
+      return { ...state, tick, status: 'hit-wall', x, z, vx: 0, vz: 0, distance, sanity, hitCooldown, wallHits }
+    }
+    sanity = MAX_SANITY
+  }
+
+  if (world.mode !== 'practice') {
+    inventory = { ...inventory, battery: Math.max(0, inventory.battery - TICK_SECONDS / BATTERY_LIFE_SECONDS) }
+  }
+  inventory = collectItem(inventory, world.grid, x, z)
+  const triggers = updateTriggers(state, world, tick, x, z)
+
+  // A locked goal is just another cell until the keys are in hand
+  if (checkGoal(world.goal, x, z) && hasKeys(inventory.keys, world.goalRequires)) {
+    return { ...state, tick, status: 'won', vx, vz, distance, sanity, hitCooldown, wallHits, inventory, ...triggers }
+  }
+
+  let caught = false
+  const hunters = state.hunters.map((hunter, i) => {
+    const update = updateHunter(hunter, world.hunters[i], world.grid, { x, z }, dt)
+    caught = caught || update.caught
+    return update.state
+  })
+
+  // Practice runs can't end in a death, hunters included
+  const status = caught && world.mode !== 'practice' && !survive() ? 'caught' : 'running'
+  return { tick, status, x, z, vx, vz, distance, sanity, hitCooldown, wallHits, hunters, inventory, graceTicks, ...triggers }
+}
+
+export interface FrameSteps {
+  steps: number
+  accumulator: number
+  // How far between the last two ticks the rendered frame sits, 0..1
+  alpha: number
+}
+
+// Turns a variable render delta into a whole number of ticks plus the leftover
+export function consumeFrame(accumulator: number, delta: number): FrameSteps {
+  let remaining = accumulator + Math.min(delta, MAX_FRAME_SECONDS)
+  let steps = 0
+  while (remaining >= TICK_SECONDS) {
+    remaining -= TICK_SECONDS
+    steps++
+  }
+  return { steps, accumulator: remaining, alpha: remaining / TICK_SECONDS }
+}
+
+export function interpolate(previous: number, current: number, alpha: number): number {
+  return previous + (current - previous) * alpha
+}
@@ -0,0 +1,84 @@
+import { Blackout, CellEffect, Trigger, TriggerAction } from '../levels/format'
+import { GridPoint } from '../maze/grid'
+import { FiredTrigger, TICK_RATE, actionTick } from './simulation'
+
+// How long a skull takes to fly at the player before it vanishes
+export const LUNGE_SECONDS = 0.6
+
+// Seconds a sliding wall takes to rise or sink
+export const SLIDE_SECONDS = 0.5
+
+export interface DueAction {
+  action: TriggerAction
+  tick: number
+}
+
+// Every action of every fired trigger with the tick it takes effect on,
+// including ones still waiting on their delay
+export function dueActions(triggers: readonly Trigger[], fired: readonly FiredTrigger[]): DueAction[] {
+  return fired.flatMap(entry =>
+    triggers[entry.trigger].actions.map(action => ({ action, tick: actionTick(entry, action) }))
+  )
+}
+
+// Lights-out actions as blackouts on the level clock, so the lighting
+// director can treat them like the level's own
+export function triggeredBlackouts(due: readonly DueAction[]): Blackout[] {
+  return due.flatMap(({ action, tick }) =>
+    action.type === 'lights-out' ? [{ at: tick / TICK_RATE, duration: action.duration }] : []
+  )
+}
+
+// Cells any trigger can close or open, so their meshes exist up front
+export function slidingWallCells(triggers: readonly Trigger[]): GridPoint[] {
+  return uniqueCells(triggers, effect => effect === 'close-wall' || effect === 'open-wall')
+}
+
+export function fakeGoalCells(triggers: readonly Trigger[]): GridPoint[] {
+  return uniqueCells(triggers, effect => effect === 'fake-goal')
+}
+
+function uniqueCells(triggers: readonly Trigger[], match: (type: CellEffect['type']) => boolean): GridPoint[] {
+  const cells = new Map<string, GridPoint>()
+  for (const { actions } of triggers) {
+    for (const action of actions) {
+      if ('x' in action && match(action.type)) {
+        cells.set(`${action.x},${action.z}`, { x: action.x, z: action.z })
+      }
+    }
+  }
+  return [...cells.values()]
+}
+
+// Lunge progress for the skull at a cell: null before any lunge, then 0 to 1
+// over LUNGE_SECONDS, staying at 1 once it has struck
+export function lungeProgress(due: readonly DueAction[], cell: GridPoint, seconds: number): number | null {
+  let progress: number | null = null
+  for (const { action, tick } of due) {
+    if (action.type !== 'lunge' || action.x !== cell.x || action.z !== cell.z) continue
+    const elapsed = seconds - tick / TICK_RATE
+    if (elapsed >= 0) progress = Math.max(progress ?? 0, Math.min(1, elapsed / LUNGE_SECONDS))
+  }
+  return progress
+}
+
+// A fake crystal shows from its fake-goal action until a later shatter at
+// the same cell
+export function isFakeGoalShown(due: readonly DueAction[], cell: GridPoint, tick: number): boolean {
+  let latest = -1
+  let shown = false
+  for (const { action, tick: at } of due) {
+    if (at > tick || at < latest) continue
+    if ((action.type === 'fake-goal' || action.type === 'shatter') && action.x === cell.x && action.z === cell.z) {
+      latest = at
+      shown = action.type === 'fake-goal'
+    }
+  }
+  return shown
+}
+
+// Actions whose moment falls in (fromTick, toTick]; one-shot effects such
+// as scares and stingers play from these
+export function actionsBetween(due: readonly DueAction[], fromTick: number, toTick: number): TriggerAction[] {
+  return due.filter(({ tick }) => tick > fromTick && tick <= toTick).map(({ action }) => action)
+}
@@ -0,0 +1,103 @@
+import { useState, useEffect } from 'react'
+import {
+  DEFAULT_BINDINGS,
+  INPUT_ACTIONS,
+  InputAction,
+  KeyBindings,
+  MAX_KEYS_PER_ACTION,
+  bindKey,
+  describeKey,
+  unbindKey,
+} from './bindings'
+
+interface ControlsScreenProps {
+  bindings: KeyBindings
+  onChange: (bindings: KeyBindings) => void
+  onClose: () => void
+}
+
+export default function ControlsScreen({ bindings, onChange, onClose }: ControlsScreenProps) {
+  // The slot waiting for a key press, if any
+  const [listening, setListening] = useState<{ action: InputAction; slot: number } | null>(null)
+
+  useEffect(() => {
+    if (!listening) return
+    // Capture phase so the game's own listeners never see the key being bound.
+    // Escape cancels rather than binding, so it can't be assigned here.
+    const handleKeyDown = (e: KeyboardEvent) => {
+      e.preventDefault()
+      e.stopPropagation()
+      if (e.code !== 'Escape') onChange(bindKey(bindings, listening.action, listening.slot, e.code))
+      setListening(null)
+    }
+    window.addEventListener('keydown', handleKeyDown, true)
+    return () => window.removeEventListener('keydown', handleKeyDown, true)
+  }, [listening, bindings, onChange])
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex flex-col items-center justify-center gap-6 p-4 text-gray-300"
+      style={{
+        background: 'linear-gradient(180deg, #0a0000 0%, #1a0505 50%, #0a0000 100%)',
+        fontFamily: "'Special Elite', cursive",
+      }}
+    >
+      <h2 className="text-5xl text-red-600" style={{ fontFamily: "'Creepster', cursive" }}>
+        Controls
+      </h2>
+
+      <table className="text-sm">
+        <tbody>
+          {INPUT_ACTIONS.map(({ id, label }) => (
+            <tr key={id}>
+              <td className="pr-6 py-1">{label}</td>
+              {Array.from({ length: MAX_KEYS_PER_ACTION }, (_, slot) => {
+                const code = bindings[id][slot]
+                const waiting = listening?.action === id && listening.slot === slot
+                return (
+                  <td key={slot} className="px-1 py-1">
+                    <div className="flex">
+                      <button
+                        onClick={() => setListening(waiting ? null : { action: id, slot })}
+                        className={`w-32 px-3 py-1 rounded-l border border-red-900 ${
+                          waiting ? 'bg-red-900/70 animate-pulse' : 'bg-black/70 hover:bg-red-900/50'
+                        }`}
+                      >
+                        {waiting ? 'Press a key…' : code ? describeKey(code) : '—'}
+                      </button>
+                      <button
+                        onClick={() => onChange(unbindKey(bindings, id, slot))}
+                        disabled={!code}
+                        className="px-2 rounded-r border border-l-0 border-red-900 bg-black/70 hover:bg-red-900/50 disabled:opacity-30"
+                        aria-label={`Clear ${label} key ${slot + 1}`}
+                      >
+                        ✕
+                      </button>
+                    </div>
+                  </td>
+                )
+              })}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <p className="text-xs text-gray-500 max-w-md text-center">
+        Press Esc to cancel a rebind. Gamepads use the left stick or d-pad to move, the right stick or bumpers to turn, Y to switch camera and Start to
+        pause.
+      </p>
+
+      <div className="flex gap-4">
+        <button
+          onClick={() => onChange(DEFAULT_BINDINGS)}
+          className="px-4 py-2 rounded border border-red-900 bg-black/70 hover:bg-red-900/50"
+        >
+          Reset to defaults
+        </button>
+        <button onClick={onClose} className="px-4 py-2 rounded bg-red-700 text-black hover:bg-red-600">
+          Done
+        </button>
+      </div>
+    </div>
+  )
+}
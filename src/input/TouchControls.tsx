@@ -0,0 +1,177 @@
+import { useState, useRef, useEffect, useCallback, PointerEvent } from 'react'
+import { PlayerInput } from '../game/simulation'
+import { InputController, applyDeadZone } from './controller'
+import { requestTiltPermission, tiltSupported, watchTilt } from './tilt'
+
+const STICK_RADIUS = 56
+const STICK_DEAD_ZONE = 0.15
+// Radians of view rotation per pixel dragged on the look pad
+const LOOK_SENSITIVITY = 0.006
+
+// Only show on devices whose primary pointer is a finger, tablets included
+function useCoarsePointer(): boolean {
+  const [coarse, setCoarse] = useState(() => window.matchMedia('(pointer: coarse)').matches)
+  useEffect(() => {
+    const query = window.matchMedia('(pointer: coarse)')
+    const handleChange = () => setCoarse(query.matches)
+    query.addEventListener('change', handleChange)
+    return () => query.removeEventListener('change', handleChange)
+  }, [])
+  return coarse
+}
+
+// Pointer capture keeps the stick tracking a finger that slides off it, and
+// tracking one pointer id leaves other fingers free for the look pad
+function Joystick({ onMove }: { onMove: (move: PlayerInput | null) => void }) {
+  const base = useRef<HTMLDivElement>(null)
+  const pointer = useRef<number | null>(null)
+  const [knob, setKnob] = useState({ x: 0, y: 0 })
+
+  const track = (e: PointerEvent<HTMLDivElement>) => {
+    const rect = base.current!.getBoundingClientRect()
+    let dx = e.clientX - (rect.left + rect.width / 2)
+    let dy = e.clientY - (rect.top + rect.height / 2)
+    const distance = Math.hypot(dx, dy)
+    if (distance > STICK_RADIUS) {
+      dx *= STICK_RADIUS / distance
+      dy *= STICK_RADIUS / distance
+    }
+    setKnob({ x: dx, y: dy })
+    onMove(applyDeadZone(dx / STICK_RADIUS, dy / STICK_RADIUS, STICK_DEAD_ZONE))
+  }
+
+  const release = (e: PointerEvent<HTMLDivElement>) => {
+    if (e.pointerId !== pointer.current) return
+    pointer.current = null
+    setKnob({ x: 0, y: 0 })
+    onMove(null)
+  }
+
+  // Don't leave the player walking if the stick vanishes mid-press
+  useEffect(() => () => onMove(null), [onMove])
+
+  return (
+    <div
+      ref={base}
+      onPointerDown={e => {
+        if (pointer.current !== null) return
+        pointer.current = e.pointerId
+        e.currentTarget.setPointerCapture(e.pointerId)
+        track(e)
+      }}
+      onPointerMove={e => {
+        if (e.pointerId === pointer.current) track(e)
+      }}
+      onPointerUp={release}
+      onPointerCancel={release}
+      onLostPointerCapture={release}
+      className="relative rounded-full bg-red-950/40 border-2 border-red-800/70"
+      style={{ width: STICK_RADIUS * 2 + 24, height: STICK_RADIUS * 2 + 24, touchAction: 'none' }}
+      aria-label="Movement stick"
+    >
+      <div
+        className="absolute w-14 h-14 rounded-full bg-red-800/90 border border-red-500 pointer-events-none"
+        style={{
+          left: '50%',
+          top: '50%',
+          transform: `translate(calc(-50% + ${knob.x}px), calc(-50% + ${knob.y}px))`,
+          boxShadow: '0 0 20px rgba(220, 38, 38, 0.5)',
+        }}
+      />
+    </div>
+  )
+}
+
+function LookPad({ input }: { input: InputController }) {
+  const last = useRef<{ id: number; x: number; y: number } | null>(null)
+
+  const release = (e: PointerEvent<HTMLDivElement>) => {
+    if (e.pointerId === last.current?.id) last.current = null
+  }
+
+  return (
+    <div
+      onPointerDown={e => {
+        if (last.current) return
+        e.currentTarget.setPointerCapture(e.pointerId)
+        last.current = { id: e.pointerId, x: e.clientX, y: e.clientY }
+      }}
+      onPointerMove={e => {
+        const previous = last.current
+        if (!previous || e.pointerId !== previous.id) return
+        input.addLook(-(e.clientX - previous.x) * LOOK_SENSITIVITY, -(e.clientY - previous.y) * LOOK_SENSITIVITY)
+        last.current = { id: e.pointerId, x: e.clientX, y: e.clientY }
+      }}
+      onPointerUp={release}
+      onPointerCancel={release}
+      className="fixed top-16 bottom-0 right-0 w-1/2 z-30"
+      style={{ touchAction: 'none' }}
+      aria-hidden
+    />
+  )
+}
+
+interface TouchControlsProps {
+  input: InputController
+  // Whether dragging on the right half should turn the view
+  canLook: boolean
+}
+
+export default function TouchControls({ input, canLook }: TouchControlsProps) {
+  const coarse = useCoarsePointer()
+  const [tilt, setTilt] = useState<'off' | 'on' | 'denied'>('off')
+  const tiltWatch = useRef<ReturnType<typeof watchTilt> | null>(null)
+  const handleStickMove = useCallback((move: PlayerInput | null) => input.setAnalog('touch', move), [input])
+
+  useEffect(() => {
+    if (tilt !== 'on') return
+    const watch = watchTilt(move => input.setAnalog('tilt', move))
+    tiltWatch.current = watch
+    return () => {
+      watch.stop()
+      tiltWatch.current = null
+      input.setAnalog('tilt', null)
+    }
+  }, [tilt, input])
+
+  const toggleTilt = async () => {
+    if (tilt === 'on') {
+      setTilt('off')
+      return
+    }
+    setTilt((await requestTiltPermission()) ? 'on' : 'denied')
+  }
+
+  if (!coarse) return null
+
+  return (
+    <>
+      {canLook && <LookPad input={input} />}
+      <div className="fixed bottom-20 left-6 z-40">
+        <Joystick onMove={handleStickMove} />
+      </div>
+      {tiltSupported() && (
+        <div
+          className="fixed bottom-20 right-4 z-40 flex flex-col gap-2 text-xs text-gray-300"
+          style={{ fontFamily: "'Special Elite', cursive" }}
+        >
+          <button
+            onClick={toggleTilt}
+            className="px-3 py-2 rounded bg-black/70 border border-red-900"
+            aria-pressed={tilt === 'on'}
+          >
+            {tilt === 'on' ? 'Tilt: on' : tilt === 'denied' ? 'Tilt: blocked' : 'Tilt: off'}
+          </button>
+          {tilt === 'on' && (
+            <button
+              onClick={() => tiltWatch.current?.calibrate()}
+              className="px-3 py-2 rounded bg-black/70 border border-red-900"
+            >
+              Calibrate
+            </button>
+          )}
+        </div>
+      )}
+    </>
+  )
+}
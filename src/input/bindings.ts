@@ -0,0 +1,127 @@
+import { KeyValueStore, browserStore, readJson, writeJson } from '../storage/keyValue'
+
+export type InputAction = 'forward' | 'back' | 'left' | 'right' | 'turnLeft' | 'turnRight' | 'toggleCamera' | 'pause'
+
+export const INPUT_ACTIONS: readonly { id: InputAction; label: string }[] = [
+  { id: 'forward', label: 'Move forward / up' },
+  { id: 'back', label: 'Move back / down' },
+  { id: 'left', label: 'Move left' },
+  { id: 'right', label: 'Move right' },
+  { id: 'turnLeft', label: 'Turn left' },
+  { id: 'turnRight', label: 'Turn right' },
+  { id: 'toggleCamera', label: 'Switch camera' },
+  { id: 'pause', label: 'Pause' },
+]
+
+// Keyboard bindings are physical key codes (KeyboardEvent.code), so the
+// movement cluster stays in the same place on AZERTY or Dvorak layouts
+export type KeyBindings = Record<InputAction, string[]>
+
+export const MAX_KEYS_PER_ACTION = 2
+
+export const DEFAULT_BINDINGS: KeyBindings = {
+  forward: ['KeyW', 'ArrowUp'],
+  back: ['KeyS', 'ArrowDown'],
+  left: ['KeyA', 'ArrowLeft'],
+  right: ['KeyD', 'ArrowRight'],
+  turnLeft: ['KeyQ'],
+  turnRight: ['KeyE'],
+  toggleCamera: ['KeyC'],
+  pause: ['Escape', 'KeyP'],
+}
+
+// Split-screen halves the keyboard: one player on WASD, the other on the
+// arrows. Each also gets a pause key so either can stop the race.
+export const RACE_BINDINGS: readonly [KeyBindings, KeyBindings] = [
+  {
+    forward: ['KeyW'],
+    back: ['KeyS'],
+    left: ['KeyA'],
+    right: ['KeyD'],
+    turnLeft: [],
+    turnRight: [],
+    toggleCamera: [],
+    pause: ['Escape'],
+  },
+  {
+    forward: ['ArrowUp'],
+    back: ['ArrowDown'],
+    left: ['ArrowLeft'],
+    right: ['ArrowRight'],
+    turnLeft: [],
+    turnRight: [],
+    toggleCamera: [],
+    pause: ['KeyP'],
+  },
+]
+
+const BINDINGS_KEY = 'maze.bindings.v1'
+
+// Anything unreadable falls back to the default for that action, so a stale
+// save from an older build can't leave an action unreachable
+export function loadBindings(store: KeyValueStore = browserStore): KeyBindings {
+  const saved = readJson<Partial<Record<string, unknown>>>(store, BINDINGS_KEY)
+  const bindings = { ...DEFAULT_BINDINGS }
+  if (!saved || typeof saved !== 'object') return bindings
+  for (const { id } of INPUT_ACTIONS) {
+    const codes = saved[id]
+    if (Array.isArray(codes) && codes.every(code => typeof code === 'string')) {
+      bindings[id] = codes.slice(0, MAX_KEYS_PER_ACTION)
+    }
+  }
+  return bindings
+}
+
+export function saveBindings(bindings: KeyBindings, store: KeyValueStore = browserStore) {
+  writeJson(store, BINDINGS_KEY, bindings)
+}
+
+// A key can only drive one action, so binding it steals it from any other
+export function bindKey(bindings: KeyBindings, action: InputAction, slot: number, code: string): KeyBindings {
+  const next = {} as KeyBindings
+  for (const { id } of INPUT_ACTIONS) {
+    next[id] = bindings[id].filter(existing => existing !== code)
+  }
+  const codes = bindings[action].filter(existing => existing !== code)
+  if (slot < codes.length) {
+    codes[slot] = code
+  } else {
+    codes.push(code)
+  }
+  next[action] = codes.slice(0, MAX_KEYS_PER_ACTION)
+  return next
+}
+
+export function unbindKey(bindings: KeyBindings, action: InputAction, slot: number): KeyBindings {
+  return { ...bindings, [action]: bindings[action].filter((_, i) => i !== slot) }
+}
+
+export function actionForKey(bindings: KeyBindings, code: string): InputAction | null {
+  return INPUT_ACTIONS.find(({ id }) => bindings[id].includes(code))?.id ?? null
+}
+
+const KEY_NAMES: Record<string, string> = {
+  ArrowUp: '↑',
+  ArrowDown: '↓',
+  ArrowLeft: '←',
+  ArrowRight: '→',
+  Escape: 'Esc',
+  Space: 'Space',
+  Enter: 'Enter',
+  Backspace: 'Backspace',
+  ShiftLeft: 'Left Shift',
+  ShiftRight: 'Right Shift',
+  ControlLeft: 'Left Ctrl',
+  ControlRight: 'Right Ctrl',
+  AltLeft: 'Left Alt',
+  AltRight: 'Right Alt',
+}
+
+// Codes name the US-layout key; good enough for a label
+export function describeKey(code: string): string {
+  if (KEY_NAMES[code]) return KEY_NAMES[code]
+  if (code.startsWith('Key')) return code.slice(3)
+  if (code.startsWith('Digit')) return code.slice(5)
+  if (code.startsWith('Numpad')) return `Num ${code.slice(6)}`
+  return code
+}
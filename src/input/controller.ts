@@ -0,0 +1,180 @@
+import { PlayerInput } from '../game/simulation'
+import { DEFAULT_BINDINGS, InputAction, KeyBindings, actionForKey } from './bindings'
+
+// Standard gamepad mapping (https://w3c.github.io/gamepad/#remapping)
+const GAMEPAD_BUTTONS: Partial<Record<number, InputAction>> = {
+  3: 'toggleCamera',
+  4: 'turnLeft',
+  5: 'turnRight',
+  9: 'pause',
+  12: 'forward',
+  13: 'back',
+  14: 'left',
+  15: 'right',
+}
+const STICK_DEAD_ZONE = 0.2
+
+export type ActionListener = (action: InputAction) => void
+
+// Devices that report an analog vector rather than button presses
+export type AnalogSource = 'touch' | 'tilt'
+
+// Merges keyboard, gamepad and touch into one analog movement vector plus
+// edge-triggered actions. Callers never see which device produced what.
+export interface InputController {
+  // x is right, z is back (towards the camera in top-down); length <= 1
+  readMove(): PlayerInput
+  // -1..1, positive turns left
+  readTurn(): number
+  // Fires once per press, never on key repeat
+  onAction(listener: ActionListener): () => void
+  setBindings(bindings: KeyBindings): void
+  // null releases the source (finger lifted, tilt turned off)
+  setAnalog(source: AnalogSource, move: PlayerInput | null): void
+  // Look deltas in radians from touch gestures, drained by the camera each frame
+  addLook(yaw: number, pitch: number): void
+  takeLook(): { yaw: number; pitch: number }
+  // Starts listening to the window; returns a function that stops
+  attach(): () => void
+}
+
+export interface InputControllerOptions {
+  // Listen to one gamepad slot only; by default every pad drives the controller
+  gamepad?: number
+}
+
+// Rescales past the dead zone so small deflections still start from zero
+export function applyDeadZone(x: number, z: number, deadZone = STICK_DEAD_ZONE): PlayerInput {
+  const length = Math.hypot(x, z)
+  if (length <= deadZone) return { x: 0, z: 0 }
+  const scale = Math.min(1, (length - deadZone) / (1 - deadZone)) / length
+  return { x: x * scale, z: z * scale }
+}
+
+function clampLength({ x, z }: PlayerInput): PlayerInput {
+  const length = Math.hypot(x, z)
+  return length > 1 ? { x: x / length, z: z / length } : { x, z }
+}
+
+function isTextField(target: EventTarget | null): boolean {
+  return target instanceof HTMLInputElement || target instanceof HTMLTextAreaElement || target instanceof HTMLSelectElement
+}
+
+export function createInputController(
+  initial: KeyBindings = DEFAULT_BINDINGS,
+  options: InputControllerOptions = {},
+): InputController {
+  let bindings = initial
+  const pressedKeys = new Set<string>()
+  const listeners = new Set<ActionListener>()
+  const analog = new Map<AnalogSource, PlayerInput>()
+  let look = { yaw: 0, pitch: 0 }
+  let gamepadMove: PlayerInput = { x: 0, z: 0 }
+  let gamepadTurn = 0
+  let gamepadHeld = new Set<InputAction>()
+
+  const emit = (action: InputAction) => listeners.forEach(listener => listener(action))
+
+  const held = (action: InputAction) =>
+    gamepadHeld.has(action) || bindings[action].some(code => pressedKeys.has(code))
+
+  const pollGamepads = () => {
+    const pads = typeof navigator.getGamepads === 'function' ? navigator.getGamepads() : []
+    const nextHeld = new Set<InputAction>()
+    let move = { x: 0, z: 0 }
+    let turn = 0
+    for (const pad of pads) {
+      if (!pad?.connected || (options.gamepad !== undefined && pad.index !== options.gamepad)) continue
+      const stick = applyDeadZone(pad.axes[0] ?? 0, pad.axes[1] ?? 0)
+      move = { x: move.x + stick.x, z: move.z + stick.z }
+      turn -= applyDeadZone(pad.axes[2] ?? 0, 0).x
+      pad.buttons.forEach((button, index) => {
+        const action = GAMEPAD_BUTTONS[index]
+        if (action && button.pressed) nextHeld.add(action)
+      })
+    }
+    for (const action of nextHeld) {
+      if (!gamepadHeld.has(action)) emit(action)
+    }
+    gamepadMove = move
+    gamepadTurn = turn
+    gamepadHeld = nextHeld
+  }
+
+  return {
+    readMove() {
+      let x = gamepadMove.x
+      let z = gamepadMove.z
+      for (const move of analog.values()) {
+        x += move.x
+        z += move.z
+      }
+      if (held('forward')) z -= 1
+      if (held('back')) z += 1
+      if (held('left')) x -= 1
+      if (held('right')) x += 1
+      return clampLength({ x, z })
+    },
+    readTurn() {
+      let turn = gamepadTurn
+      if (held('turnLeft')) turn += 1
+      if (held('turnRight')) turn -= 1
+      return Math.max(-1, Math.min(1, turn))
+    },
+    onAction(listener) {
+      listeners.add(listener)
+      return () => {
+        listeners.delete(listener)
+      }
+    },
+    setBindings(next) {
+      bindings = next
+    },
+    setAnalog(source, move) {
+      if (move) {
+        analog.set(source, move)
+      } else {
+        analog.delete(source)
+      }
+    },
+    addLook(yaw, pitch) {
+      look = { yaw: look.yaw + yaw, pitch: look.pitch + pitch }
+    },
+    takeLook() {
+      const taken = look
+      look = { yaw: 0, pitch: 0 }
+      return taken
+    },
+    attach() {
+      const handleKeyDown = (e: KeyboardEvent) => {
+        if (e.repeat || isTextField(e.target)) return
+        pressedKeys.add(e.code)
+        const action = actionForKey(bindings, e.code)
+        if (action) emit(action)
+      }
+      const handleKeyUp = (e: KeyboardEvent) => {
+        pressedKeys.delete(e.code)
+      }
+      // Keyups are lost while the window is unfocused
+      const handleBlur = () => pressedKeys.clear()
+
+      let frame = 0
+      const loop = () => {
+        pollGamepads()
+        frame = requestAnimationFrame(loop)
+      }
+      frame = requestAnimationFrame(loop)
+
+      window.addEventListener('keydown', handleKeyDown)
+      window.addEventListener('keyup', handleKeyUp)
+      window.addEventListener('blur', handleBlur)
+      return () => {
+        cancelAnimationFrame(frame)
+        window.removeEventListener('keydown', handleKeyDown)
+        window.removeEventListener('keyup', handleKeyUp)
+        window.removeEventListener('blur', handleBlur)
+        pressedKeys.clear()
+      }
+    },
+  }
+}
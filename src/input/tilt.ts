@@ -0,0 +1,72 @@
+import { PlayerInput } from '../game/simulation'
+import { applyDeadZone } from './controller'
+
+// Device angles in degrees as reported by DeviceOrientationEvent
+export interface Orientation {
+  beta: number
+  gamma: number
+}
+
+// Degrees of tilt away from the calibrated rest position for full speed
+const FULL_TILT_DEGREES = 20
+const TILT_DEAD_ZONE = 0.15
+
+// iOS exposes a permission prompt that must come from a user gesture
+type PermissionedOrientationEvent = typeof DeviceOrientationEvent & {
+  requestPermission?: () => Promise<'granted' | 'denied'>
+}
+
+export function tiltSupported(): boolean {
+  return typeof window !== 'undefined' && 'DeviceOrientationEvent' in window
+}
+
+export async function requestTiltPermission(): Promise<boolean> {
+  if (!tiltSupported()) return false
+  const event = DeviceOrientationEvent as PermissionedOrientationEvent
+  if (typeof event.requestPermission !== 'function') return true
+  try {
+    return (await event.requestPermission()) === 'granted'
+  } catch {
+    return false
+  }
+}
+
+function screenAngle(): number {
+  return window.screen.orientation?.angle ?? 0
+}
+
+// Tilting the top of the device away moves forward, tilting right moves
+// right, whichever way round the screen currently is
+export function tiltToMove(orientation: Orientation, rest: Orientation, angle: number): PlayerInput {
+  const pitch = (orientation.beta - rest.beta) / FULL_TILT_DEGREES
+  const roll = (orientation.gamma - rest.gamma) / FULL_TILT_DEGREES
+  const radians = (angle * Math.PI) / 180
+  const cos = Math.cos(radians)
+  const sin = Math.sin(radians)
+  return applyDeadZone(roll * cos + pitch * sin, pitch * cos - roll * sin, TILT_DEAD_ZONE)
+}
+
+// Reports a movement vector for every orientation change. The first reading
+// becomes the rest position unless one is passed in; calling the returned
+// calibrate() re-centres on however the device is held right now.
+export function watchTilt(onMove: (move: PlayerInput) => void, rest?: Orientation) {
+  let latest: Orientation | null = null
+  let neutral = rest ?? null
+
+  const handleOrientation = (e: DeviceOrientationEvent) => {
+    if (e.beta === null || e.gamma === null) return
+    latest = { beta: e.beta, gamma: e.gamma }
+    neutral ??= latest
+    onMove(tiltToMove(latest, neutral, screenAngle()))
+  }
+  window.addEventListener('deviceorientation', handleOrientation)
+
+  return {
+    calibrate() {
+      neutral = latest
+    },
+    stop() {
+      window.removeEventListener('deviceorientation', handleOrientation)
+    },
+  }
+}
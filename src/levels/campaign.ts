@@ -0,0 +1,12 @@
+import theCrypt from './data/01-the-crypt.json'
+import theCatacombs from './data/02-the-catacombs.json'
+import theAbyss from './data/03-the-abyss.json'
+
+// Played in order; WinOverlay advances through this list. Ghosts and
+// leaderboards are keyed by level id, so a level whose layout or items change
+// takes a new id (e.g. the-crypt-v2) rather than replaying old runs against it.
+export const CAMPAIGN: readonly unknown[] = [theCrypt, theCatacombs, theAbyss]
+
+export function findCampaignLevel(id: string): unknown | undefined {
+  return CAMPAIGN.find(entry => (entry as { id?: unknown }).id === id)
+}
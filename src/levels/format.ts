@@ -0,0 +1,193 @@
+import { GridPoint, KeyColor, MazeGrid, PickupType } from '../maze/grid'
+import { MazeAlgorithm } from '../maze/generate'
+import { Seed } from '../maze/random'
+
+export const LEVEL_FORMAT_VERSION = 1
+
+export type DecorationType = 'skull'
+
+export interface Decoration extends GridPoint {
+  type: DecorationType
+}
+
+export type EnemyType = 'hunter'
+
+export interface HunterTuning {
+  // World units per second while wandering / hunting
+  speed: number
+  chaseSpeed: number
+  // Cells the hunter can see down an open corridor
+  sightRange: number
+  // World-unit distance at which the player is caught
+  catchRadius: number
+}
+
+export interface EnemySpawn extends GridPoint, Partial<HunterTuning> {
+  type: EnemyType
+  // Cells visited in order while no player is in sight
+  patrol?: GridPoint[]
+}
+
+export interface Hunter extends GridPoint, HunterTuning {
+  type: EnemyType
+  patrol: GridPoint[]
+}
+
+export interface TorchLight {
+  color: string
+  // Peak brightness; the flame flickers below this
+  intensity: number
+}
+
+// Torches burn on open cells; colour and brightness fall back to DEFAULT_TORCH
+export interface TorchSpawn extends GridPoint, Partial<TorchLight> {}
+
+export interface Torch extends GridPoint, TorchLight {}
+
+// Every fixed light dies for `duration` seconds, `at` seconds into an attempt
+export interface Blackout {
+  at: number
+  duration: number
+}
+
+// Items can be painted into the grid directly; these lists place them on
+// generated layouts, where cell positions aren't known up front
+export interface Pickup extends GridPoint {
+  type: PickupType
+}
+
+export interface KeySpawn extends GridPoint {
+  color: KeyColor
+}
+
+// Cells the player sets a trigger off by entering
+export interface TriggerRegion extends GridPoint {
+  width: number
+  height: number
+}
+
+// Effects aimed at a cell: a wall sliding shut or open, a skull decoration
+// lunging at the player, or a decoy goal crystal appearing or shattering
+export interface CellEffect extends GridPoint {
+  type: 'close-wall' | 'open-wall' | 'lunge' | 'fake-goal' | 'shatter'
+}
+
+export interface LightsOutEffect {
+  type: 'lights-out'
+  duration: number
+}
+
+// A brief, smaller jumpscare that doesn't end the attempt
+export interface ScareEffect {
+  type: 'scare'
+  message?: string
+}
+
+export type TriggerEffect = CellEffect | LightsOutEffect | ScareEffect
+
+// `at` is seconds after the trigger fires, so one trigger can run a sequence
+export type TriggerAction = TriggerEffect & { at: number }
+
+export interface Trigger {
+  region: TriggerRegion
+  // Repeatable triggers fire again every time the player re-enters
+  once: boolean
+  actions: TriggerAction[]
+}
+
+// On-disk trigger: regions default to one cell, actions to no delay
+export interface TriggerSpawn {
+  region: GridPoint & Partial<Pick<TriggerRegion, 'width' | 'height'>>
+  once?: boolean
+  actions: (TriggerEffect & { at?: number })[]
+}
+
+export interface LevelTuning {
+  fog: { color: string; near: number; far: number }
+  lights: { ambient: number; directional: number; accent: number }
+  speed: number
+  // False for hardcore levels: no minimap, only memory
+  minimap: boolean
+}
+
+export interface LevelGenerator {
+  algorithm?: MazeAlgorithm
+  width: number
+  height: number
+  // Omit to roll a fresh layout on every attempt
+  seed?: Seed
+}
+
+// On-disk shape. Either `grid` (0 = path, 1 = wall, see CELL for the rest) or
+// `generator` is required; start/goal may be given explicitly or as 2/3 cells
+// inside the grid, and pickups and keys as lists or as cells.
+export interface LevelFile {
+  version: typeof LEVEL_FORMAT_VERSION
+  id: string
+  name: string
+  grid?: MazeGrid
+  generator?: LevelGenerator
+  start?: GridPoint
+  goal?: GridPoint
+  decorations?: Decoration[]
+  enemies?: EnemySpawn[]
+  torches?: TorchSpawn[]
+  blackouts?: Blackout[]
+  pickups?: Pickup[]
+  keys?: KeySpawn[]
+  // Keys the player must hold before the goal lets them out
+  goalRequires?: KeyColor[]
+  triggers?: TriggerSpawn[]
+  tuning?: {
+    fog?: Partial<LevelTuning['fog']>
+    lights?: Partial<LevelTuning['lights']>
+    speed?: number
+    minimap?: boolean
+  }
+}
+
+// Validated, ready-to-play level. `grid` always carries the 2/3 markers, and
+// every pickup and key as a cell.
+export interface Level {
+  id: string
+  name: string
+  grid: MazeGrid
+  start: GridPoint
+  goal: GridPoint
+  decorations: Decoration[]
+  enemies: Hunter[]
+  torches: Torch[]
+  blackouts: Blackout[]
+  goalRequires: KeyColor[]
+  triggers: Trigger[]
+  tuning: LevelTuning
+  // Seed the layout was generated from; absent for hand-authored grids
+  seed?: Seed
+}
+
+// A loaded level is already a valid level file once it carries a version,
+// which lets replays embed levels that are not part of the campaign
+export function levelToFile({ seed, ...level }: Level): LevelFile {
+  return { version: LEVEL_FORMAT_VERSION, ...level }
+}
+
+// The player tops out around 3 u/s (acceleration / friction), so a chasing
+// hunter is just slow enough to outrun on a straight
+export const DEFAULT_HUNTER: HunterTuning = {
+  speed: 1.6,
+  chaseSpeed: 2.6,
+  sightRange: 6,
+  catchRadius: 0.7,
+}
+
+export const DEFAULT_TORCH: TorchLight = {
+  color: '#ff7a1a',
+  intensity: 3,
+}
+
+export const DEFAULT_TUNING: LevelTuning = {
+  fog: { color: '#0a0000', near: 5, far: 25 },
+  lights: { ambient: 0.1, directional: 0.3, accent: 1 },
+  speed: 5,
+  minimap: true,
+}
@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest'
+import { CAMPAIGN } from './campaign'
+import { SEEDED_LEVEL } from './seeded'
+import { LevelValidationError, loadLevel } from './load'
+import { distanceField } from '../maze/solve'
+
+function level(grid: number[][]) {
+  return { version: 1, id: 'test', name: 'Test', grid }
+}
+
+describe('loadLevel', () => {
+  it('loads every campaign level', () => {
+    for (const entry of CAMPAIGN) {
+      expect(() => loadLevel(entry, { seed: 1 })).not.toThrow()
+    }
+  })
+
+  it('keeps the seeded maze escapable across seeds', () => {
+    for (let seed = 0; seed < 20; seed++) {
+      expect(() => loadLevel(SEEDED_LEVEL, { seed: `test-${seed}` })).not.toThrow()
+    }
+  })
+
+  it('rejects an unreachable goal', () => {
+    expect(() => loadLevel(level([
+      [1, 1, 1, 1, 1],
+      [1, 2, 1, 3, 1],
+      [1, 1, 1, 1, 1],
+    ]))).toThrow(/unreachable/)
+  })
+
+  it('rejects a trigger wall that seals off the goal', () => {
+    expect(() => loadLevel({
+      ...level([
+        [1, 1, 1, 1, 1, 1, 1],
+        [1, 2, 0, 0, 0, 3, 1],
+        [1, 1, 1, 1, 1, 1, 1],
+      ]),
+      triggers: [{ region: { x: 2, z: 1 }, actions: [{ type: 'close-wall', x: 3, z: 1 }] }],
+    })).toThrow(/once the triggered walls close/)
+  })
+
+  it('keeps fake goals off the real exit across seeds', () => {
+    for (const entry of CAMPAIGN) {
+      for (let seed = 0; seed < 100; seed++) {
+        const { goal, triggers } = loadLevel(entry, { seed })
+        for (const { region, actions } of triggers) {
+          const decoys = actions.filter(action => action.type === 'fake-goal' || action.type === 'shatter')
+          if (decoys.length === 0) continue
+          for (const action of decoys) {
+            expect('x' in action && action.x === goal.x && action.z === goal.z).toBe(false)
+          }
+          const coversGoal = goal.x >= region.x && goal.x < region.x + region.width &&
+            goal.z >= region.z && goal.z < region.z + region.height
+          expect(coversGoal).toBe(false)
+        }
+      }
+    }
+  })
+
+  it('rejects an authored fake goal on the real exit', () => {
+    expect(() => loadLevel({
+      ...level([
+        [1, 1, 1, 1, 1, 1, 1],
+        [1, 2, 0, 0, 0, 3, 1],
+        [1, 1, 1, 1, 1, 1, 1],
+      ]),
+      triggers: [{ region: { x: 3, z: 1 }, actions: [{ type: 'fake-goal', x: 5, z: 1 }] }],
+    })).toThrow(/must not be the start or goal/)
+  })
+
+  it('rejects an authored hunter that spawns beside the goal', () => {
+    expect(() => loadLevel({
+      ...level([
+        [1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1],
+        [1, 2, 0, 0, 0, 0, 0, 0, 0, 3, 1],
+        [1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1],
+      ]),
+      enemies: [{ type: 'hunter', x: 7, z: 1 }],
+    })).toThrow(/steps from the goal/)
+  })
+
+  it('moves generated hunters away from wherever the goal lands', () => {
+    for (const entry of [...CAMPAIGN, SEEDED_LEVEL]) {
+      for (let seed = 0; seed < 50; seed++) {
+        const loaded = loadLevel(entry, { seed })
+        const fromGoal = distanceField(loaded.grid, loaded.goal)
+        for (const hunter of loaded.enemies) {
+          expect(fromGoal[hunter.z][hunter.x]).toBeGreaterThan(4)
+        }
+      }
+    }
+  })
+
+  it('collects every problem before throwing', () => {
+    try {
+      loadLevel({ version: 2, id: 'broken', grid: [[0, 0, 0]] })
+      expect.unreachable()
+    } catch (error) {
+      expect(error).toBeInstanceOf(LevelValidationError)
+      expect((error as LevelValidationError).issues.length).toBeGreaterThan(1)
+    }
+  })
+})
@@ -0,0 +1,676 @@
+import {
+  CELL,
+  GridPoint,
+  KEY_COLORS,
+  KeyColor,
+  MazeGrid,
+  PICKUP_CELLS,
+  PickupType,
+  doorColor,
+  findCell,
+  inBounds,
+  isKnownCell,
+  keyCell,
+  keyColor,
+} from '../maze/grid'
+import { MAZE_ALGORITHMS, MIN_MAZE_SIZE, MazeAlgorithm, generateMaze } from '../maze/generate'
+import { Seed, randomSeed } from '../maze/random'
+import { canEscape, distanceField, findPath } from '../maze/solve'
+import {
+  Blackout,
+  CellEffect,
+  DEFAULT_HUNTER,
+  DEFAULT_TORCH,
+  DEFAULT_TUNING,
+  Decoration,
+  Hunter,
+  LEVEL_FORMAT_VERSION,
+  Level,
+  LevelTuning,
+  Torch,
+  Trigger,
+  TriggerAction,
+} from './format'
+
+export class LevelValidationError extends Error {
+  constructor(readonly levelId: string, readonly issues: string[]) {
+    super(`Level "${levelId}" is invalid:\n${issues.map(issue => `  - ${issue}`).join('\n')}`)
+    this.name = 'LevelValidationError'
+  }
+}
+
+export interface LoadLevelOptions {
+  // Used when the level has a generator without a fixed seed
+  seed?: Seed
+}
+
+const DECORATION_TYPES = ['skull']
+const ENEMY_TYPES = ['hunter']
+// Hunters spawn further than this many steps from the goal, so none starts out
+// guarding the exit
+const HUNTER_GOAL_CLEARANCE = 4
+const PICKUP_TYPES = Object.keys(PICKUP_CELLS)
+const CELL_EFFECTS = ['close-wall', 'open-wall', 'lunge', 'fake-goal', 'shatter']
+// Cell effects that would wall in or disguise a marker, so must stay off the start and goal
+const MARKER_SAFE_EFFECTS = ['close-wall', 'open-wall', 'fake-goal', 'shatter']
+// A fake exit must not play out on the real one
+const DECOY_EFFECTS = ['fake-goal', 'shatter']
+const ACTION_TYPES = [...CELL_EFFECTS, 'lights-out', 'scare']
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function isPoint(value: unknown): value is GridPoint {
+  return isRecord(value) && Number.isInteger(value.x) && Number.isInteger(value.z)
+}
+
+function formatPoint({ x, z }: GridPoint): string {
+  return `(${x}, ${z})`
+}
+
+function readGrid(raw: unknown, issues: string[]): MazeGrid | null {
+  if (!Array.isArray(raw) || raw.length === 0) {
+    issues.push('grid must be a non-empty array of rows')
+    return null
+  }
+  const width = Array.isArray(raw[0]) ? raw[0].length : 0
+  let valid = width > 0
+  raw.forEach((row, z) => {
+    if (!Array.isArray(row) || row.length !== width) {
+      issues.push(`grid row ${z} must have ${width} cells`)
+      valid = false
+      return
+    }
+    row.forEach((cell, x) => {
+      if (!isKnownCell(cell)) {
+        issues.push(`grid cell ${formatPoint({ x, z })} has unknown value ${JSON.stringify(cell)}`)
+        valid = false
+      }
+    })
+  })
+  return valid ? (raw as MazeGrid).map(row => [...row]) : null
+}
+
+function readGenerator(raw: unknown, fallbackSeed: Seed | undefined, issues: string[]): { grid: MazeGrid; seed: Seed } | null {
+  if (!isRecord(raw)) {
+    issues.push('generator must be an object')
+    return null
+  }
+  const { algorithm, width, height } = raw
+  const before = issues.length
+  if (algorithm !== undefined && !MAZE_ALGORITHMS.includes(algorithm as never)) {
+    issues.push(`generator.algorithm must be one of ${MAZE_ALGORITHMS.join(', ')}`)
+  }
+  for (const [name, value] of [['width', width], ['height', height]] as const) {
+    if (typeof value !== 'number' || !Number.isInteger(value) || value < MIN_MAZE_SIZE) {
+      issues.push(`generator.${name} must be an integer of at least ${MIN_MAZE_SIZE}`)
+    }
+  }
+  if (raw.seed !== undefined && typeof raw.seed !== 'number' && typeof raw.seed !== 'string') {
+    issues.push('generator.seed must be a number or string')
+  }
+  if (issues.length > before) {
+    return null
+  }
+  const seed = (raw.seed as Seed | undefined) ?? fallbackSeed ?? randomSeed()
+  const grid = generateMaze({
+    width: width as number,
+    height: height as number,
+    algorithm: algorithm as MazeAlgorithm | undefined,
+    seed,
+  })
+  return { grid, seed }
+}
+
+// Explicit start/goal fields win; otherwise fall back to the 2/3 marker in the grid
+function resolveMarker(
+  grid: MazeGrid,
+  raw: unknown,
+  marker: number,
+  label: 'start' | 'goal',
+  issues: string[],
+): GridPoint | null {
+  const inGrid = findCell(grid, marker)
+  if (raw === undefined) {
+    if (!inGrid) {
+      issues.push(`missing ${label} cell`)
+    }
+    return inGrid
+  }
+  if (!isPoint(raw)) {
+    issues.push(`${label} must be an object with integer x and z`)
+    return null
+  }
+  if (!inBounds(grid, raw.x, raw.z)) {
+    issues.push(`${label} cell ${formatPoint(raw)} is outside the grid`)
+    return null
+  }
+  if (grid[raw.z][raw.x] === CELL.WALL) {
+    issues.push(`${label} cell ${formatPoint(raw)} is inside a wall`)
+    return null
+  }
+  if (grid[raw.z][raw.x] !== CELL.PATH && grid[raw.z][raw.x] !== marker) {
+    issues.push(`${label} cell ${formatPoint(raw)} already holds an item, door or gate`)
+    return null
+  }
+  if (inGrid && (inGrid.x !== raw.x || inGrid.z !== raw.z)) {
+    issues.push(`${label} cell ${formatPoint(raw)} disagrees with the grid marker at ${formatPoint(inGrid)}`)
+    return null
+  }
+  return { x: raw.x, z: raw.z }
+}
+
+function readDecorations(grid: MazeGrid, raw: unknown, issues: string[]): Decoration[] {
+  if (raw === undefined) {
+    return []
+  }
+  if (!Array.isArray(raw)) {
+    issues.push('decorations must be an array')
+    return []
+  }
+  const decorations: Decoration[] = []
+  raw.forEach((item, i) => {
+    if (!isPoint(item) || !DECORATION_TYPES.includes((item as { type?: unknown }).type as string)) {
+      issues.push(`decorations[${i}] must have a type (${DECORATION_TYPES.join(', ')}) and integer x and z`)
+      return
+    }
+    const decoration = item as Decoration
+    if (!inBounds(grid, decoration.x, decoration.z)) {
+      issues.push(`decorations[${i}] ${formatPoint(decoration)} is outside the grid`)
+    } else if (grid[decoration.z][decoration.x] === CELL.WALL) {
+      issues.push(`decorations[${i}] ${formatPoint(decoration)} is inside a wall`)
+    } else {
+      decorations.push({ type: decoration.type, x: decoration.x, z: decoration.z })
+    }
+  })
+  return decorations
+}
+
+// Closest plain path cell to `from`, by walking distance, that is clear of the
+// goal and not the start
+function nearestSpawnClearOfGoal(grid: MazeGrid, from: GridPoint, fromGoal: number[][], start: GridPoint | null): GridPoint | null {
+  const distances = distanceField(grid, from)
+  let nearest: GridPoint | null = null
+  distances.forEach((row, z) => row.forEach((distance, x) => {
+    if (
+      distance >= 0 && grid[z][x] === CELL.PATH && fromGoal[z][x] > HUNTER_GOAL_CLEARANCE &&
+      !(start && start.x === x && start.z === z) &&
+      (!nearest || distance < distances[nearest.z][nearest.x])
+    ) {
+      nearest = { x, z }
+    }
+  }))
+  return nearest
+}
+
+// A generated goal can land anywhere, so a hunter it would crowd moves to the
+// nearest clear cell instead of failing the seed; an authored one must be moved.
+function readEnemies(
+  grid: MazeGrid,
+  raw: unknown,
+  start: GridPoint | null,
+  goal: GridPoint | null,
+  generated: boolean,
+  issues: string[],
+): Hunter[] {
+  if (raw === undefined) {
+    return []
+  }
+  if (!Array.isArray(raw)) {
+    issues.push('enemies must be an array')
+    return []
+  }
+  const fromGoal = goal ? distanceField(grid, goal) : null
+  const enemies: Hunter[] = []
+  raw.forEach((item, i) => {
+    const path = `enemies[${i}]`
+    if (!isPoint(item) || !ENEMY_TYPES.includes((item as { type?: unknown }).type as string)) {
+      issues.push(`${path} must have a type (${ENEMY_TYPES.join(', ')}) and integer x and z`)
+      return
+    }
+    const spawn = item as GridPoint & Record<string, unknown>
+    const before = issues.length
+    if (!inBounds(grid, spawn.x, spawn.z) || grid[spawn.z][spawn.x] === CELL.WALL) {
+      issues.push(`${path} ${formatPoint(spawn)} must be on an open cell`)
+      return
+    }
+    if (start && start.x === spawn.x && start.z === spawn.z) {
+      issues.push(`${path} cannot spawn on the start cell`)
+    }
+    let at: GridPoint | null = { x: spawn.x, z: spawn.z }
+    const goalDistance = fromGoal?.[spawn.z][spawn.x] ?? -1
+    if (fromGoal && goalDistance >= 0 && goalDistance <= HUNTER_GOAL_CLEARANCE) {
+      at = generated ? nearestSpawnClearOfGoal(grid, spawn, fromGoal, start) : null
+      if (!at) {
+        issues.push(`${path} ${formatPoint(spawn)} must be more than ${HUNTER_GOAL_CLEARANCE} steps from the goal`)
+        return
+      }
+    }
+
+    const patrol: GridPoint[] = []
+    if (spawn.patrol !== undefined && !Array.isArray(spawn.patrol)) {
+      issues.push(`${path}.patrol must be an array of cells`)
+    } else {
+      ((spawn.patrol ?? []) as unknown[]).forEach((point, j) => {
+        if (!isPoint(point) || !inBounds(grid, point.x, point.z) || grid[point.z][point.x] === CELL.WALL) {
+          issues.push(`${path}.patrol[${j}] must be an open cell`)
+        } else if (!findPath(grid, spawn, point)) {
+          issues.push(`${path}.patrol[${j}] ${formatPoint(point)} is unreachable from the spawn`)
+        } else {
+          patrol.push({ x: point.x, z: point.z })
+        }
+      })
+    }
+
+    const tuning = {
+      speed: readNumber(spawn, 'speed', DEFAULT_HUNTER.speed, path, issues),
+      chaseSpeed: readNumber(spawn, 'chaseSpeed', DEFAULT_HUNTER.chaseSpeed, path, issues),
+      sightRange: readNumber(spawn, 'sightRange', DEFAULT_HUNTER.sightRange, path, issues),
+      catchRadius: readNumber(spawn, 'catchRadius', DEFAULT_HUNTER.catchRadius, path, issues),
+    }
+    if (issues.length === before) {
+      enemies.push({ type: 'hunter', x: at.x, z: at.z, patrol, ...tuning })
+    }
+  })
+  return enemies
+}
+
+function readTorches(grid: MazeGrid, raw: unknown, issues: string[]): Torch[] {
+  if (raw === undefined) {
+    return []
+  }
+  if (!Array.isArray(raw)) {
+    issues.push('torches must be an array')
+    return []
+  }
+  const torches: Torch[] = []
+  raw.forEach((item, i) => {
+    const path = `torches[${i}]`
+    if (!isPoint(item)) {
+      issues.push(`${path} must have integer x and z`)
+      return
+    }
+    const spawn = item as GridPoint & Record<string, unknown>
+    const before = issues.length
+    if (!inBounds(grid, spawn.x, spawn.z) || grid[spawn.z][spawn.x] === CELL.WALL) {
+      issues.push(`${path} ${formatPoint(spawn)} must be on an open cell`)
+    }
+    if (spawn.color !== undefined && typeof spawn.color !== 'string') {
+      issues.push(`${path}.color must be a CSS colour string`)
+    }
+    const intensity = readNumber(spawn, 'intensity', DEFAULT_TORCH.intensity, path, issues)
+    if (issues.length === before) {
+      const color = typeof spawn.color === 'string' ? spawn.color : DEFAULT_TORCH.color
+      torches.push({ x: spawn.x, z: spawn.z, color, intensity })
+    }
+  })
+  return torches
+}
+
+function readAction(
+  grid: MazeGrid,
+  raw: unknown,
+  path: string,
+  markers: GridPoint[],
+  decorations: Decoration[],
+  issues: string[],
+): TriggerAction | null {
+  if (!isRecord(raw) || !ACTION_TYPES.includes(raw.type as string)) {
+    issues.push(`${path} must have a type (${ACTION_TYPES.join(', ')})`)
+    return null
+  }
+  const before = issues.length
+  const at = readNumber(raw, 'at', 0, path, issues)
+  if (raw.type === 'lights-out') {
+    const duration = readNumber(raw, 'duration', 0, path, issues)
+    if (duration === 0 && issues.length === before) {
+      issues.push(`${path}.duration must be greater than zero`)
+    }
+    return issues.length === before ? { type: 'lights-out', at, duration } : null
+  }
+  if (raw.type === 'scare') {
+    if (raw.message !== undefined && typeof raw.message !== 'string') {
+      issues.push(`${path}.message must be a string`)
+      return null
+    }
+    return issues.length === before ? { type: 'scare', at, ...(raw.message ? { message: raw.message } : {}) } : null
+  }
+
+  const type = raw.type as CellEffect['type']
+  if (!isPoint(raw) || !inBounds(grid, raw.x, raw.z) || grid[raw.z][raw.x] === CELL.WALL) {
+    issues.push(`${path} must target an open cell with integer x and z`)
+    return null
+  }
+  const cell = formatPoint(raw)
+  const onMarker = markers.some(marker => marker.x === raw.x && marker.z === raw.z)
+  if (type === 'close-wall' || type === 'open-wall') {
+    // Sliding walls need somewhere to sink into, and must never seal a marker
+    if (grid[raw.z][raw.x] !== CELL.PATH || onMarker) {
+      issues.push(`${path} ${cell} must be an empty cell other than the start or goal`)
+    }
+  } else if (MARKER_SAFE_EFFECTS.includes(type) && onMarker) {
+    issues.push(`${path} ${cell} must not be the start or goal`)
+  } else if (type === 'lunge' && !decorations.some(d => d.type === 'skull' && d.x === raw.x && d.z === raw.z)) {
+    issues.push(`${path} ${cell} has no skull to lunge`)
+  }
+  return issues.length === before ? { type, at, x: raw.x, z: raw.z } : null
+}
+
+function inRegion(region: Record<string, unknown>, { x, z }: GridPoint): boolean {
+  const width = typeof region.width === 'number' ? region.width : 1
+  const height = typeof region.height === 'number' ? region.height : 1
+  return x >= (region.x as number) && x < (region.x as number) + width && z >= (region.z as number) && z < (region.z as number) + height
+}
+
+// Whether a trigger's effects would land on a marker, or a decoy would spring
+// as the player reaches the real goal
+function crowdsMarkers(region: Record<string, unknown>, actions: unknown[], markers: GridPoint[], goal: GridPoint | null): boolean {
+  return actions.some(action => {
+    if (!isRecord(action) || !MARKER_SAFE_EFFECTS.includes(action.type as string)) return false
+    if (markers.some(marker => marker.x === action.x && marker.z === action.z)) return true
+    return DECOY_EFFECTS.includes(action.type as string) && goal !== null && inRegion(region, goal)
+  })
+}
+
+// A generated goal can land anywhere, so a trigger it would crowd is dropped
+// instead of failing the seed; an authored one must be moved.
+function readTriggers(
+  grid: MazeGrid,
+  raw: unknown,
+  markers: GridPoint[],
+  goal: GridPoint | null,
+  generated: boolean,
+  decorations: Decoration[],
+  issues: string[],
+): Trigger[] {
+  if (raw === undefined) {
+    return []
+  }
+  if (!Array.isArray(raw)) {
+    issues.push('triggers must be an array')
+    return []
+  }
+  const triggers: Trigger[] = []
+  raw.forEach((item, i) => {
+    const path = `triggers[${i}]`
+    if (!isRecord(item) || !isPoint(item.region) || !Array.isArray(item.actions) || item.actions.length === 0) {
+      issues.push(`${path} must have a region with integer x and z and a non-empty list of actions`)
+      return
+    }
+    const before = issues.length
+    const region = item.region as GridPoint & Record<string, unknown>
+    const size = { width: region.width ?? 1, height: region.height ?? 1 }
+    if (!Number.isInteger(size.width) || !Number.isInteger(size.height) || (size.width as number) < 1 || (size.height as number) < 1) {
+      issues.push(`${path}.region width and height must be positive integers`)
+    } else if (!inBounds(grid, region.x, region.z) || !inBounds(grid, region.x + (size.width as number) - 1, region.z + (size.height as number) - 1)) {
+      issues.push(`${path}.region must lie inside the grid`)
+    }
+    if (item.once !== undefined && typeof item.once !== 'boolean') {
+      issues.push(`${path}.once must be true or false`)
+    }
+    if (crowdsMarkers(region, item.actions, markers, goal)) {
+      if (generated) return
+      if (goal && inRegion(region, goal)) {
+        issues.push(`${path}.region covers the goal, so its fake goal or shatter would play out on the real exit`)
+      }
+    }
+    const actions = item.actions.map((action, j) => readAction(grid, action, `${path}.actions[${j}]`, markers, decorations, issues))
+    if (issues.length === before) {
+      triggers.push({
+        region: { x: region.x, z: region.z, width: size.width as number, height: size.height as number },
+        once: item.once !== false,
+        actions: actions as TriggerAction[],
+      })
+    }
+  })
+  return triggers
+}
+
+function readBlackouts(raw: unknown, issues: string[]): Blackout[] {
+  if (raw === undefined) {
+    return []
+  }
+  if (!Array.isArray(raw)) {
+    issues.push('blackouts must be an array')
+    return []
+  }
+  const blackouts: Blackout[] = []
+  raw.forEach((item, i) => {
+    const path = `blackouts[${i}]`
+    if (!isRecord(item)) {
+      issues.push(`${path} must be an object with at and duration`)
+      return
+    }
+    const before = issues.length
+    const at = readNumber(item, 'at', 0, path, issues)
+    const duration = readNumber(item, 'duration', 0, path, issues)
+    if (duration === 0 && issues.length === before) {
+      issues.push(`${path}.duration must be greater than zero`)
+    }
+    if (issues.length === before) {
+      blackouts.push({ at, duration })
+    }
+  })
+  return blackouts.sort((a, b) => a.at - b.at)
+}
+
+// Closest plain path cell to `from`, by walking distance
+function nearestEmptyCell(grid: MazeGrid, from: GridPoint): GridPoint | null {
+  const distances = distanceField(grid, from)
+  let nearest: GridPoint | null = null
+  distances.forEach((row, z) => row.forEach((distance, x) => {
+    if (distance > 0 && grid[z][x] === CELL.PATH && (!nearest || distance < distances[nearest.z][nearest.x])) {
+      nearest = { x, z }
+    }
+  }))
+  return nearest
+}
+
+// Writes listed pickups and keys into the grid as cells, so the runtime only
+// ever looks in one place. A generated goal can land anywhere, so an item it
+// displaces moves to the nearest free cell instead of failing the seed.
+function stampItems(grid: MazeGrid, pickups: unknown, keys: unknown, issues: string[]) {
+  const stamp = (path: string, item: GridPoint, cell: number) => {
+    const marker = inBounds(grid, item.x, item.z) && (grid[item.z][item.x] === CELL.START || grid[item.z][item.x] === CELL.GOAL)
+    const target = marker ? nearestEmptyCell(grid, item) : item
+    if (!target || !inBounds(grid, target.x, target.z) || grid[target.z][target.x] !== CELL.PATH) {
+      issues.push(`${path} ${formatPoint(item)} must be on an empty open cell`)
+    } else {
+      grid[target.z][target.x] = cell
+    }
+  }
+  if (pickups !== undefined && !Array.isArray(pickups)) {
+    issues.push('pickups must be an array')
+  } else {
+    ((pickups ?? []) as unknown[]).forEach((item, i) => {
+      const type = (item as { type?: unknown })?.type as PickupType
+      if (!isPoint(item) || !PICKUP_TYPES.includes(type)) {
+        issues.push(`pickups[${i}] must have a type (${PICKUP_TYPES.join(', ')}) and integer x and z`)
+      } else {
+        stamp(`pickups[${i}]`, item, PICKUP_CELLS[type])
+      }
+    })
+  }
+  if (keys !== undefined && !Array.isArray(keys)) {
+    issues.push('keys must be an array')
+  } else {
+    ((keys ?? []) as unknown[]).forEach((item, i) => {
+      const color = (item as { color?: unknown })?.color as KeyColor
+      if (!isPoint(item) || !KEY_COLORS.includes(color)) {
+        issues.push(`keys[${i}] must have a color (${KEY_COLORS.join(', ')}) and integer x and z`)
+      } else {
+        stamp(`keys[${i}]`, item, keyCell(color))
+      }
+    })
+  }
+}
+
+function readGoalRequires(raw: unknown, issues: string[]): KeyColor[] {
+  if (raw === undefined) {
+    return []
+  }
+  if (!Array.isArray(raw) || raw.some(color => !KEY_COLORS.includes(color))) {
+    issues.push(`goalRequires must be a list of key colours (${KEY_COLORS.join(', ')})`)
+    return []
+  }
+  return [...new Set(raw as KeyColor[])]
+}
+
+// Every lock needs a key somewhere, or the level is only solvable by luck of layout
+function checkLocks(grid: MazeGrid, goalRequires: KeyColor[], issues: string[]) {
+  const keys = new Set(grid.flat().map(keyColor))
+  const locks = new Set([...grid.flat().map(doorColor), ...goalRequires])
+  KEY_COLORS.filter(color => locks.has(color) && !keys.has(color)).forEach(color => {
+    issues.push(`there is a ${color} lock but no ${color} key`)
+  })
+}
+
+function readNumber(raw: Record<string, unknown>, key: string, fallback: number, path: string, issues: string[]): number {
+  const value = raw[key]
+  if (value === undefined) return fallback
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+    issues.push(`${path}.${key} must be a non-negative number`)
+    return fallback
+  }
+  return value
+}
+
+function readTuning(raw: unknown, issues: string[]): LevelTuning {
+  if (raw === undefined) {
+    return DEFAULT_TUNING
+  }
+  if (!isRecord(raw)) {
+    issues.push('tuning must be an object')
+    return DEFAULT_TUNING
+  }
+  const fog = isRecord(raw.fog) ? raw.fog : {}
+  const lights = isRecord(raw.lights) ? raw.lights : {}
+  if (fog.color !== undefined && typeof fog.color !== 'string') {
+    issues.push('tuning.fog.color must be a CSS colour string')
+  }
+  if (raw.minimap !== undefined && typeof raw.minimap !== 'boolean') {
+    issues.push('tuning.minimap must be true or false')
+  }
+  const tuning: LevelTuning = {
+    fog: {
+      color: typeof fog.color === 'string' ? fog.color : DEFAULT_TUNING.fog.color,
+      near: readNumber(fog, 'near', DEFAULT_TUNING.fog.near, 'tuning.fog', issues),
+      far: readNumber(fog, 'far', DEFAULT_TUNING.fog.far, 'tuning.fog', issues),
+    },
+    lights: {
+      ambient: readNumber(lights, 'ambient', DEFAULT_TUNING.lights.ambient, 'tuning.lights', issues),
+      directional: readNumber(lights, 'directional', DEFAULT_TUNING.lights.directional, 'tuning.lights', issues),
+      accent: readNumber(lights, 'accent', DEFAULT_TUNING.lights.accent, 'tuning.lights', issues),
+    },
+    speed: readNumber(raw, 'speed', DEFAULT_TUNING.speed, 'tuning', issues),
+    minimap: typeof raw.minimap === 'boolean' ? raw.minimap : DEFAULT_TUNING.minimap,
+  }
+  if (tuning.fog.far <= tuning.fog.near) {
+    issues.push('tuning.fog.far must be greater than tuning.fog.near')
+  }
+  if (tuning.speed === 0) {
+    issues.push('tuning.speed must be greater than zero')
+  }
+  return tuning
+}
+
+// The grid with every cell a close-wall action targets shut, as if the
+// player had set off each of those triggers
+function withWallsClosed(grid: MazeGrid, triggers: Trigger[]): MazeGrid {
+  const closed = grid.map(row => [...row])
+  for (const { actions } of triggers) {
+    for (const action of actions) {
+      if (action.type === 'close-wall') closed[action.z][action.x] = CELL.WALL
+    }
+  }
+  return closed
+}
+
+// Parses untrusted level JSON, collecting every problem before throwing
+export function loadLevel(data: unknown, { seed }: LoadLevelOptions = {}): Level {
+  if (!isRecord(data)) {
+    throw new LevelValidationError('unknown', ['level must be a JSON object'])
+  }
+
+  const id = typeof data.id === 'string' && data.id.length > 0 ? data.id : 'unknown'
+  const issues: string[] = []
+
+  if (data.version !== LEVEL_FORMAT_VERSION) {
+    issues.push(`unsupported version ${JSON.stringify(data.version)} (expected ${LEVEL_FORMAT_VERSION})`)
+  }
+  if (id === 'unknown') {
+    issues.push('id must be a non-empty string')
+  }
+  if (typeof data.name !== 'string' || data.name.length === 0) {
+    issues.push('name must be a non-empty string')
+  }
+
+  let grid: MazeGrid | null = null
+  let generatedSeed: Seed | undefined
+  if (data.grid !== undefined && data.generator !== undefined) {
+    issues.push('level must define either grid or generator, not both')
+  } else if (data.grid !== undefined) {
+    grid = readGrid(data.grid, issues)
+  } else if (data.generator !== undefined) {
+    const generated = readGenerator(data.generator, seed, issues)
+    grid = generated?.grid ?? null
+    generatedSeed = generated?.seed
+  } else {
+    issues.push('level must define a grid or a generator')
+  }
+
+  const tuning = readTuning(data.tuning, issues)
+
+  if (!grid) {
+    throw new LevelValidationError(id, issues)
+  }
+
+  stampItems(grid, data.pickups, data.keys, issues)
+  const goalRequires = readGoalRequires(data.goalRequires, issues)
+  checkLocks(grid, goalRequires, issues)
+
+  const start = resolveMarker(grid, data.start, CELL.START, 'start', issues)
+  const goal = resolveMarker(grid, data.goal, CELL.GOAL, 'goal', issues)
+  const decorations = readDecorations(grid, data.decorations, issues)
+  const enemies = readEnemies(grid, data.enemies, start, goal, generatedSeed !== undefined, issues)
+  const markers = [start, goal].filter((marker): marker is GridPoint => marker !== null)
+  const triggers = readTriggers(grid, data.triggers, markers, goal, generatedSeed !== undefined, decorations, issues)
+  const torches = readTorches(grid, data.torches, issues)
+  const blackouts = readBlackouts(data.blackouts, issues)
+
+  if (start && goal) {
+    if (start.x === goal.x && start.z === goal.z) {
+      issues.push('start and goal must be different cells')
+    } else if (!canEscape(grid, start, goal, goalRequires)) {
+      issues.push(`goal ${formatPoint(goal)} is unreachable from start ${formatPoint(start)}`)
+    } else if (!canEscape(withWallsClosed(grid, triggers), start, goal, goalRequires)) {
+      issues.push(`goal ${formatPoint(goal)} is cut off from start once the triggered walls close`)
+    }
+  }
+
+  if (issues.length > 0 || !start || !goal) {
+    throw new LevelValidationError(id, issues)
+  }
+
+  // Normalise markers so the runtime grid uses the 0/1/2/3 encoding exactly once
+  const normalised = grid.map(row => row.map(cell => (cell === CELL.START || cell === CELL.GOAL ? CELL.PATH : cell)))
+  normalised[start.z][start.x] = CELL.START
+  normalised[goal.z][goal.x] = CELL.GOAL
+
+  return {
+    id,
+    name: data.name as string,
+    grid: normalised,
+    start,
+    goal,
+    decorations,
+    enemies,
+    torches,
+    blackouts,
+    goalRequires,
+    triggers,
+    tuning,
+    ...(generatedSeed !== undefined ? { seed: generatedSeed } : {}),
+  }
+}
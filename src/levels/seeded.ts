@@ -0,0 +1,42 @@
+import seededMaze from './data/seeded.json'
+import { Seed } from '../maze/random'
+
+// Generated from whatever seed it is given; the daily maze and shared
+// challenges both play it, so one seed is one layout for everybody
+export const SEEDED_LEVEL: unknown = seededMaze
+
+export const SEED_PARAM = 'seed'
+
+const MAX_SEED_LENGTH = 40
+const DAILY_PREFIX = 'daily-'
+
+// Keyed on the UTC date so the whole team gets the same maze whatever
+// their timezone
+export function dailySeed(date = new Date()): string {
+  return `${DAILY_PREFIX}${date.toISOString().slice(0, 10)}`
+}
+
+// Typed and linked seeds are kept as text: "42" and 42 hash differently
+export function normalizeSeed(text: string): string | null {
+  const seed = text.trim().slice(0, MAX_SEED_LENGTH)
+  return seed.length > 0 ? seed : null
+}
+
+export function seedFromUrl(search: string): string | null {
+  const seed = new URLSearchParams(search).get(SEED_PARAM)
+  return seed === null ? null : normalizeSeed(seed)
+}
+
+// The page's own address with only the seed left on it
+export function challengeUrl(seed: Seed, href: string): string {
+  const url = new URL(href)
+  url.search = ''
+  url.hash = ''
+  url.searchParams.set(SEED_PARAM, String(seed))
+  return url.toString()
+}
+
+export function describeSeed(seed: Seed): string {
+  const text = String(seed)
+  return text.startsWith(DAILY_PREFIX) ? `Daily maze ${text.slice(DAILY_PREFIX.length)}` : `Seed “${text}”`
+}
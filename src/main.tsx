@@ -1,7 +1,14 @@
 import { StrictMode } from 'react'
 import { createRoot } from 'react-dom/client'
+import { registerSW } from 'virtual:pwa-register'
+import '@fontsource/creepster'
+import '@fontsource/special-elite'
+import './index.css'
 import App from './App'
 
+// Caches the whole build on first load so the maze runs offline after that
+registerSW({ immediate: true })
+
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
     <App />
@@ -0,0 +1,86 @@
+import { useEffect, useRef } from 'react'
+import { CELL, GridPoint, MazeGrid, doorColor, gridHeight, gridWidth } from '../maze/grid'
+import { KEY_COLOR_HEX } from '../game/items'
+import { Exploration, isSeen, isVisited, isWallSeen } from './exploration'
+
+// Longest side of the map in CSS pixels
+const MAP_SIZE = 180
+
+export interface MinimapColors {
+  player: string
+  goal: string
+  highContrast: boolean
+}
+
+interface MinimapProps {
+  grid: MazeGrid
+  goal: GridPoint
+  exploration: Exploration
+  breadcrumbs: boolean
+  colors: MinimapColors
+}
+
+export default function Minimap({ grid, goal, exploration, breadcrumbs, colors }: MinimapProps) {
+  const canvas = useRef<HTMLCanvasElement>(null)
+  const cellSize = Math.max(1, Math.floor(MAP_SIZE / Math.max(gridWidth(grid), gridHeight(grid))))
+
+  // Exploration only changes when the player enters a cell, so polling the
+  // revision keeps redraws rare
+  useEffect(() => {
+    let drawn = -1
+    const draw = () => {
+      const context = canvas.current?.getContext('2d')
+      if (!context || exploration.revision === drawn) return
+      drawn = exploration.revision
+      context.clearRect(0, 0, context.canvas.width, context.canvas.height)
+      for (let z = 0; z < gridHeight(grid); z++) {
+        for (let x = 0; x < gridWidth(grid); x++) {
+          let fill: string | null = null
+          const door = doorColor(grid[z][x])
+          if (grid[z][x] === CELL.WALL) {
+            if (isWallSeen(exploration, grid, x, z)) fill = colors.highContrast ? '#e0e0e0' : '#6b1f1f'
+          } else if (door) {
+            if (isSeen(exploration, x, z)) fill = KEY_COLOR_HEX[door]
+          } else if (breadcrumbs && isVisited(exploration, x, z)) {
+            fill = colors.highContrast ? '#888888' : '#5c1a1a'
+          } else if (isSeen(exploration, x, z)) {
+            fill = colors.highContrast ? '#333333' : '#2a0c0c'
+          }
+          if (fill) {
+            context.fillStyle = fill
+            context.fillRect(x * cellSize, z * cellSize, cellSize, cellSize)
+          }
+        }
+      }
+      if (isSeen(exploration, goal.x, goal.z)) {
+        context.fillStyle = colors.goal
+        context.fillRect(goal.x * cellSize, goal.z * cellSize, cellSize, cellSize)
+      }
+      if (exploration.player) {
+        context.fillStyle = colors.player
+        context.beginPath()
+        context.arc(
+          (exploration.player.x + 0.5) * cellSize,
+          (exploration.player.z + 0.5) * cellSize,
+          Math.max(1.5, cellSize * 0.6),
+          0,
+          Math.PI * 2
+        )
+        context.fill()
+      }
+    }
+    draw()
+    const timer = setInterval(draw, 100)
+    return () => clearInterval(timer)
+  }, [grid, goal, exploration, breadcrumbs, colors, cellSize])
+
+  return (
+    <canvas
+      ref={canvas}
+      width={gridWidth(grid) * cellSize}
+      height={gridHeight(grid) * cellSize}
+      className="fixed top-16 right-4 z-40 rounded border border-red-900/60 bg-black/70"
+      aria-hidden
+    />
+  )
+}
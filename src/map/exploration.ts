@@ -0,0 +1,68 @@
+import { CELL, GridPoint, MazeGrid, gridHeight, gridWidth, inBounds } from '../maze/grid'
+import { hasLineOfSight } from '../maze/sight'
+
+// How far the player can make out corridors, in cells
+export const SIGHT_RADIUS = 6
+
+// Per-cell flags, updated in place: it changes every time the player enters
+// a new cell and is polled by the minimap, so copying would only churn memory
+export interface Exploration {
+  width: number
+  height: number
+  // 1 once an open cell has been in line of sight
+  seen: Uint8Array
+  // 1 once the player has stood in the cell; drives breadcrumbs
+  visited: Uint8Array
+  player: GridPoint | null
+  // Bumped on every change so renderers can skip redraws
+  revision: number
+}
+
+export function createExploration(grid: MazeGrid): Exploration {
+  const size = gridWidth(grid) * gridHeight(grid)
+  return {
+    width: gridWidth(grid),
+    height: gridHeight(grid),
+    seen: new Uint8Array(size),
+    visited: new Uint8Array(size),
+    player: null,
+    revision: 0,
+  }
+}
+
+export function isSeen(exploration: Exploration, x: number, z: number): boolean {
+  return exploration.seen[z * exploration.width + x] === 1
+}
+
+export function isVisited(exploration: Exploration, x: number, z: number): boolean {
+  return exploration.visited[z * exploration.width + x] === 1
+}
+
+// Walls have no line of sight to themselves, so one counts as seen when any
+// open cell beside it is
+export function isWallSeen(exploration: Exploration, grid: MazeGrid, x: number, z: number): boolean {
+  for (const [dx, dz] of [[1, 0], [-1, 0], [0, 1], [0, -1]]) {
+    const nx = x + dx
+    const nz = z + dz
+    if (inBounds(grid, nx, nz) && grid[nz][nx] !== CELL.WALL && isSeen(exploration, nx, nz)) return true
+  }
+  return false
+}
+
+// Marks the player's cell visited and every open cell within sight as seen
+export function explore(exploration: Exploration, grid: MazeGrid, cell: GridPoint, radius = SIGHT_RADIUS) {
+  const { width } = exploration
+  exploration.player = cell
+  exploration.visited[cell.z * width + cell.x] = 1
+  const eye = { x: cell.x + 0.5, z: cell.z + 0.5 }
+  for (let z = Math.max(0, cell.z - radius); z <= Math.min(exploration.height - 1, cell.z + radius); z++) {
+    for (let x = Math.max(0, cell.x - radius); x <= Math.min(width - 1, cell.x + radius); x++) {
+      const index = z * width + x
+      if (exploration.seen[index] || grid[z][x] === CELL.WALL) continue
+      if (hasLineOfSight(grid, eye, { x: x + 0.5, z: z + 0.5 }, radius)) {
+        exploration.seen[index] = 1
+      }
+    }
+  }
+  exploration.revision++
+}
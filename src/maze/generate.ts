@@ -0,0 +1,163 @@
+import { CELL, GridPoint, MazeGrid } from './grid'
+import { Random, Seed, createRandom, randomInt, shuffle } from './random'
+import { distanceField } from './solve'
+
+export type MazeAlgorithm = 'backtracker' | 'prim' | 'wilson'
+
+export const MAZE_ALGORITHMS: readonly MazeAlgorithm[] = ['backtracker', 'prim', 'wilson']
+
+export interface MazeOptions {
+  width: number
+  height: number
+  seed: Seed
+  algorithm?: MazeAlgorithm
+}
+
+export const MIN_MAZE_SIZE = 5
+
+// Rooms live on odd coordinates; the even rows/columns between them are
+// walls that the carvers knock through. Sizes are bumped to the next odd value.
+function normaliseSize(size: number): number {
+  const whole = Math.max(MIN_MAZE_SIZE, Math.floor(size))
+  return whole % 2 === 0 ? whole + 1 : whole
+}
+
+function roomNeighbours(cell: GridPoint, width: number, height: number): GridPoint[] {
+  const result: GridPoint[] = []
+  if (cell.z > 1) result.push({ x: cell.x, z: cell.z - 2 })
+  if (cell.x < width - 2) result.push({ x: cell.x + 2, z: cell.z })
+  if (cell.z < height - 2) result.push({ x: cell.x, z: cell.z + 2 })
+  if (cell.x > 1) result.push({ x: cell.x - 2, z: cell.z })
+  return result
+}
+
+function carve(grid: MazeGrid, from: GridPoint, to: GridPoint) {
+  grid[from.z][from.x] = CELL.PATH
+  grid[(from.z + to.z) / 2][(from.x + to.x) / 2] = CELL.PATH
+  grid[to.z][to.x] = CELL.PATH
+}
+
+function randomRoom(random: Random, width: number, height: number): GridPoint {
+  return {
+    x: 1 + 2 * randomInt(random, (width - 1) / 2),
+    z: 1 + 2 * randomInt(random, (height - 1) / 2),
+  }
+}
+
+function carveBacktracker(grid: MazeGrid, random: Random) {
+  const width = grid[0].length
+  const height = grid.length
+  const start = { x: 1, z: 1 }
+  const stack: GridPoint[] = [start]
+  grid[start.z][start.x] = CELL.PATH
+
+  while (stack.length > 0) {
+    const current = stack[stack.length - 1]
+    const unvisited = roomNeighbours(current, width, height)
+      .filter(next => grid[next.z][next.x] === CELL.WALL)
+    if (unvisited.length === 0) {
+      stack.pop()
+      continue
+    }
+    const next = unvisited[randomInt(random, unvisited.length)]
+    carve(grid, current, next)
+    stack.push(next)
+  }
+}
+
+function carvePrim(grid: MazeGrid, random: Random) {
+  const width = grid[0].length
+  const height = grid.length
+  const start = randomRoom(random, width, height)
+  grid[start.z][start.x] = CELL.PATH
+
+  // Frontier entries remember which carved room they were discovered from
+  const frontier: Array<{ from: GridPoint; to: GridPoint }> = roomNeighbours(start, width, height)
+    .map(to => ({ from: start, to }))
+
+  while (frontier.length > 0) {
+    const index = randomInt(random, frontier.length)
+    const { from, to } = frontier[index]
+    frontier[index] = frontier[frontier.length - 1]
+    frontier.pop()
+
+    if (grid[to.z][to.x] !== CELL.WALL) continue
+    carve(grid, from, to)
+    for (const next of roomNeighbours(to, width, height)) {
+      if (grid[next.z][next.x] === CELL.WALL) {
+        frontier.push({ from: to, to: next })
+      }
+    }
+  }
+}
+
+function carveWilson(grid: MazeGrid, random: Random) {
+  const width = grid[0].length
+  const height = grid.length
+  const key = (cell: GridPoint) => cell.z * width + cell.x
+
+  const remaining: GridPoint[] = []
+  for (let z = 1; z < height; z += 2) {
+    for (let x = 1; x < width; x += 2) {
+      remaining.push({ x, z })
+    }
+  }
+  shuffle(random, remaining)
+
+  const seedRoom = remaining.pop()!
+  grid[seedRoom.z][seedRoom.x] = CELL.PATH
+
+  while (remaining.length > 0) {
+    const start = remaining.pop()!
+    if (grid[start.z][start.x] !== CELL.WALL) continue
+
+    // Loop-erased random walk: the last exit taken from each room wins
+    const exits = new Map<number, GridPoint>()
+    let current = start
+    while (grid[current.z][current.x] === CELL.WALL) {
+      const options = roomNeighbours(current, width, height)
+      const next = options[randomInt(random, options.length)]
+      exits.set(key(current), next)
+      current = next
+    }
+
+    current = start
+    while (exits.has(key(current))) {
+      const next = exits.get(key(current))!
+      carve(grid, current, next)
+      current = next
+    }
+  }
+}
+
+const CARVERS: Record<MazeAlgorithm, (grid: MazeGrid, random: Random) => void> = {
+  backtracker: carveBacktracker,
+  prim: carvePrim,
+  wilson: carveWilson,
+}
+
+// Generates a perfect maze (exactly one route between any two rooms), so the
+// goal is always reachable. The goal is placed on the room furthest from start.
+export function generateMaze({ width, height, seed, algorithm = 'backtracker' }: MazeOptions): MazeGrid {
+  const w = normaliseSize(width)
+  const h = normaliseSize(height)
+  const grid: MazeGrid = Array.from({ length: h }, () => new Array<number>(w).fill(CELL.WALL))
+  const random = createRandom(seed)
+
+  CARVERS[algorithm](grid, random)
+
+  const start = { x: 1, z: 1 }
+  const distances = distanceField(grid, start)
+  let goal = start
+  for (let z = 1; z < h; z += 2) {
+    for (let x = 1; x < w; x += 2) {
+      if (distances[z][x] > distances[goal.z][goal.x]) {
+        goal = { x, z }
+      }
+    }
+  }
+
+  grid[start.z][start.x] = CELL.START
+  grid[goal.z][goal.x] = CELL.GOAL
+  return grid
+}
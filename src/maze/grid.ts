@@ -0,0 +1,119 @@
+// Maze grid encoding: 1 = wall, 0 = path, 2 = start, 3 = goal. Higher values
+// are open cells holding something: pickups, keys, locked doors or gates.
+export const CELL = {
+  PATH: 0,
+  WALL: 1,
+  START: 2,
+  GOAL: 3,
+  BATTERY: 4,
+  EXTRA_LIFE: 5,
+  TIME_BONUS: 6,
+  KEY_RED: 7,
+  KEY_BLUE: 8,
+  KEY_YELLOW: 9,
+  DOOR_RED: 10,
+  DOOR_BLUE: 11,
+  DOOR_YELLOW: 12,
+  // One-way gates, passable only while travelling in their direction
+  GATE_NORTH: 13,
+  GATE_EAST: 14,
+  GATE_SOUTH: 15,
+  GATE_WEST: 16,
+} as const
+
+const HIGHEST_CELL = CELL.GATE_WEST
+
+export type KeyColor = 'red' | 'blue' | 'yellow'
+
+// Same order as the KEY_ and DOOR_ cell values
+export const KEY_COLORS: readonly KeyColor[] = ['red', 'blue', 'yellow']
+
+export type PickupType = 'battery' | 'life' | 'time'
+
+export const PICKUP_CELLS: Record<PickupType, number> = {
+  battery: CELL.BATTERY,
+  life: CELL.EXTRA_LIFE,
+  time: CELL.TIME_BONUS,
+}
+
+export type GateDirection = 'north' | 'east' | 'south' | 'west'
+
+// Same order as the GATE_ cell values and NEIGHBOURS
+export const GATE_DIRECTIONS: readonly GateDirection[] = ['north', 'east', 'south', 'west']
+
+export type MazeGrid = number[][]
+
+export interface GridPoint {
+  x: number
+  z: number
+}
+
+export const NEIGHBOURS: readonly GridPoint[] = [
+  { x: 0, z: -1 },
+  { x: 1, z: 0 },
+  { x: 0, z: 1 },
+  { x: -1, z: 0 },
+]
+
+export function isKnownCell(value: unknown): value is number {
+  return Number.isInteger(value) && (value as number) >= CELL.PATH && (value as number) <= HIGHEST_CELL
+}
+
+export function keyCell(color: KeyColor): number {
+  return CELL.KEY_RED + KEY_COLORS.indexOf(color)
+}
+
+export function doorCell(color: KeyColor): number {
+  return CELL.DOOR_RED + KEY_COLORS.indexOf(color)
+}
+
+export function gateCell(direction: GateDirection): number {
+  return CELL.GATE_NORTH + GATE_DIRECTIONS.indexOf(direction)
+}
+
+export function keyColor(value: number): KeyColor | null {
+  return value >= CELL.KEY_RED && value <= CELL.KEY_YELLOW ? KEY_COLORS[value - CELL.KEY_RED] : null
+}
+
+export function doorColor(value: number): KeyColor | null {
+  return value >= CELL.DOOR_RED && value <= CELL.DOOR_YELLOW ? KEY_COLORS[value - CELL.DOOR_RED] : null
+}
+
+// Unit step a gate lets the player through in
+export function gateDirection(value: number): GridPoint | null {
+  return value >= CELL.GATE_NORTH && value <= CELL.GATE_WEST ? NEIGHBOURS[value - CELL.GATE_NORTH] : null
+}
+
+export function pickupType(value: number): PickupType | null {
+  const entry = Object.entries(PICKUP_CELLS).find(([, cell]) => cell === value)
+  return entry ? (entry[0] as PickupType) : null
+}
+
+export function gridWidth(grid: MazeGrid): number {
+  return grid[0]?.length ?? 0
+}
+
+export function gridHeight(grid: MazeGrid): number {
+  return grid.length
+}
+
+export function inBounds(grid: MazeGrid, x: number, z: number): boolean {
+  return z >= 0 && z < grid.length && x >= 0 && x < grid[z].length
+}
+
+// Locked doors count as solid: only a player holding the key gets through,
+// and the simulation handles that case itself
+export function isWalkable(grid: MazeGrid, x: number, z: number): boolean {
+  return inBounds(grid, x, z) && grid[z][x] !== CELL.WALL && doorColor(grid[z][x]) === null
+}
+
+export function findCell(grid: MazeGrid, value: number): GridPoint | null {
+  for (let z = 0; z < grid.length; z++) {
+    for (let x = 0; x < grid[z].length; x++) {
+      if (grid[z][x] === value) {
+        return { x, z }
+      }
+    }
+  }
+  return null
+}
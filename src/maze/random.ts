@@ -0,0 +1,46 @@
+export type Seed = number | string
+
+export type Random = () => number
+
+// FNV-1a, so text seeds ("daily-2024-01-01") map to stable integers
+export function hashSeed(seed: Seed): number {
+  if (typeof seed === 'number') {
+    return seed >>> 0
+  }
+  let hash = 0x811c9dc5
+  for (let i = 0; i < seed.length; i++) {
+    hash ^= seed.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return hash >>> 0
+}
+
+// mulberry32: tiny, fast and good enough for level generation
+export function createRandom(seed: Seed): Random {
+  let state = hashSeed(seed)
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+export function randomInt(random: Random, maxExclusive: number): number {
+  return Math.floor(random() * maxExclusive)
+}
+
+export function shuffle<T>(random: Random, items: T[]): T[] {
+  for (let i = items.length - 1; i > 0; i--) {
+    const j = randomInt(random, i + 1)
+    const tmp = items[i]
+    items[i] = items[j]
+    items[j] = tmp
+  }
+  return items
+}
+
+export function randomSeed(): number {
+  return Math.floor(Math.random() * 0xffffffff)
+}
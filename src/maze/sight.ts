@@ -0,0 +1,27 @@
+import { CELL, MazeGrid } from './grid'
+
+interface Point {
+  x: number
+  z: number
+}
+
+// Samples the segment in grid units (cell (x, z) spans x..x+1); any wall or
+// out-of-bounds sample blocks the view.
+export function hasLineOfSight(grid: MazeGrid, from: Point, to: Point, maxDistance = Infinity): boolean {
+  const dx = to.x - from.x
+  const dz = to.z - from.z
+  const distance = Math.sqrt(dx * dx + dz * dz)
+  if (distance > maxDistance) {
+    return false
+  }
+
+  const steps = Math.max(1, Math.ceil(distance * 4))
+  for (let i = 0; i <= steps; i++) {
+    const x = Math.floor(from.x + (dx * i) / steps)
+    const z = Math.floor(from.z + (dz * i) / steps)
+    if (grid[z]?.[x] === undefined || grid[z][x] === CELL.WALL) {
+      return false
+    }
+  }
+  return true
+}
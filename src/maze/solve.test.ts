@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest'
+import { CELL, MazeGrid } from './grid'
+import { MAZE_ALGORITHMS, generateMaze } from './generate'
+import { canEscape, findPath, isSolvable } from './solve'
+
+const { PATH: O, WALL: W, START: S, GOAL: G } = CELL
+
+describe('isSolvable', () => {
+  it('accepts a maze with a route from start to goal', () => {
+    expect(isSolvable([
+      [W, W, W, W, W],
+      [W, S, O, G, W],
+      [W, W, W, W, W],
+    ])).toBe(true)
+  })
+
+  it('rejects a goal sealed off by walls', () => {
+    expect(isSolvable([
+      [W, W, W, W, W],
+      [W, S, W, G, W],
+      [W, W, W, W, W],
+    ])).toBe(false)
+  })
+
+  it('rejects grids missing a start or goal', () => {
+    expect(isSolvable([[S, O, O]])).toBe(false)
+    expect(isSolvable([[O, O, G]])).toBe(false)
+  })
+
+  it('does not cut corners diagonally', () => {
+    expect(isSolvable([
+      [S, W],
+      [W, G],
+    ])).toBe(false)
+  })
+
+  it.each(MAZE_ALGORITHMS)('holds for every %s maze', algorithm => {
+    for (let seed = 0; seed < 25; seed++) {
+      const grid = generateMaze({ width: 15, height: 11, algorithm, seed })
+      expect(isSolvable(grid), `${algorithm} seed ${seed}`).toBe(true)
+    }
+  })
+})
+
+describe('findPath', () => {
+  it('returns the shortest route, both ends included', () => {
+    const grid: MazeGrid = [
+      [O, O, O],
+      [O, W, O],
+      [O, O, O],
+    ]
+    const path = findPath(grid, { x: 0, z: 0 }, { x: 2, z: 2 })
+    expect(path).toHaveLength(5)
+    expect(path?.[0]).toEqual({ x: 0, z: 0 })
+    expect(path?.[4]).toEqual({ x: 2, z: 2 })
+  })
+})
+
+describe('canEscape', () => {
+  const R = CELL.KEY_RED
+  const D = CELL.DOOR_RED
+  const E = CELL.GATE_EAST
+
+  it('needs the key before the door opens', () => {
+    const locked: MazeGrid = [[S, D, G]]
+    expect(canEscape(locked, { x: 0, z: 0 }, { x: 2, z: 0 })).toBe(false)
+    const withKey: MazeGrid = [
+      [S, D, G],
+      [R, W, W],
+    ]
+    expect(canEscape(withKey, { x: 0, z: 0 }, { x: 2, z: 0 })).toBe(true)
+  })
+
+  it('requires keys the goal asks for even with no door in the way', () => {
+    const grid: MazeGrid = [[S, O, G]]
+    expect(canEscape(grid, { x: 0, z: 0 }, { x: 2, z: 0 }, ['red'])).toBe(false)
+  })
+
+  it('only lets gates be passed in their direction', () => {
+    expect(canEscape([[S, E, G]], { x: 0, z: 0 }, { x: 2, z: 0 })).toBe(true)
+    expect(canEscape([[G, E, S]], { x: 2, z: 0 }, { x: 0, z: 0 })).toBe(false)
+  })
+})
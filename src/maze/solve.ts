@@ -0,0 +1,109 @@
+import {
+  CELL,
+  GridPoint,
+  KEY_COLORS,
+  KeyColor,
+  MazeGrid,
+  NEIGHBOURS,
+  doorColor,
+  findCell,
+  gateDirection,
+  inBounds,
+  isWalkable,
+  keyColor,
+} from './grid'
+
+// Breadth-first distances from `from`; unreachable cells stay at -1
+export function distanceField(grid: MazeGrid, from: GridPoint): number[][] {
+  const distances = grid.map(row => row.map(() => -1))
+  if (!isWalkable(grid, from.x, from.z)) {
+    return distances
+  }
+
+  distances[from.z][from.x] = 0
+  const queue: GridPoint[] = [from]
+  for (let head = 0; head < queue.length; head++) {
+    const cell = queue[head]
+    for (const dir of NEIGHBOURS) {
+      const x = cell.x + dir.x
+      const z = cell.z + dir.z
+      if (isWalkable(grid, x, z) && distances[z][x] === -1) {
+        distances[z][x] = distances[cell.z][cell.x] + 1
+        queue.push({ x, z })
+      }
+    }
+  }
+
+  return distances
+}
+
+// Shortest path between two cells (inclusive), or null when there is none
+export function findPath(grid: MazeGrid, from: GridPoint, to: GridPoint): GridPoint[] | null {
+  const distances = distanceField(grid, to)
+  if (distances[from.z]?.[from.x] === undefined || distances[from.z][from.x] < 0) {
+    return null
+  }
+
+  const path: GridPoint[] = [from]
+  let current = from
+  while (current.x !== to.x || current.z !== to.z) {
+    const step = NEIGHBOURS
+      .map(dir => ({ x: current.x + dir.x, z: current.z + dir.z }))
+      .find(next => distances[next.z]?.[next.x] === distances[current.z][current.x] - 1)
+    if (!step) {
+      return null
+    }
+    path.push(step)
+    current = step
+  }
+
+  return path
+}
+
+export function isSolvable(grid: MazeGrid): boolean {
+  const start = findCell(grid, CELL.START)
+  const goal = findCell(grid, CELL.GOAL)
+  return start !== null && goal !== null && findPath(grid, start, goal) !== null
+}
+
+// Whether the goal can be reached holding every required key, taking locked
+// doors, keys picked up on the way and one-way gates into account. Searches
+// (cell, keys held) pairs, since a gate can strand a player who took the
+// wrong key first.
+export function canEscape(grid: MazeGrid, start: GridPoint, goal: GridPoint, requiredKeys: readonly KeyColor[] = []): boolean {
+  const width = grid[0]?.length ?? 0
+  const bit = (color: KeyColor) => 1 << KEY_COLORS.indexOf(color)
+  const required = requiredKeys.reduce((mask, color) => mask | bit(color), 0)
+  const states = 1 << KEY_COLORS.length
+  const pickUp = (x: number, z: number, mask: number) => {
+    const color = keyColor(grid[z][x])
+    return color ? mask | bit(color) : mask
+  }
+
+  const seen = new Uint8Array(width * grid.length * states)
+  const first = { x: start.x, z: start.z, mask: pickUp(start.x, start.z, 0) }
+  const queue = [first]
+  seen[(first.z * width + first.x) * states + first.mask] = 1
+  for (let head = 0; head < queue.length; head++) {
+    const { x, z, mask } = queue[head]
+    if (x === goal.x && z === goal.z && (mask & required) === required) {
+      return true
+    }
+    for (const dir of NEIGHBOURS) {
+      const nx = x + dir.x
+      const nz = z + dir.z
+      if (!inBounds(grid, nx, nz) || grid[nz][nx] === CELL.WALL) continue
+      const door = doorColor(grid[nz][nx])
+      if (door && !(mask & bit(door))) continue
+      // A gate can only be entered from the cell behind it
+      const gate = gateDirection(grid[nz][nx])
+      if (gate && (gate.x !== dir.x || gate.z !== dir.z)) continue
+      const nextMask = pickUp(nx, nz, mask)
+      const index = (nz * width + nx) * states + nextMask
+      if (seen[index]) continue
+      seen[index] = 1
+      queue.push({ x: nx, z: nz, mask: nextMask })
+    }
+  }
+  return false
+}
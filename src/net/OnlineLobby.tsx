@@ -0,0 +1,169 @@
+import { FormEvent, useState } from 'react'
+import { browserStore, readJson, writeJson } from '../storage/keyValue'
+import { DEFAULT_RELAY_URL, MIN_RACERS, RoomState, Standing } from './protocol'
+import StandingsList from './StandingsList'
+
+const ONLINE_KEY = 'maze.online.v1'
+
+export interface JoinDetails {
+  url: string
+  room: string
+  name: string
+  // Campaign level to race if this join creates the room
+  levelIndex: number
+}
+
+interface OnlineLobbyProps {
+  levels: readonly string[]
+  // Level of the room once joined
+  levelName: string
+  connecting: boolean
+  room: RoomState | null
+  selfId: string | null
+  // The last race's final standings, if any
+  results: Standing[] | null
+  error: string | null
+  onJoin: (details: JoinDetails) => void
+  onReady: (ready: boolean) => void
+  onLeave: () => void
+}
+
+function loadJoinDetails(): JoinDetails {
+  const saved = readJson<Partial<JoinDetails>>(browserStore, ONLINE_KEY)
+  return {
+    url: typeof saved?.url === 'string' ? saved.url : DEFAULT_RELAY_URL,
+    room: typeof saved?.room === 'string' ? saved.room : 'crypt',
+    name: typeof saved?.name === 'string' ? saved.name : '',
+    levelIndex: 0,
+  }
+}
+
+export default function OnlineLobby({
+  levels,
+  levelName,
+  connecting,
+  room,
+  selfId,
+  results,
+  error,
+  onJoin,
+  onReady,
+  onLeave,
+}: OnlineLobbyProps) {
+  const [details, setDetails] = useState<JoinDetails>(loadJoinDetails)
+  const self = room?.players.find(player => player.id === selfId)
+  const inputClass = 'w-full px-3 py-2 rounded border border-red-900 bg-black/70 text-gray-200 focus:outline-none focus:border-red-500'
+  const buttonClass = 'px-6 py-3 rounded border border-red-900 bg-black/70 hover:bg-red-900/50 transition-colors disabled:opacity-40'
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault()
+    const { url, room: roomName, name } = details
+    writeJson(browserStore, ONLINE_KEY, { url, room: roomName, name })
+    onJoin({ ...details, room: roomName.trim(), name: name.trim() })
+  }
+
+  const field = (key: 'url' | 'room' | 'name') => ({
+    value: details[key],
+    onChange: (e: { target: { value: string } }) => setDetails(current => ({ ...current, [key]: e.target.value })),
+  })
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex flex-col items-center justify-center gap-6 p-4 overflow-y-auto text-gray-300"
+      style={{
+        background: 'linear-gradient(180deg, #0a0000 0%, #1a0505 50%, #0a0000 100%)',
+        fontFamily: "'Special Elite', cursive",
+      }}
+    >
+      <h2 className="text-5xl text-red-600" style={{ fontFamily: "'Creepster', cursive" }}>
+        Online race
+      </h2>
+
+      {!room ? (
+        <form onSubmit={handleSubmit} className="w-full max-w-sm flex flex-col gap-3">
+          <label className="flex flex-col gap-1 text-sm">
+            Relay
+            <input
+              {...field('url')}
+              type="url"
+              pattern="wss?://.+"
+              title="A relay address starting with ws:// or wss://"
+              className={inputClass}
+              required
+            />
+          </label>
+          <label className="flex flex-col gap-1 text-sm">
+            Room
+            <input {...field('room')} className={inputClass} maxLength={20} required />
+          </label>
+          <label className="flex flex-col gap-1 text-sm">
+            Your name
+            <input {...field('name')} className={inputClass} maxLength={20} required autoFocus />
+          </label>
+          <label className="flex flex-col gap-1 text-sm">
+            Maze, if you are opening the room
+            <select
+              value={details.levelIndex}
+              onChange={e => setDetails(current => ({ ...current, levelIndex: Number(e.target.value) }))}
+              className={inputClass}
+            >
+              {levels.map((name, i) => (
+                <option key={name} value={i}>{name}</option>
+              ))}
+            </select>
+          </label>
+          <button type="submit" disabled={connecting} className={`${buttonClass} text-white bg-red-800 hover:bg-red-700`}>
+            {connecting ? 'Connecting…' : 'Join room'}
+          </button>
+          <p className="text-xs text-gray-500">Start a relay with <code>npm run relay</code>.</p>
+        </form>
+      ) : (
+        <div className="w-full max-w-md flex flex-col gap-4">
+          <p className="text-center text-sm text-gray-500">
+            Room <span className="text-gray-300">{room.room}</span> · {levelName} · {room.mode}
+          </p>
+          <ul className="flex flex-col gap-2" aria-label="Racers">
+            {room.players.map(player => (
+              <li key={player.id} className="flex items-center justify-between px-4 py-2 rounded border border-red-900 bg-black/70">
+                <span style={{ color: player.color }}>
+                  {player.name}
+                  {player.id === selfId && ' (you)'}
+                  {player.id === room.hostId && <span className="ml-2 text-xs text-gray-500">host</span>}
+                </span>
+                <span className={player.ready ? 'text-green-400' : 'text-gray-500'}>{player.ready ? 'Ready' : 'Not ready'}</span>
+              </li>
+            ))}
+          </ul>
+          <p className="text-center text-sm text-gray-500" role="status">
+            {room.phase === 'racing'
+              ? 'A race is still running; you can ready up once it ends.'
+              : room.players.length < MIN_RACERS
+                ? `Waiting for at least ${MIN_RACERS} racers…`
+                : 'The countdown starts when everyone is ready.'}
+          </p>
+          {results && (
+            <div>
+              <h3 className="mb-2 text-center text-gray-400">Last race</h3>
+              <StandingsList standings={results} selfId={selfId} />
+            </div>
+          )}
+          <div className="flex justify-center gap-3">
+            <button
+              onClick={() => onReady(!self?.ready)}
+              disabled={room.phase !== 'lobby'}
+              className={`${buttonClass} ${self?.ready ? '' : 'text-white bg-red-800 hover:bg-red-700'}`}
+            >
+              {self?.ready ? 'Not ready' : 'Ready'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {error && <div className="max-w-md text-center text-sm text-red-400" role="alert">{error}</div>}
+
+      <button onClick={onLeave} className={buttonClass}>
+        {room ? 'Leave room' : '◀ Back'}
+      </button>
+    </div>
+  )
+}
@@ -0,0 +1,42 @@
+import { Standing } from './protocol'
+import StandingsList from './StandingsList'
+
+interface OnlineResultsProps {
+  standings: Standing[]
+  final: boolean
+  selfId: string | null
+  accentColor: string
+  onBackToLobby: () => void
+}
+
+// Stands in for the win screen in an online race; the relay's order is the
+// only one that counts, so nothing here is worked out locally
+export default function OnlineResults({ standings, final, selfId, accentColor, onBackToLobby }: OnlineResultsProps) {
+  const place = standings.findIndex(standing => standing.id === selfId) + 1
+  const stillLost = standings.filter(standing => standing.time === null).length
+
+  return (
+    <div className="fixed inset-0 z-50 flex flex-col items-center justify-center gap-6 bg-black/90 p-4 text-gray-300">
+      <h2
+        className="text-6xl md:text-8xl text-center"
+        style={{ fontFamily: "'Creepster', cursive", color: accentColor, textShadow: `0 0 30px ${accentColor}` }}
+      >
+        {place === 1 ? 'YOU ESCAPED FIRST' : 'YOU ESCAPED'}
+      </h2>
+      <div className="w-full max-w-md">
+        <StandingsList standings={standings} selfId={selfId} />
+      </div>
+      <p className="text-sm text-gray-500" style={{ fontFamily: "'Special Elite', cursive" }} role="status">
+        {final || stillLost === 0 ? 'The race is over.' : `Waiting for ${stillLost} still in the maze…`}
+      </p>
+      <button
+        onClick={onBackToLobby}
+        className="px-6 py-3 rounded bg-red-800 text-white hover:bg-red-700 transition-colors"
+        style={{ fontFamily: "'Special Elite', cursive" }}
+        autoFocus
+      >
+        Back to lobby
+      </button>
+    </div>
+  )
+}
@@ -0,0 +1,30 @@
+import { Standing } from './protocol'
+import { formatRaceTime } from '../race/race'
+
+const PLACE_SUFFIXES = ['th', 'st', 'nd', 'rd']
+
+function ordinal(place: number): string {
+  const teens = place % 100 >= 11 && place % 100 <= 13
+  return `${place}${teens ? 'th' : PLACE_SUFFIXES[place % 10] ?? 'th'}`
+}
+
+// The relay's ranking, as received; escapees first in the order it saw them
+export default function StandingsList({ standings, selfId }: { standings: Standing[]; selfId: string | null }) {
+  return (
+    <ol className="flex flex-col gap-2" style={{ fontFamily: "'Special Elite', cursive" }}>
+      {standings.map((standing, i) => (
+        <li
+          key={standing.id}
+          className={`flex items-center justify-between gap-4 px-4 py-2 rounded border bg-black/70 ${standing.id === selfId ? 'border-red-500' : 'border-red-900'}`}
+        >
+          <span className="w-10 text-gray-500">{standing.time === null ? '—' : ordinal(i + 1)}</span>
+          <span className="flex-1" style={{ color: standing.color }}>{standing.name}</span>
+          <span className="tabular-nums">{standing.time === null ? 'Still lost' : formatRaceTime(standing.time)}</span>
+          <span className="w-24 text-right text-sm text-gray-500">
+            {standing.deaths} {standing.deaths === 1 ? 'death' : 'deaths'}
+          </span>
+        </li>
+      ))}
+    </ol>
+  )
+}
@@ -0,0 +1,99 @@
+import { ClientMessage, JoinMessage, PROTOCOL_VERSION, ProtocolError, ServerMessage, parseServerMessage } from './protocol'
+import { ClockSample, estimateClockOffset } from './sync'
+
+// A burst of pings on connect settles the clock before any countdown; a slow
+// trickle afterwards catches drift and a better sample if one comes along
+const INITIAL_PINGS = 5
+const INITIAL_PING_SPACING_MS = 200
+const PING_INTERVAL_MS = 5000
+const MAX_CLOCK_SAMPLES = 20
+
+export interface RelayHandlers {
+  onMessage: (message: ServerMessage) => void
+  // Called once, whoever closed the connection
+  onClose: (reason: string) => void
+}
+
+export interface RelayConnection {
+  send(message: ClientMessage): void
+  // Relay time at this moment, in milliseconds
+  serverNow(): number
+  close(): void
+}
+
+export function connectToRelay(
+  url: string,
+  join: Omit<JoinMessage, 'type' | 'version'>,
+  handlers: RelayHandlers,
+): RelayConnection {
+  let socket: WebSocket
+  try {
+    socket = new WebSocket(url)
+  } catch {
+    // A malformed address throws straight away; report it the way a failed
+    // connection is reported, once the caller has the connection in hand
+    let closed = false
+    queueMicrotask(() => {
+      if (!closed) handlers.onClose(`${url} is not a relay address (it should start with ws:// or wss://)`)
+    })
+    return {
+      send: () => {},
+      serverNow: () => performance.now(),
+      close: () => {
+        closed = true
+      },
+    }
+  }
+  const samples: ClockSample[] = []
+  const timers: ReturnType<typeof setTimeout>[] = []
+  let keepAlive: ReturnType<typeof setInterval> | undefined
+  let offset = 0
+  let closed = false
+
+  const send = (message: ClientMessage) => {
+    if (socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message))
+  }
+  const ping = () => send({ type: 'ping', sent: performance.now() })
+
+  const finish = (reason: string) => {
+    if (closed) return
+    closed = true
+    timers.forEach(clearTimeout)
+    clearInterval(keepAlive)
+    if (socket.readyState === WebSocket.OPEN || socket.readyState === WebSocket.CONNECTING) socket.close()
+    handlers.onClose(reason)
+  }
+
+  socket.addEventListener('open', () => {
+    send({ type: 'join', version: PROTOCOL_VERSION, ...join })
+    for (let i = 0; i < INITIAL_PINGS; i++) timers.push(setTimeout(ping, i * INITIAL_PING_SPACING_MS))
+    keepAlive = setInterval(ping, PING_INTERVAL_MS)
+  })
+
+  socket.addEventListener('message', event => {
+    let message: ServerMessage
+    try {
+      message = parseServerMessage(String(event.data))
+    } catch (error) {
+      finish(error instanceof ProtocolError ? error.message : 'The relay sent something unreadable')
+      return
+    }
+    if (message.type === 'pong') {
+      samples.push({ sent: message.sent, received: performance.now(), serverTime: message.serverTime })
+      if (samples.length > MAX_CLOCK_SAMPLES) samples.shift()
+      offset = estimateClockOffset(samples)
+      return
+    }
+    handlers.onMessage(message)
+  })
+
+  socket.addEventListener('close', event => {
+    finish(event.reason || (event.wasClean ? 'The relay closed the connection' : `Could not reach the relay at ${url}`))
+  })
+
+  return {
+    send,
+    serverNow: () => performance.now() + offset,
+    close: () => finish('You left the race'),
+  }
+}
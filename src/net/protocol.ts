@@ -0,0 +1,148 @@
+import { DIFFICULTY_MODES, DifficultyMode } from '../game/difficulty'
+
+// Messages are JSON text frames. server/relay.js speaks the other side and
+// must be kept in step with this file.
+export const PROTOCOL_VERSION = 1
+
+export const DEFAULT_RELAY_URL = 'ws://localhost:8787'
+
+// The relay won't start a countdown for fewer racers than this
+export const MIN_RACERS = 2
+
+// How often each racer reports where they are
+export const SNAPSHOT_INTERVAL_MS = 66
+
+export type RoomPhase = 'lobby' | 'countdown' | 'racing'
+
+export interface RoomPlayer {
+  id: string
+  name: string
+  color: string
+  ready: boolean
+}
+
+export interface RoomState {
+  room: string
+  phase: RoomPhase
+  hostId: string
+  // The host's choice of maze, shared by everyone in the room
+  levelId: string
+  seed: number
+  mode: DifficultyMode
+  players: RoomPlayer[]
+}
+
+export interface Standing {
+  id: string
+  name: string
+  color: string
+  deaths: number
+  // Milliseconds from the start as the relay saw it, or null if still lost
+  time: number | null
+}
+
+export interface JoinMessage {
+  type: 'join'
+  version: typeof PROTOCOL_VERSION
+  room: string
+  name: string
+  // Only used when this join creates the room
+  levelId: string
+  seed: number
+  mode: DifficultyMode
+}
+
+// `time` is milliseconds since the race started on the shared clock;
+// `attempt` changes on every respawn so nobody is drawn sliding back to the start
+export interface PositionSnapshot {
+  time: number
+  attempt: number
+  x: number
+  z: number
+}
+
+export type ClientMessage =
+  | JoinMessage
+  | { type: 'ready'; ready: boolean }
+  | { type: 'ping'; sent: number }
+  | ({ type: 'snapshot' } & PositionSnapshot)
+  | { type: 'finish'; deaths: number }
+
+export type ServerMessage =
+  | { type: 'welcome'; id: string }
+  | { type: 'pong'; sent: number; serverTime: number }
+  | ({ type: 'room' } & RoomState)
+  | { type: 'countdown'; startAt: number }
+  | ({ type: 'snapshot'; id: string } & PositionSnapshot)
+  // Sent on every escape, in the relay's order; `final` once the race is over
+  | { type: 'standings'; standings: Standing[]; final: boolean }
+  | { type: 'error'; message: string }
+
+export class ProtocolError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ProtocolError'
+  }
+}
+
+type Fields = Record<string, unknown>
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value)
+const isString = (value: unknown): value is string => typeof value === 'string'
+
+function isPlayer(value: unknown): value is RoomPlayer {
+  const player = value as Fields
+  return typeof value === 'object' && value !== null &&
+    isString(player.id) && isString(player.name) && isString(player.color) && typeof player.ready === 'boolean'
+}
+
+function isStanding(value: unknown): value is Standing {
+  const standing = value as Fields
+  return typeof value === 'object' && value !== null &&
+    isString(standing.id) && isString(standing.name) && isString(standing.color) && isNumber(standing.deaths) &&
+    (standing.time === null || isNumber(standing.time))
+}
+
+const PHASES: readonly RoomPhase[] = ['lobby', 'countdown', 'racing']
+
+// Only the fields each message needs are checked; anything extra from a
+// newer relay is ignored
+export function parseServerMessage(data: string): ServerMessage {
+  let message: Fields
+  try {
+    message = JSON.parse(data)
+  } catch {
+    throw new ProtocolError('Relay sent something that is not JSON')
+  }
+  if (typeof message !== 'object' || message === null) {
+    throw new ProtocolError('Relay sent something that is not a message')
+  }
+  const valid = (() => {
+    switch (message.type) {
+      case 'welcome':
+        return isString(message.id)
+      case 'pong':
+        return isNumber(message.sent) && isNumber(message.serverTime)
+      case 'room':
+        return isString(message.room) && PHASES.includes(message.phase as RoomPhase) && isString(message.hostId) &&
+          isString(message.levelId) && isNumber(message.seed) &&
+          DIFFICULTY_MODES.some(mode => mode.id === message.mode) &&
+          Array.isArray(message.players) && message.players.every(isPlayer)
+      case 'countdown':
+        return isNumber(message.startAt)
+      case 'snapshot':
+        return isString(message.id) && isNumber(message.time) && isNumber(message.attempt) &&
+          isNumber(message.x) && isNumber(message.z)
+      case 'standings':
+        return Array.isArray(message.standings) && message.standings.every(isStanding) && typeof message.final === 'boolean'
+      case 'error':
+        return isString(message.message)
+      default:
+        return false
+    }
+  })()
+  if (!valid) {
+    throw new ProtocolError(`Relay sent a malformed ${JSON.stringify(message.type)} message`)
+  }
+  return message as unknown as ServerMessage
+}
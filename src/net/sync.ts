@@ -0,0 +1,48 @@
+import { PositionSnapshot } from './protocol'
+
+// Remote racers are drawn this far in the past, so there is nearly always a
+// snapshot on either side to interpolate between
+export const INTERPOLATION_DELAY_MS = 150
+
+// Snapshots kept per racer; a couple of seconds at the send rate
+const SNAPSHOT_BUFFER_SIZE = 32
+
+export interface ClockSample {
+  // Local clock when the ping left and the pong arrived
+  sent: number
+  received: number
+  serverTime: number
+}
+
+// What to add to the local clock to read the relay's. The sample with the
+// shortest round trip has the least queueing in it, so it alone is trusted,
+// assuming the trip took equally long each way.
+export function estimateClockOffset(samples: readonly ClockSample[]): number {
+  if (samples.length === 0) return 0
+  const best = samples.reduce((a, b) => (b.received - b.sent < a.received - a.sent ? b : a))
+  return best.serverTime - (best.sent + best.received) / 2
+}
+
+// Keeps the buffer in time order even if the network reorders messages
+export function pushSnapshot(buffer: readonly PositionSnapshot[], snapshot: PositionSnapshot): PositionSnapshot[] {
+  const next = [...buffer, snapshot].sort((a, b) => a.time - b.time)
+  return next.slice(-SNAPSHOT_BUFFER_SIZE)
+}
+
+// Position at `time`, blended between the snapshots either side. Never
+// extrapolates: past the newest snapshot the racer waits where they were
+// last seen. Across a respawn they stay where they died, then snap to the start.
+export function sampleSnapshots(buffer: readonly PositionSnapshot[], time: number): { x: number; z: number } | null {
+  if (buffer.length === 0) return null
+  if (time <= buffer[0].time) return buffer[0]
+  for (let i = 1; i < buffer.length; i++) {
+    const after = buffer[i]
+    if (time > after.time) continue
+    const before = buffer[i - 1]
+    if (before.attempt !== after.attempt) return before
+    if (after.time === before.time) return after
+    const t = (time - before.time) / (after.time - before.time)
+    return { x: before.x + (after.x - before.x) * t, z: before.z + (after.z - before.z) * t }
+  }
+  return buffer[buffer.length - 1]
+}
@@ -0,0 +1,66 @@
+import { RACE_PLAYERS, RacerResult, formatRaceTime, raceStandings } from './race'
+
+interface RaceResultsProps {
+  levelName: string
+  results: RacerResult[]
+  onRematch: () => void
+  onQuit: () => void
+}
+
+const PLACES = ['1st', '2nd']
+
+export default function RaceResults({ levelName, results, onRematch, onQuit }: RaceResultsProps) {
+  const standings = raceStandings(results)
+  const winner = standings[0].finishedIn !== null ? RACE_PLAYERS[standings[0].player] : null
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex flex-col items-center justify-center gap-6 bg-black/85 p-4 text-gray-300"
+      role="dialog"
+      aria-modal="true"
+      aria-label="Race results"
+    >
+      <h2
+        className="text-6xl md:text-7xl text-center"
+        style={{
+          fontFamily: "'Creepster', cursive",
+          color: winner?.color ?? '#ff0000',
+          textShadow: `0 0 20px ${winner?.color ?? '#ff0000'}`,
+        }}
+      >
+        {winner ? `${winner.label} escaped first` : 'Nobody escaped'}
+      </h2>
+      <p className="text-sm text-gray-500" style={{ fontFamily: "'Special Elite', cursive" }}>
+        {levelName}
+      </p>
+
+      <ol className="w-full max-w-md flex flex-col gap-2" style={{ fontFamily: "'Special Elite', cursive" }}>
+        {standings.map((result, place) => {
+          const player = RACE_PLAYERS[result.player]
+          return (
+            <li
+              key={result.player}
+              className="flex items-center justify-between gap-4 px-4 py-3 rounded border border-red-900 bg-black/70"
+            >
+              <span className="w-10 text-gray-500">{result.finishedIn === null ? '—' : PLACES[place]}</span>
+              <span className="flex-1" style={{ color: player.color }}>{player.label}</span>
+              <span className="tabular-nums">{result.finishedIn === null ? 'Still lost' : formatRaceTime(result.finishedIn)}</span>
+              <span className="w-24 text-right text-sm text-gray-500">
+                {result.deaths} {result.deaths === 1 ? 'death' : 'deaths'}
+              </span>
+            </li>
+          )
+        })}
+      </ol>
+
+      <div className="flex gap-3" style={{ fontFamily: "'Special Elite', cursive" }}>
+        <button onClick={onRematch} className="px-6 py-3 rounded bg-red-800 text-white hover:bg-red-700 transition-colors" autoFocus>
+          Rematch
+        </button>
+        <button onClick={onQuit} className="px-6 py-3 rounded border border-red-900 bg-black/70 hover:bg-red-900/50 transition-colors">
+          Quit to title
+        </button>
+      </div>
+    </div>
+  )
+}
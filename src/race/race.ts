@@ -0,0 +1,64 @@
+import { KeyBindings, RACE_BINDINGS } from '../input/bindings'
+
+export interface RacePlayer {
+  label: string
+  color: string
+  // Shown under each viewport so nobody has to ask which keys are theirs
+  controls: string
+  bindings: KeyBindings
+  gamepad: number
+}
+
+export const RACE_PLAYERS: readonly [RacePlayer, RacePlayer] = [
+  { label: 'Player 1', color: '#ff2020', controls: 'WASD · Esc pauses · gamepad 1', bindings: RACE_BINDINGS[0], gamepad: 0 },
+  { label: 'Player 2', color: '#20a0ff', controls: 'Arrows · P pauses · gamepad 2', bindings: RACE_BINDINGS[1], gamepad: 1 },
+]
+
+// Racers are timed on the wall clock rather than simulation ticks, so the
+// wait after a death costs real time just as it would side by side
+export interface RaceClock {
+  startedAt: number
+  // Total milliseconds spent paused, plus when the current pause began
+  pausedFor: number
+  pausedAt: number | null
+}
+
+export function startRaceClock(now: number): RaceClock {
+  return { startedAt: now, pausedFor: 0, pausedAt: null }
+}
+
+export function pauseRaceClock(clock: RaceClock, now: number): RaceClock {
+  return clock.pausedAt === null ? { ...clock, pausedAt: now } : clock
+}
+
+export function resumeRaceClock(clock: RaceClock, now: number): RaceClock {
+  return clock.pausedAt === null ? clock : { ...clock, pausedFor: clock.pausedFor + now - clock.pausedAt, pausedAt: null }
+}
+
+// Milliseconds raced so far, not counting pauses
+export function raceElapsed(clock: RaceClock, now: number): number {
+  return (clock.pausedAt ?? now) - clock.startedAt - clock.pausedFor
+}
+
+export interface RacerResult {
+  player: number
+  deaths: number
+  // Milliseconds from the start, or null for a racer who never escaped
+  finishedIn: number | null
+}
+
+// Escapees in the order they got out, then everyone who didn't
+export function raceStandings(results: readonly RacerResult[]): RacerResult[] {
+  return [...results].sort((a, b) => {
+    if (a.finishedIn === null || b.finishedIn === null) {
+      return (a.finishedIn === null ? 1 : 0) - (b.finishedIn === null ? 1 : 0) || a.player - b.player
+    }
+    return a.finishedIn - b.finishedIn || a.player - b.player
+  })
+}
+
+export function formatRaceTime(ms: number): string {
+  const seconds = ms / 1000
+  const minutes = Math.floor(seconds / 60)
+  return `${minutes}:${(seconds % 60).toFixed(2).padStart(5, '0')}`
+}
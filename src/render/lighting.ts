@@ -0,0 +1,41 @@
+import { Blackout, Torch } from '../levels/format'
+import { cellCenter } from '../game/constants'
+
+// Three.js compiles one shader variant per light count, so torches share a
+// fixed pool of point lights handed to whichever are nearest the player
+export const TORCH_LIGHT_POOL = 4
+
+// Seconds the fixed lights take to die and to come back around a blackout
+export const BLACKOUT_FADE_SECONDS = 0.6
+
+// Sum of a few detuned sines: smooth enough not to strobe, irregular enough
+// to read as a flame. Returns a brightness factor in [1 - depth, 1].
+export function flicker(seconds: number, phase: number, depth = 0.35): number {
+  const wave =
+    Math.sin(seconds * 7.3 + phase) * 0.5 +
+    Math.sin(seconds * 13.1 + phase * 2.7) * 0.3 +
+    Math.sin(seconds * 23.7 + phase * 1.3) * 0.2
+  return 1 - depth * (wave * 0.5 + 0.5)
+}
+
+// How dark the scripted blackouts make things at a given time, 0 (lit) to 1
+// (every fixed light out), with a short fade at either end
+export function blackoutLevel(blackouts: readonly Blackout[], seconds: number): number {
+  let level = 0
+  for (const { at, duration } of blackouts) {
+    if (seconds < at || seconds > at + duration) continue
+    const fadeIn = (seconds - at) / BLACKOUT_FADE_SECONDS
+    const fadeOut = (at + duration - seconds) / BLACKOUT_FADE_SECONDS
+    level = Math.max(level, Math.min(1, fadeIn, fadeOut))
+  }
+  return level
+}
+
+// Indices of the `count` torches closest to a world position, nearest first
+export function nearestTorches(torches: readonly Torch[], x: number, z: number, count = TORCH_LIGHT_POOL): number[] {
+  return torches
+    .map((torch, i) => ({ i, distance: (cellCenter(torch.x) - x) ** 2 + (cellCenter(torch.z) - z) ** 2 }))
+    .sort((a, b) => a.distance - b.distance)
+    .slice(0, count)
+    .map(entry => entry.i)
+}
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest'
+import { Dread, NO_DREAD } from '../game/dread'
+import { MAX_FLASHES_PER_SECOND } from '../settings/accessibility'
+import { createScreenEffects, updateScreenEffects } from './screenEffects'
+
+const GRAZING: Dread = { wallGap: 0.01, wall: 0.99, hunter: 0 }
+const FRAME = 1 / 60
+
+describe('updateScreenEffects', () => {
+  it('eases distortion towards the danger instead of snapping', () => {
+    const effects = createScreenEffects()
+    updateScreenEffects(effects, { wallGap: 0.35, wall: 0.5, hunter: 0.8 }, FRAME, true)
+    expect(effects.distortion).toBeGreaterThan(0)
+    expect(effects.distortion).toBeLessThan(0.8)
+    for (let i = 0; i < 120; i++) updateScreenEffects(effects, { wallGap: 0.35, wall: 0.5, hunter: 0.8 }, FRAME, true)
+    expect(effects.distortion).toBeCloseTo(0.8)
+  })
+
+  it('pulses on the way into a near miss, not while staying there', () => {
+    const effects = createScreenEffects()
+    updateScreenEffects(effects, GRAZING, FRAME, true)
+    expect(effects.pulse).toBe(1)
+    for (let i = 0; i < 60; i++) updateScreenEffects(effects, GRAZING, FRAME, true)
+    expect(effects.pulse).toBe(0)
+  })
+
+  it('never pulses more often than the flash limit allows', () => {
+    const effects = createScreenEffects()
+    let pulses = 0
+    // Brushing a wall every other frame for a second
+    for (let i = 0; i < 60; i++) {
+      updateScreenEffects(effects, i % 2 === 0 ? GRAZING : NO_DREAD, FRAME, true)
+      if (effects.pulse === 1) pulses++
+    }
+    expect(pulses).toBeGreaterThan(0)
+    expect(pulses).toBeLessThanOrEqual(MAX_FLASHES_PER_SECOND)
+  })
+
+  it('stays dark for players who turned flashing off', () => {
+    const effects = createScreenEffects()
+    updateScreenEffects(effects, GRAZING, FRAME, false)
+    expect(effects.pulse).toBe(0)
+  })
+})
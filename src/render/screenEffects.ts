@@ -0,0 +1,69 @@
+import { Effect } from 'postprocessing'
+import { Uniform } from 'three'
+import { Dread } from '../game/dread'
+import { safeFlashPeriod } from '../settings/accessibility'
+
+// How long a near-miss pulse takes to fade, before the flash limit stretches it
+const PULSE_SECONDS = 0.25
+// Distortion closes this fraction of the gap to its target per second
+const DISTORTION_RATE = 4
+
+// A wall this close without touching it, or a hunter this near, is a near miss
+export const NEAR_MISS_WALL_GAP = 0.05
+export const NEAR_MISS_HUNTER_DREAD = 0.85
+
+// Updated in place every frame, like the other per-frame render state
+export interface ScreenEffects {
+  // 0..1, eased towards the current dread so the screen never snaps
+  distortion: number
+  // 1 at the start of a near-miss pulse, fading to 0
+  pulse: number
+  // Whether the last frame was inside near-miss range; pulses fire on the way in
+  close: boolean
+  // Seconds until another pulse may start
+  cooldown: number
+}
+
+export function createScreenEffects(): ScreenEffects {
+  return { distortion: 0, pulse: 0, close: false, cooldown: 0 }
+}
+
+// `pulses` is off for players who asked for no flashing
+export function updateScreenEffects(effects: ScreenEffects, dread: Dread, delta: number, pulses: boolean) {
+  const target = Math.max(dread.wall, dread.hunter)
+  effects.distortion += (target - effects.distortion) * Math.min(1, delta * DISTORTION_RATE)
+
+  // One pulse per period at most, so near misses in a row can't strobe
+  const period = safeFlashPeriod(PULSE_SECONDS)
+  effects.pulse = Math.max(0, effects.pulse - delta / period)
+  effects.cooldown = Math.max(0, effects.cooldown - delta)
+
+  const close = dread.wallGap < NEAR_MISS_WALL_GAP || dread.hunter > NEAR_MISS_HUNTER_DREAD
+  if (close && !effects.close && pulses && effects.cooldown === 0) {
+    effects.pulse = 1
+    effects.cooldown = period
+  }
+  effects.close = close
+}
+
+const BLOOD_PULSE_SHADER = `
+uniform float strength;
+
+void mainImage(const in vec4 inputColor, const in vec2 uv, out vec4 outputColor) {
+  float edge = smoothstep(0.15, 0.75, distance(uv, vec2(0.5)));
+  outputColor = vec4(mix(inputColor.rgb, vec3(0.55, 0.0, 0.0), strength * edge), inputColor.a);
+}
+`
+
+// Floods the edges of the screen red; strength 0 leaves the image untouched
+export class BloodPulseEffect extends Effect {
+  constructor() {
+    super('BloodPulseEffect', BLOOD_PULSE_SHADER, {
+      uniforms: new Map([['strength', new Uniform(0)]]),
+    })
+  }
+
+  set strength(value: number) {
+    this.uniforms.get('strength')!.value = value
+  }
+}
@@ -0,0 +1,87 @@
+import * as THREE from 'three'
+import { CELL, MazeGrid, gridHeight, gridWidth, inBounds } from '../maze/grid'
+import { CELL_SIZE, WALL_HEIGHT } from '../game/constants'
+
+// Cells per chunk side. Each chunk is one draw call and one frustum test, so
+// a 101x101 maze is 49 draws instead of thousands.
+export const WALL_CHUNK_SIZE = 16
+
+export interface WallChunk {
+  key: string
+  geometry: THREE.BufferGeometry
+}
+
+interface Face {
+  // Direction to the neighbouring cell this face looks at
+  dx: number
+  dz: number
+  normal: [number, number, number]
+  // Corners in the unit cell, counter-clockwise seen from outside
+  corners: [number, number, number][]
+}
+
+const SIDE_FACES: Face[] = [
+  { dx: 1, dz: 0, normal: [1, 0, 0], corners: [[1, 0, 1], [1, 0, 0], [1, 1, 0], [1, 1, 1]] },
+  { dx: -1, dz: 0, normal: [-1, 0, 0], corners: [[0, 0, 0], [0, 0, 1], [0, 1, 1], [0, 1, 0]] },
+  { dx: 0, dz: 1, normal: [0, 0, 1], corners: [[0, 0, 1], [1, 0, 1], [1, 1, 1], [0, 1, 1]] },
+  { dx: 0, dz: -1, normal: [0, 0, -1], corners: [[1, 0, 0], [0, 0, 0], [0, 1, 0], [1, 1, 0]] },
+]
+
+const TOP_FACE: Face = { dx: 0, dz: 0, normal: [0, 1, 0], corners: [[0, 1, 1], [1, 1, 1], [1, 1, 0], [0, 1, 0]] }
+
+const FACE_UVS = [0, 0, 1, 0, 1, 1, 0, 1]
+
+function isWall(grid: MazeGrid, x: number, z: number): boolean {
+  return inBounds(grid, x, z) && grid[z][x] === CELL.WALL
+}
+
+// Faces shared by two wall cells can never be seen, and the underside sits
+// on the floor, so only sides facing open cells (or the outside) and tops
+// are emitted
+function buildChunk(grid: MazeGrid, startX: number, startZ: number, size: number): THREE.BufferGeometry | null {
+  const positions: number[] = []
+  const normals: number[] = []
+  const uvs: number[] = []
+  const indices: number[] = []
+
+  const addFace = (x: number, z: number, face: Face) => {
+    const base = positions.length / 3
+    for (const [cx, cy, cz] of face.corners) {
+      positions.push((x + cx) * CELL_SIZE, cy * WALL_HEIGHT, (z + cz) * CELL_SIZE)
+      normals.push(...face.normal)
+    }
+    uvs.push(...FACE_UVS)
+    indices.push(base, base + 1, base + 2, base, base + 2, base + 3)
+  }
+
+  for (let z = startZ; z < Math.min(startZ + size, gridHeight(grid)); z++) {
+    for (let x = startX; x < Math.min(startX + size, gridWidth(grid)); x++) {
+      if (grid[z][x] !== CELL.WALL) continue
+      addFace(x, z, TOP_FACE)
+      for (const face of SIDE_FACES) {
+        if (!isWall(grid, x + face.dx, z + face.dz)) addFace(x, z, face)
+      }
+    }
+  }
+
+  if (indices.length === 0) return null
+  const geometry = new THREE.BufferGeometry()
+  geometry.setAttribute('position', new THREE.Float32BufferAttribute(positions, 3))
+  geometry.setAttribute('normal', new THREE.Float32BufferAttribute(normals, 3))
+  geometry.setAttribute('uv', new THREE.Float32BufferAttribute(uvs, 2))
+  geometry.setIndex(indices)
+  // Meshes are frustum-culled against this, which is what makes chunks pay off
+  geometry.computeBoundingSphere()
+  return geometry
+}
+
+export function buildWallChunks(grid: MazeGrid, chunkSize: number = WALL_CHUNK_SIZE): WallChunk[] {
+  const chunks: WallChunk[] = []
+  for (let z = 0; z < gridHeight(grid); z += chunkSize) {
+    for (let x = 0; x < gridWidth(grid); x += chunkSize) {
+      const geometry = buildChunk(grid, x, z, chunkSize)
+      if (geometry) chunks.push({ key: `${x},${z}`, geometry })
+    }
+  }
+  return chunks
+}
@@ -0,0 +1,127 @@
+import { useState, useEffect, MutableRefObject } from 'react'
+import { TICK_RATE } from '../game/simulation'
+import { Replay } from './format'
+import { PLAYBACK_SPEEDS, PlaybackClock } from './playback'
+
+const OUTCOME_LABELS: Record<Replay['outcome'], string> = {
+  'hit-wall': 'Touched a wall',
+  caught: 'Caught by a hunter',
+  won: 'Escaped',
+}
+
+function formatTime(ticks: number): string {
+  const seconds = ticks / TICK_RATE
+  const minutes = Math.floor(seconds / 60)
+  return `${minutes}:${(seconds % 60).toFixed(1).padStart(4, '0')}`
+}
+
+interface ReplayViewerProps {
+  replay: Replay
+  levelName: string
+  desynced: boolean
+  clock: MutableRefObject<PlaybackClock>
+  onClose: () => void
+}
+
+export default function ReplayViewer({ replay, levelName, desynced, clock, onClose }: ReplayViewerProps) {
+  // Mirrors the clock for the controls; the canvas reads the ref directly
+  const [view, setView] = useState<PlaybackClock>({ ...clock.current })
+
+  useEffect(() => {
+    const timer = setInterval(() => setView({ ...clock.current }), 50)
+    return () => clearInterval(timer)
+  }, [clock])
+
+  const update = (changes: Partial<PlaybackClock>) => {
+    clock.current = { ...clock.current, ...changes }
+    setView({ ...clock.current })
+  }
+
+  const togglePlaying = () => {
+    // Pressing play at the end starts over
+    const atEnd = clock.current.tick >= replay.ticks
+    update({ playing: !clock.current.playing, ...(atEnd ? { tick: 0 } : {}) })
+  }
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === ' ') {
+        e.preventDefault()
+        togglePlaying()
+      } else if (e.key === 'ArrowLeft' || e.key === 'ArrowRight') {
+        const direction = e.key === 'ArrowLeft' ? -1 : 1
+        const tick = Math.max(0, Math.min(replay.ticks, Math.round(clock.current.tick) + direction))
+        update({ playing: false, tick })
+      } else if (e.key === 'Escape') {
+        onClose()
+      }
+    }
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  })
+
+  const handleDownload = () => {
+    const url = URL.createObjectURL(new Blob([JSON.stringify(replay)], { type: 'application/json' }))
+    const link = document.createElement('a')
+    link.href = url
+    link.download = `replay-${replay.levelId}-${replay.recordedAt.replace(/[:.]/g, '-')}.json`
+    link.click()
+    URL.revokeObjectURL(url)
+  }
+
+  return (
+    <div className="fixed inset-x-0 bottom-0 z-50 p-4 bg-black/80 border-t border-red-900 text-gray-300" style={{ fontFamily: "'Special Elite', cursive" }}>
+      <div className="flex flex-wrap items-baseline justify-between gap-2 mb-3">
+        <div>
+          <span className="text-red-500 text-xl mr-3" style={{ fontFamily: "'Creepster', cursive" }}>REPLAY</span>
+          {levelName} · {OUTCOME_LABELS[replay.outcome]} after {formatTime(replay.ticks)}
+        </div>
+        {desynced && (
+          <div className="text-yellow-500 text-sm">This replay no longer matches the game rules and may play back differently.</div>
+        )}
+      </div>
+
+      <div className="flex items-center gap-3">
+        <button
+          onClick={togglePlaying}
+          className="w-12 h-10 rounded border border-red-900 hover:bg-red-900/50 text-lg"
+          aria-label={view.playing ? 'Pause' : 'Play'}
+        >
+          {view.playing ? '❚❚' : '▶'}
+        </button>
+        <input
+          type="range"
+          min={0}
+          max={replay.ticks}
+          step={1}
+          value={Math.floor(view.tick)}
+          onChange={e => update({ tick: e.target.valueAsNumber, playing: false })}
+          className="flex-1 accent-red-600"
+          aria-label="Scrub"
+        />
+        <span className="w-28 text-right text-sm tabular-nums">
+          {formatTime(view.tick)} / {formatTime(replay.ticks)}
+        </span>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 mt-3 text-sm">
+        {PLAYBACK_SPEEDS.map(speed => (
+          <button
+            key={speed}
+            onClick={() => update({ speed })}
+            className={`px-2 py-1 rounded border ${view.speed === speed ? 'bg-red-700 border-red-500 text-black' : 'border-red-900 hover:bg-red-900/50'}`}
+          >
+            {speed}×
+          </button>
+        ))}
+        <div className="flex-1" />
+        <button onClick={handleDownload} className="px-3 py-1 rounded border border-red-900 hover:bg-red-900/50">
+          Download
+        </button>
+        <button onClick={onClose} className="px-3 py-1 rounded border border-red-900 hover:bg-red-900/50">
+          Close
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,136 @@
+import { Seed } from '../maze/random'
+import { Level, LevelFile, levelToFile } from '../levels/format'
+import { findCampaignLevel } from '../levels/campaign'
+import { PlayerInput, SimStatus, TICK_RATE } from '../game/simulation'
+import { DIFFICULTY_MODES, DifficultyMode } from '../game/difficulty'
+
+export const REPLAY_FORMAT_VERSION = 1
+
+// Inputs are stored as whole percentages so a recording replays bit-for-bit
+const INPUT_SCALE = 100
+
+// [ticks, x, z]: the same scaled input held for `ticks` consecutive ticks
+export type InputRun = [number, number, number]
+
+export type ReplayOutcome = Exclude<SimStatus, 'running'>
+
+export interface Replay {
+  version: typeof REPLAY_FORMAT_VERSION
+  levelId: string
+  // Present when the level was generated, so the same layout can be rebuilt
+  seed?: Seed
+  // Embedded only for levels outside the campaign (e.g. editor play-tests)
+  level?: LevelFile
+  mode: DifficultyMode
+  tickRate: number
+  ticks: number
+  outcome: ReplayOutcome
+  inputs: InputRun[]
+  recordedAt: string
+}
+
+export class ReplayError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ReplayError'
+  }
+}
+
+export function quantizeInput({ x, z }: PlayerInput): PlayerInput {
+  return {
+    x: Math.round(Math.max(-1, Math.min(1, x)) * INPUT_SCALE) / INPUT_SCALE,
+    z: Math.round(Math.max(-1, Math.min(1, z)) * INPUT_SCALE) / INPUT_SCALE,
+  }
+}
+
+export function encodeInputs(inputs: PlayerInput[]): InputRun[] {
+  const runs: InputRun[] = []
+  for (const input of inputs) {
+    const x = Math.round(input.x * INPUT_SCALE)
+    const z = Math.round(input.z * INPUT_SCALE)
+    const last = runs[runs.length - 1]
+    if (last && last[1] === x && last[2] === z) {
+      last[0]++
+    } else {
+      runs.push([1, x, z])
+    }
+  }
+  return runs
+}
+
+export function decodeInputs(runs: InputRun[]): PlayerInput[] {
+  const inputs: PlayerInput[] = []
+  for (const [count, x, z] of runs) {
+    const input = { x: x / INPUT_SCALE, z: z / INPUT_SCALE }
+    for (let i = 0; i < count; i++) {
+      inputs.push(input)
+    }
+  }
+  return inputs
+}
+
+// Play-tests keep the id of the level they were opened from, so the caller
+// forces the layout in rather than trusting the campaign copy
+export function createReplay(
+  level: Level,
+  mode: DifficultyMode,
+  inputs: PlayerInput[],
+  outcome: ReplayOutcome,
+  embedLevel = !findCampaignLevel(level.id),
+): Replay {
+  return {
+    version: REPLAY_FORMAT_VERSION,
+    levelId: level.id,
+    ...(level.seed !== undefined ? { seed: level.seed } : {}),
+    ...(embedLevel ? { level: levelToFile(level) } : {}),
+    mode,
+    tickRate: TICK_RATE,
+    ticks: inputs.length,
+    outcome,
+    inputs: encodeInputs(inputs),
+    recordedAt: new Date().toISOString(),
+  }
+}
+
+const OUTCOMES: readonly ReplayOutcome[] = ['hit-wall', 'caught', 'won']
+
+function isInputRun(value: unknown): value is InputRun {
+  return (
+    Array.isArray(value) &&
+    value.length === 3 &&
+    Number.isInteger(value[0]) && value[0] > 0 &&
+    value.slice(1).every(v => Number.isInteger(v) && Math.abs(v) <= INPUT_SCALE)
+  )
+}
+
+export function parseReplay(data: unknown): Replay {
+  if (typeof data !== 'object' || data === null) {
+    throw new ReplayError('Replay must be a JSON object')
+  }
+  const replay = data as Partial<Replay>
+  if (replay.version !== REPLAY_FORMAT_VERSION) {
+    throw new ReplayError(`Unsupported replay version ${JSON.stringify(replay.version)}`)
+  }
+  if (typeof replay.levelId !== 'string') {
+    throw new ReplayError('Replay is missing its level id')
+  }
+  if (replay.tickRate !== TICK_RATE) {
+    throw new ReplayError(`Replay was recorded at ${replay.tickRate} ticks/s; this build runs at ${TICK_RATE}`)
+  }
+  // Recordings made before difficulty modes existed were all classic runs
+  const mode = replay.mode ?? 'classic'
+  if (!DIFFICULTY_MODES.some(info => info.id === mode)) {
+    throw new ReplayError(`Replay uses unknown difficulty "${mode}"`)
+  }
+  if (!OUTCOMES.includes(replay.outcome as ReplayOutcome)) {
+    throw new ReplayError('Replay has an unknown outcome')
+  }
+  if (!Array.isArray(replay.inputs) || !replay.inputs.every(isInputRun)) {
+    throw new ReplayError('Replay inputs are malformed')
+  }
+  const ticks = replay.inputs.reduce((sum, [count]) => sum + count, 0)
+  if (replay.ticks !== ticks) {
+    throw new ReplayError(`Replay claims ${replay.ticks} ticks but holds ${ticks}`)
+  }
+  return { ...replay, mode } as Replay
+}
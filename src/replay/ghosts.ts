@@ -0,0 +1,39 @@
+import { Level } from '../levels/format'
+import { DifficultyMode } from '../game/difficulty'
+import { KeyValueStore, browserStore, readJson, writeJson } from '../storage/keyValue'
+import { Replay, parseReplay } from './format'
+
+const GHOST_PREFIX = 'maze.ghost.v1.'
+
+// Generated levels only share a layout when the seed matches
+export function layoutKey(level: Pick<Level, 'id' | 'seed'>): string {
+  return level.seed === undefined ? level.id : `${level.id}@${level.seed}`
+}
+
+// Walls only kill in some modes, so each mode races its own best run
+export function ghostKey(level: Pick<Level, 'id' | 'seed'>, mode: DifficultyMode): string {
+  return `${layoutKey(level)}.${mode}`
+}
+
+export function loadGhost(key: string, store: KeyValueStore = browserStore): Replay | null {
+  const raw = readJson<unknown>(store, GHOST_PREFIX + key)
+  if (raw === null) return null
+  try {
+    return parseReplay(raw)
+  } catch {
+    return null
+  }
+}
+
+// Keeps the fastest winning run per layout; returns true when it was stored
+export function saveGhostIfBest(key: string, replay: Replay, store: KeyValueStore = browserStore): boolean {
+  if (replay.outcome !== 'won') {
+    return false
+  }
+  const best = loadGhost(key, store)
+  if (best && best.ticks <= replay.ticks) {
+    return false
+  }
+  writeJson(store, GHOST_PREFIX + key, replay)
+  return true
+}
@@ -0,0 +1,42 @@
+import { Level } from '../levels/format'
+import { loadLevel } from '../levels/load'
+import { findCampaignLevel } from '../levels/campaign'
+import { SimState, createSimState, createWorld, step } from '../game/simulation'
+import { Replay, ReplayError, decodeInputs } from './format'
+
+export interface ReplayPlayback {
+  level: Level
+  // states[0] is the spawn; states[n] is the world after n ticks
+  states: SimState[]
+  // The re-simulated run ended differently than it was recorded
+  desynced: boolean
+}
+
+export function resolveReplayLevel(replay: Replay): Level {
+  const source = replay.level ?? findCampaignLevel(replay.levelId)
+  if (!source) {
+    throw new ReplayError(`Level "${replay.levelId}" is not available in this build`)
+  }
+  return loadLevel(source, { seed: replay.seed })
+}
+
+export function simulateReplay(replay: Replay, level: Level = resolveReplayLevel(replay)): ReplayPlayback {
+  const world = createWorld(level, replay.mode)
+  let state = createSimState(level)
+  const states = [state]
+  for (const input of decodeInputs(replay.inputs)) {
+    state = step(state, input, world)
+    states.push(state)
+  }
+  return { level, states, desynced: state.status !== replay.outcome }
+}
+
+// Shared between the viewer controls (DOM) and the replay renderer (canvas)
+export interface PlaybackClock {
+  // Fractional tick so slow-motion playback can interpolate between states
+  tick: number
+  playing: boolean
+  speed: number
+}
+
+export const PLAYBACK_SPEEDS = [0.25, 0.5, 1, 2, 4]
@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest'
+import { createMemoryStore } from '../storage/keyValue'
+import { LeaderboardEntry, createLocalLeaderboard } from './leaderboard'
+
+const entry = (score: number): LeaderboardEntry => ({
+  levelId: 'test',
+  mode: 'classic',
+  score,
+  ticks: 600,
+  deaths: 0,
+  distance: 40,
+  finishedAt: '2026-01-01T00:00:00.000Z',
+})
+
+describe('createLocalLeaderboard', () => {
+  it('ranks submissions by score', async () => {
+    const board = createLocalLeaderboard(createMemoryStore())
+    await board.submit(entry(500))
+    const submission = await board.submit(entry(900))
+    expect(submission.rank).toBe(1)
+    expect(submission.isPersonalBest).toBe(true)
+    expect((await board.list('test', 'classic')).map(e => e.score)).toEqual([900, 500])
+  })
+
+  it('ignores a corrupted board', async () => {
+    const store = createMemoryStore({ 'maze.leaderboard.v1.test.classic': '{"score":1}' })
+    expect(await createLocalLeaderboard(store).list('test', 'classic')).toEqual([])
+  })
+
+  it('drops malformed entries and keeps the rest', async () => {
+    const store = createMemoryStore({
+      'maze.leaderboard.v1.test.classic': JSON.stringify([{ levelId: 'test', mode: 'classic' }, null, entry(300)]),
+    })
+    const submission = await createLocalLeaderboard(store).submit(entry(200))
+    expect(submission.entries.map(e => e.score)).toEqual([300, 200])
+  })
+})
@@ -0,0 +1,72 @@
+import { KeyValueStore, readJson, writeJson } from '../storage/keyValue'
+import { DifficultyMode } from '../game/difficulty'
+import { RunStats } from './scoring'
+
+export interface LeaderboardEntry extends RunStats {
+  levelId: string
+  // Each difficulty gets its own board; sliding along walls is not a fair race
+  mode: DifficultyMode
+  score: number
+  finishedAt: string
+}
+
+export interface Submission {
+  // 1-based position of the new entry, or null if it missed the board
+  rank: number | null
+  entries: LeaderboardEntry[]
+  personalBest: LeaderboardEntry
+  isPersonalBest: boolean
+}
+
+// Async so a networked implementation can drop in behind the same calls
+export interface LeaderboardStore {
+  list(levelId: string, mode: DifficultyMode): Promise<LeaderboardEntry[]>
+  submit(entry: LeaderboardEntry): Promise<Submission>
+}
+
+export const LEADERBOARD_SIZE = 10
+const LEADERBOARD_PREFIX = 'maze.leaderboard.v1.'
+
+export function compareEntries(a: LeaderboardEntry, b: LeaderboardEntry): number {
+  return b.score - a.score || a.ticks - b.ticks || a.finishedAt.localeCompare(b.finishedAt)
+}
+
+function isEntry(value: unknown): value is LeaderboardEntry {
+  if (!value || typeof value !== 'object') return false
+  const entry = value as Record<string, unknown>
+  return (
+    typeof entry.levelId === 'string' &&
+    typeof entry.mode === 'string' &&
+    typeof entry.finishedAt === 'string' &&
+    ['score', 'ticks', 'deaths', 'distance'].every(field => Number.isFinite(entry[field]))
+  )
+}
+
+export function createLocalLeaderboard(store: KeyValueStore, size = LEADERBOARD_SIZE): LeaderboardStore {
+  const key = (levelId: string, mode: DifficultyMode) => `${LEADERBOARD_PREFIX}${levelId}.${mode}`
+  // Stored boards may be corrupt or hand-edited; keep only well-formed entries
+  const read = (levelId: string, mode: DifficultyMode) => {
+    const saved = readJson<unknown>(store, key(levelId, mode))
+    return Array.isArray(saved) ? saved.filter(isEntry).sort(compareEntries) : []
+  }
+
+  return {
+    async list(levelId, mode) {
+      return read(levelId, mode)
+    },
+    async submit(entry) {
+      const previous = read(entry.levelId, entry.mode)
+      const ranked = [...previous, entry].sort(compareEntries)
+      const entries = ranked.slice(0, size)
+      writeJson(store, key(entry.levelId, entry.mode), entries)
+
+      const index = entries.indexOf(entry)
+      return {
+        rank: index === -1 ? null : index + 1,
+        entries,
+        personalBest: ranked[0],
+        isPersonalBest: ranked[0] === entry,
+      }
+    },
+  }
+}
@@ -0,0 +1,39 @@
+import { Level } from '../levels/format'
+import { findPath } from '../maze/solve'
+import { CELL_SIZE } from '../game/constants'
+import { ACCELERATION, FRICTION, TICK_RATE } from '../game/simulation'
+
+// Totals for one level, summed over every attempt until the escape
+export interface RunStats {
+  ticks: number
+  deaths: number
+  distance: number
+}
+
+export const EMPTY_RUN: RunStats = { ticks: 0, deaths: 0, distance: 0 }
+
+const MAX_TIME_SCORE = 10000
+const DEATH_PENALTY = 1000
+
+// Friction caps the player's cruising speed at acceleration / friction,
+// well below the level's hard speed limit
+const CRUISE_SPEED = ACCELERATION / FRICTION
+
+// Seconds an ideal run takes along the shortest route
+export function parSeconds(level: Level): number {
+  const path = findPath(level.grid, level.start, level.goal) ?? []
+  return (Math.max(0, path.length - 1) * CELL_SIZE) / Math.min(CRUISE_SPEED, level.tuning.speed)
+}
+
+// Matching par earns the full time score; every death costs a flat penalty
+export function scoreRun(stats: RunStats, level: Level): number {
+  const seconds = Math.max(stats.ticks / TICK_RATE, 1 / TICK_RATE)
+  const timeScore = Math.round(MAX_TIME_SCORE * Math.min(1, parSeconds(level) / seconds))
+  return Math.max(0, timeScore - stats.deaths * DEATH_PENALTY)
+}
+
+export function formatDuration(ticks: number): string {
+  const seconds = ticks / TICK_RATE
+  const minutes = Math.floor(seconds / 60)
+  return `${minutes}:${(seconds % 60).toFixed(2).padStart(5, '0')}`
+}
@@ -0,0 +1,72 @@
+import { GridPoint, MazeGrid, gridHeight, gridWidth } from '../maze/grid'
+import { Seed } from '../maze/random'
+import { RunStats, formatDuration } from './scoring'
+
+// Longest side of the emoji map; bigger mazes are folded into blocks
+export const SHARE_GRID_SIZE = 10
+
+const GLYPHS = { goal: '🟩', start: '🟦', visited: '🟥', open: '⬛' }
+
+export interface ShareDetails {
+  title: string
+  // Only generated levels have one
+  seed?: Seed
+  stats: RunStats
+  grid: MazeGrid
+  // Exploration flags, one per cell: where the player actually went
+  visited: Uint8Array
+  start: GridPoint
+  goal: GridPoint
+  // Link that opens the same maze, when there is one
+  url?: string
+}
+
+// One glyph per block of cells, so the shape of the route survives without
+// giving the maze itself away
+export function pathEmojiGrid(
+  grid: MazeGrid,
+  visited: Uint8Array,
+  start: GridPoint,
+  goal: GridPoint,
+  maxSide = SHARE_GRID_SIZE
+): string {
+  const width = gridWidth(grid)
+  const height = gridHeight(grid)
+  const block = Math.max(1, Math.ceil(Math.max(width, height) / maxSide))
+  const contains = (bx: number, bz: number, cell: GridPoint) =>
+    Math.floor(cell.x / block) === bx && Math.floor(cell.z / block) === bz
+
+  const rows: string[] = []
+  for (let bz = 0; bz * block < height; bz++) {
+    let row = ''
+    for (let bx = 0; bx * block < width; bx++) {
+      let walked = false
+      for (let z = bz * block; z < Math.min(height, (bz + 1) * block) && !walked; z++) {
+        for (let x = bx * block; x < Math.min(width, (bx + 1) * block); x++) {
+          if (visited[z * width + x] === 1) {
+            walked = true
+            break
+          }
+        }
+      }
+      row += contains(bx, bz, goal) ? GLYPHS.goal
+        : contains(bx, bz, start) ? GLYPHS.start
+          : walked ? GLYPHS.visited
+            : GLYPHS.open
+    }
+    rows.push(row)
+  }
+  return rows.join('\n')
+}
+
+// Compact enough to paste into chat
+export function formatShareResult({ title, seed, stats, grid, visited, start, goal, url }: ShareDetails): string {
+  const deaths = `${stats.deaths} ${stats.deaths === 1 ? 'death' : 'deaths'}`
+  return [
+    `THE MAZE · ${title}`,
+    ...(seed !== undefined ? [`Seed ${seed}`] : []),
+    `⏱ ${formatDuration(stats.ticks)} · 💀 ${deaths}`,
+    pathEmojiGrid(grid, visited, start, goal),
+    ...(url ? [url] : []),
+  ].join('\n')
+}
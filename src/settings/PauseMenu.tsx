@@ -0,0 +1,72 @@
+import { useState } from 'react'
+import SettingsPanel from './SettingsPanel'
+import { Preferences } from './preferences'
+
+interface PauseMenuProps {
+  levelName: string
+  preferences: Preferences
+  onPreferencesChange: (preferences: Preferences) => void
+  // Set when the chosen difficulty differs from the one being played
+  difficultyNote?: string
+  onResume: () => void
+  onRestart: () => void
+  onQuit: () => void
+}
+
+export default function PauseMenu({
+  levelName,
+  preferences,
+  onPreferencesChange,
+  difficultyNote,
+  onResume,
+  onRestart,
+  onQuit,
+}: PauseMenuProps) {
+  const [showSettings, setShowSettings] = useState(false)
+  const buttonClass = 'w-64 px-6 py-3 rounded border border-red-900 bg-black/70 hover:bg-red-900/50 transition-colors'
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm p-4"
+      role="dialog"
+      aria-modal="true"
+      aria-label="Paused"
+    >
+      <div className="flex flex-col items-center gap-4 max-h-full overflow-y-auto text-gray-300">
+        <h2
+          className="text-6xl text-red-600"
+          style={{ fontFamily: "'Creepster', cursive", textShadow: '0 0 20px rgba(255, 0, 0, 0.5)' }}
+        >
+          Paused
+        </h2>
+        <p className="text-sm text-gray-500" style={{ fontFamily: "'Special Elite', cursive" }}>
+          {levelName}
+        </p>
+
+        {showSettings ? (
+          <>
+            <SettingsPanel preferences={preferences} onChange={onPreferencesChange} difficultyNote={difficultyNote} />
+            <button onClick={() => setShowSettings(false)} className={buttonClass} style={{ fontFamily: "'Special Elite', cursive" }}>
+              ◀ Back
+            </button>
+          </>
+        ) : (
+          <div className="flex flex-col gap-3" style={{ fontFamily: "'Special Elite', cursive" }}>
+            <button onClick={onResume} className={`${buttonClass} text-white bg-red-800 hover:bg-red-700`} autoFocus>
+              Resume
+            </button>
+            <button onClick={onRestart} className={buttonClass}>
+              Restart level
+            </button>
+            <button onClick={() => setShowSettings(true)} className={buttonClass}>
+              Settings
+            </button>
+            <button onClick={onQuit} className={buttonClass}>
+              Quit to title
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
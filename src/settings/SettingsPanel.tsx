@@ -0,0 +1,200 @@
+import { ReactNode } from 'react'
+import { MIX_CHANNELS } from '../audio/engine'
+import { CAMERA_MODES } from '../game/camera'
+import { DIFFICULTY_MODES } from '../game/difficulty'
+import { EFFECTS_PRESETS, GRAPHICS_PRESETS, graphicsPreset } from './graphics'
+import { COLOR_PALETTES, JUMPSCARE_INTENSITIES, prefersReducedMotion } from './accessibility'
+import { AccessibilityOptions, Preferences, withSystemMotion } from './preferences'
+
+const ACCESSIBILITY_TOGGLES: { key: 'followSystemMotion' | 'reduceMotion' | 'highContrast' | 'invertLook'; label: string }[] = [
+  { key: 'followSystemMotion', label: "Match the system's reduced-motion setting" },
+  { key: 'reduceMotion', label: 'Reduce motion (no head bob or floating objects)' },
+  { key: 'highContrast', label: 'High-contrast maze' },
+  { key: 'invertLook', label: 'Invert vertical look' },
+]
+
+// Choosing motion settings by hand stops them following the system; turning
+// following back on picks the system's value straight away
+function toggleAccessibility(
+  accessibility: AccessibilityOptions,
+  key: (typeof ACCESSIBILITY_TOGGLES)[number]['key'],
+  checked: boolean,
+): AccessibilityOptions {
+  const next = { ...accessibility, [key]: checked }
+  if (key === 'reduceMotion') next.followSystemMotion = false
+  return key === 'followSystemMotion' ? withSystemMotion(next, prefersReducedMotion()) : next
+}
+
+function Choice<T extends string>({
+  label,
+  options,
+  value,
+  onChange,
+}: {
+  label: string
+  options: readonly { id: T; label: string }[]
+  value: T
+  onChange: (value: T) => void
+}) {
+  return (
+    <div className="flex flex-wrap gap-2" role="radiogroup" aria-label={label}>
+      {options.map(option => (
+        <button
+          key={option.id}
+          role="radio"
+          aria-checked={value === option.id}
+          onClick={() => onChange(option.id)}
+          className={`px-3 py-1 rounded border transition-colors ${value === option.id ? 'bg-red-800 border-red-500 text-white' : 'border-red-900 text-gray-400 hover:bg-red-900/40'}`}
+        >
+          {option.label}
+        </button>
+      ))}
+    </div>
+  )
+}
+
+function Section({ title, note, children }: { title: string; note?: string; children: ReactNode }) {
+  return (
+    <section className="flex flex-col gap-2">
+      <h3 className="text-red-500">{title}</h3>
+      {children}
+      {note && <p className="text-xs text-gray-500">{note}</p>}
+    </section>
+  )
+}
+
+interface SettingsPanelProps {
+  preferences: Preferences
+  onChange: (preferences: Preferences) => void
+  // Mid-run the mode can't change without invalidating the run
+  difficultyNote?: string
+}
+
+export default function SettingsPanel({ preferences, onChange, difficultyNote }: SettingsPanelProps) {
+  const update = (changes: Partial<Preferences>) => onChange({ ...preferences, ...changes })
+  const { mix, accessibility } = preferences
+
+  return (
+    <div className="flex flex-col gap-5 text-sm text-gray-300" style={{ fontFamily: "'Special Elite', cursive" }}>
+      <Section title="Difficulty" note={difficultyNote}>
+        <Choice
+          label="Difficulty"
+          options={DIFFICULTY_MODES}
+          value={preferences.difficulty}
+          onChange={difficulty => update({ difficulty })}
+        />
+      </Section>
+
+      <Section title="Camera">
+        <Choice
+          label="Camera"
+          options={CAMERA_MODES}
+          value={preferences.cameraMode}
+          onChange={cameraMode => update({ cameraMode })}
+        />
+      </Section>
+
+      <Section title="Navigation" note="Some levels are hardcore and have no minimap at all.">
+        <label className="flex items-center gap-3">
+          <input
+            type="checkbox"
+            checked={preferences.breadcrumbs}
+            onChange={e => update({ breadcrumbs: e.target.checked })}
+            className="accent-red-600"
+          />
+          Breadcrumbs (mark cells you have walked through)
+        </label>
+      </Section>
+
+      <Section title="Sound">
+        <label className="flex items-center gap-3">
+          <input
+            type="checkbox"
+            checked={mix.muted}
+            onChange={e => update({ mix: { ...mix, muted: e.target.checked } })}
+            className="accent-red-600"
+          />
+          Mute everything
+        </label>
+        {MIX_CHANNELS.map(({ key, label }) => (
+          <label key={key} className="flex items-center gap-3">
+            <span className="w-16">{label}</span>
+            <input
+              type="range"
+              min={0}
+              max={1}
+              step={0.05}
+              value={mix[key]}
+              onChange={e => update({ mix: { ...mix, [key]: e.target.valueAsNumber } })}
+              className="accent-red-600"
+            />
+            <span className="w-10 text-right tabular-nums">{Math.round(mix[key] * 100)}%</span>
+          </label>
+        ))}
+      </Section>
+
+      <Section title="Graphics" note="Anti-aliasing changes apply from the next attempt. Each quality also sets matching screen effects.">
+        <Choice
+          label="Graphics quality"
+          options={GRAPHICS_PRESETS}
+          value={preferences.graphics}
+          onChange={graphics => update({ graphics, effects: graphicsPreset(graphics).effects })}
+        />
+      </Section>
+
+      <Section title="Screen effects" note="Grain, vignette and colour fringing that grow as danger closes in. Turn off on slow machines.">
+        <Choice
+          label="Screen effects"
+          options={EFFECTS_PRESETS}
+          value={preferences.effects}
+          onChange={effects => update({ effects })}
+        />
+        <label className="flex items-center gap-3">
+          <input
+            type="checkbox"
+            checked={preferences.scanlines}
+            disabled={preferences.effects === 'off'}
+            onChange={e => update({ scanlines: e.target.checked })}
+            className="accent-red-600"
+          />
+          VHS scanlines
+        </label>
+      </Section>
+
+      <Section
+        title="Jumpscares"
+        note={JUMPSCARE_INTENSITIES.find(intensity => intensity.id === accessibility.jumpscare)?.description}
+      >
+        <Choice
+          label="Jumpscare intensity"
+          options={JUMPSCARE_INTENSITIES}
+          value={accessibility.jumpscare}
+          onChange={jumpscare => update({ accessibility: { ...accessibility, jumpscare, followSystemMotion: false } })}
+        />
+      </Section>
+
+      <Section title="Player and exit colours">
+        <Choice
+          label="Colour palette"
+          options={COLOR_PALETTES}
+          value={accessibility.palette}
+          onChange={palette => update({ accessibility: { ...accessibility, palette } })}
+        />
+      </Section>
+
+      <Section title="Accessibility">
+        {ACCESSIBILITY_TOGGLES.map(({ key, label }) => (
+          <label key={key} className="flex items-center gap-3">
+            <input
+              type="checkbox"
+              checked={accessibility[key]}
+              onChange={e => update({ accessibility: toggleAccessibility(accessibility, key, e.target.checked) })}
+              className="accent-red-600"
+            />
+            {label}
+          </label>
+        ))}
+      </Section>
+    </div>
+  )
+}
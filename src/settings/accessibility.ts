@@ -0,0 +1,42 @@
+export type JumpscareIntensity = 'full' | 'reduced-motion' | 'text-only'
+
+export const JUMPSCARE_INTENSITIES: readonly { id: JumpscareIntensity; label: string; description: string }[] = [
+  { id: 'full', label: 'Full', description: 'Shaking, flashing, blood. As intended.' },
+  { id: 'reduced-motion', label: 'Reduced motion', description: 'The skull appears, but nothing shakes or flashes.' },
+  { id: 'text-only', label: 'Text only', description: 'A quiet message instead of a scare.' },
+]
+
+// WCAG 2.3.1: nothing may flash more than three times in any one second
+export const MAX_FLASHES_PER_SECOND = 3
+
+// Stretches an animation period so one flash per cycle stays under the limit
+export function safeFlashPeriod(seconds: number): number {
+  return Math.max(seconds, 1 / MAX_FLASHES_PER_SECOND)
+}
+
+export type ColorPalette = 'standard' | 'protan-deutan' | 'tritan'
+
+export interface PaletteColors {
+  player: string
+  goal: string
+  // The win screen's headline, which echoes the goal
+  goalText: string
+}
+
+export const COLOR_PALETTES: readonly ({ id: ColorPalette; label: string } & PaletteColors)[] = [
+  { id: 'standard', label: 'Standard', player: '#ff0000', goal: '#00ff00', goalText: '#00ff00' },
+  // Orange against blue separates on luminance and the blue-yellow axis
+  { id: 'protan-deutan', label: 'Red-green safe', player: '#ff8c00', goal: '#1e90ff', goalText: '#4da6ff' },
+  // Red against cyan avoids the blue-yellow confusion of tritanopia
+  { id: 'tritan', label: 'Blue-yellow safe', player: '#ff1a4b', goal: '#00e5e5', goalText: '#00e5e5' },
+]
+
+export function paletteColors(palette: ColorPalette): PaletteColors {
+  return COLOR_PALETTES.find(entry => entry.id === palette) ?? COLOR_PALETTES[0]
+}
+
+export const REDUCED_MOTION_QUERY = '(prefers-reduced-motion: reduce)'
+
+export function prefersReducedMotion(): boolean {
+  return typeof window !== 'undefined' && window.matchMedia(REDUCED_MOTION_QUERY).matches
+}
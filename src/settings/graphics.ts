@@ -0,0 +1,50 @@
+export type GraphicsQuality = 'low' | 'medium' | 'high'
+
+export interface GraphicsPreset {
+  id: GraphicsQuality
+  label: string
+  // Device pixel ratio range handed to the canvas
+  dpr: [number, number]
+  antialias: boolean
+  // Image-based lighting; costs a cube map render and a prefilter pass
+  environment: boolean
+  // Screen effects picked alongside this quality; the player can still change them
+  effects: EffectsQuality
+}
+
+export const GRAPHICS_PRESETS: readonly GraphicsPreset[] = [
+  { id: 'low', label: 'Low', dpr: [0.75, 1], antialias: false, environment: false, effects: 'off' },
+  { id: 'medium', label: 'Medium', dpr: [1, 1.5], antialias: true, environment: false, effects: 'subtle' },
+  { id: 'high', label: 'High', dpr: [1, 2], antialias: true, environment: true, effects: 'full' },
+]
+
+export const DEFAULT_GRAPHICS: GraphicsQuality = 'high'
+
+export function graphicsPreset(quality: GraphicsQuality): GraphicsPreset {
+  return GRAPHICS_PRESETS.find(preset => preset.id === quality) ?? GRAPHICS_PRESETS[GRAPHICS_PRESETS.length - 1]
+}
+
+export type EffectsQuality = 'off' | 'subtle' | 'full'
+
+export interface EffectsPreset {
+  id: EffectsQuality
+  label: string
+  // Off skips the post-processing composer entirely
+  enabled: boolean
+  // Colour fringing needs a pass of its own
+  aberration: boolean
+  // How far grain, vignette and fringing swing as danger closes in
+  strength: number
+}
+
+export const EFFECTS_PRESETS: readonly EffectsPreset[] = [
+  { id: 'off', label: 'Off', enabled: false, aberration: false, strength: 0 },
+  { id: 'subtle', label: 'Subtle', enabled: true, aberration: false, strength: 0.5 },
+  { id: 'full', label: 'Full', enabled: true, aberration: true, strength: 1 },
+]
+
+export const DEFAULT_EFFECTS: EffectsQuality = graphicsPreset(DEFAULT_GRAPHICS).effects
+
+export function effectsPreset(quality: EffectsQuality): EffectsPreset {
+  return EFFECTS_PRESETS.find(preset => preset.id === quality) ?? EFFECTS_PRESETS[EFFECTS_PRESETS.length - 1]
+}
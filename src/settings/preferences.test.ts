@@ -0,0 +1,39 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { createMemoryStore } from '../storage/keyValue'
+import { DEFAULT_PREFERENCES, loadPreferences, savePreferences } from './preferences'
+
+function systemReducesMotion(reduce: boolean) {
+  vi.mocked(window.matchMedia).mockImplementation(query => ({
+    matches: reduce,
+    media: query,
+    onchange: null,
+    addListener: vi.fn(),
+    removeListener: vi.fn(),
+    addEventListener: vi.fn(),
+    removeEventListener: vi.fn(),
+    dispatchEvent: vi.fn(() => false),
+  }))
+}
+
+describe('loadPreferences', () => {
+  afterEach(() => systemReducesMotion(false))
+
+  it('follows a reduced-motion setting turned on after the defaults were saved', () => {
+    const store = createMemoryStore()
+    savePreferences(loadPreferences(store), store)
+    systemReducesMotion(true)
+    const { accessibility } = loadPreferences(store)
+    expect(accessibility.jumpscare).toBe('reduced-motion')
+    expect(accessibility.reduceMotion).toBe(true)
+  })
+
+  it('keeps motion settings the player chose', () => {
+    const store = createMemoryStore()
+    savePreferences({
+      ...DEFAULT_PREFERENCES,
+      accessibility: { ...DEFAULT_PREFERENCES.accessibility, jumpscare: 'full', followSystemMotion: false },
+    }, store)
+    systemReducesMotion(true)
+    expect(loadPreferences(store).accessibility.jumpscare).toBe('full')
+  })
+})
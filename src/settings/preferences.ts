@@ -0,0 +1,139 @@
+import { AudioMix, DEFAULT_MIX } from '../audio/engine'
+import { CAMERA_MODES, CameraMode, DEFAULT_CAMERA_MODE } from '../game/camera'
+import { DEFAULT_DIFFICULTY, DIFFICULTY_MODES, DifficultyMode } from '../game/difficulty'
+import { KeyValueStore, browserStore, readJson, writeJson } from '../storage/keyValue'
+import {
+  DEFAULT_EFFECTS,
+  DEFAULT_GRAPHICS,
+  EFFECTS_PRESETS,
+  EffectsQuality,
+  GRAPHICS_PRESETS,
+  GraphicsQuality,
+  graphicsPreset,
+} from './graphics'
+import {
+  COLOR_PALETTES,
+  ColorPalette,
+  JUMPSCARE_INTENSITIES,
+  JumpscareIntensity,
+  prefersReducedMotion,
+} from './accessibility'
+
+export interface AccessibilityOptions {
+  jumpscare: JumpscareIntensity
+  // Turns off head bob and floating props
+  reduceMotion: boolean
+  palette: ColorPalette
+  // Pale walls on a black floor instead of dark red on near-black
+  highContrast: boolean
+  // Mouse and touch look: pushing up looks down
+  invertLook: boolean
+  // Jumpscare intensity and reduced motion track the system's
+  // prefers-reduced-motion until the player picks their own
+  followSystemMotion: boolean
+}
+
+export interface Preferences {
+  difficulty: DifficultyMode
+  cameraMode: CameraMode
+  mix: AudioMix
+  graphics: GraphicsQuality
+  // Post-processing: film grain, vignette, colour fringing
+  effects: EffectsQuality
+  // VHS-style scanlines on top of the other effects
+  scanlines: boolean
+  // Marks visited cells on the floor and the minimap
+  breadcrumbs: boolean
+  accessibility: AccessibilityOptions
+}
+
+export const DEFAULT_ACCESSIBILITY: AccessibilityOptions = {
+  jumpscare: 'full',
+  reduceMotion: false,
+  palette: 'standard',
+  highContrast: false,
+  invertLook: false,
+  followSystemMotion: true,
+}
+
+// Players who asked their OS for less motion start toned down; they can
+// still opt back in from the settings
+export function defaultAccessibility(): AccessibilityOptions {
+  return withSystemMotion(DEFAULT_ACCESSIBILITY, prefersReducedMotion())
+}
+
+// Applies the system's reduced-motion preference while the player hasn't
+// chosen their own
+export function withSystemMotion(options: AccessibilityOptions, reduce: boolean): AccessibilityOptions {
+  if (!options.followSystemMotion) return options
+  const jumpscare = reduce ? 'reduced-motion' : 'full'
+  if (options.jumpscare === jumpscare && options.reduceMotion === reduce) return options
+  return { ...options, jumpscare, reduceMotion: reduce }
+}
+
+export const DEFAULT_PREFERENCES: Preferences = {
+  difficulty: DEFAULT_DIFFICULTY,
+  cameraMode: DEFAULT_CAMERA_MODE,
+  mix: DEFAULT_MIX,
+  graphics: DEFAULT_GRAPHICS,
+  effects: DEFAULT_EFFECTS,
+  scanlines: false,
+  breadcrumbs: false,
+  accessibility: DEFAULT_ACCESSIBILITY,
+}
+
+const PREFERENCES_KEY = 'maze.preferences.v1'
+
+type Saved = Record<string, unknown>
+
+function readOption<T extends string>(value: unknown, options: readonly { id: T }[], fallback: T): T {
+  return options.find(option => option.id === value)?.id ?? fallback
+}
+
+function readFields<T extends object>(saved: unknown, defaults: T, valid: (value: unknown, fallback: unknown) => boolean): T {
+  const result = { ...defaults }
+  if (!saved || typeof saved !== 'object') return result
+  for (const key of Object.keys(defaults) as (keyof T)[]) {
+    const value = (saved as Saved)[key as string]
+    if (valid(value, defaults[key])) result[key] = value as T[keyof T]
+  }
+  return result
+}
+
+function readAccessibility(saved: unknown): AccessibilityOptions {
+  const defaults = defaultAccessibility()
+  const fields = (saved && typeof saved === 'object' ? saved : {}) as Saved
+  // Saves from before followSystemMotion existed stored the defaults on first
+  // launch, so they go back to following the system
+  return withSystemMotion({
+    ...readFields(saved, defaults, (value, fallback) => typeof fallback === 'boolean' && typeof value === 'boolean'),
+    jumpscare: readOption(fields.jumpscare, JUMPSCARE_INTENSITIES, defaults.jumpscare),
+    palette: readOption(fields.palette, COLOR_PALETTES, defaults.palette),
+  }, prefersReducedMotion())
+}
+
+const isVolume = (value: unknown, fallback: unknown) =>
+  typeof fallback === 'number' ? typeof value === 'number' && value >= 0 && value <= 1 : typeof value === typeof fallback
+
+// Every field is checked on its own, so one bad value (or a setting added
+// since the save was written) only resets that field
+export function loadPreferences(store: KeyValueStore = browserStore): Preferences {
+  const saved = readJson<Saved>(store, PREFERENCES_KEY)
+  if (!saved || typeof saved !== 'object') return { ...DEFAULT_PREFERENCES, accessibility: defaultAccessibility() }
+  const graphics = readOption(saved.graphics, GRAPHICS_PRESETS, DEFAULT_PREFERENCES.graphics)
+  return {
+    difficulty: readOption(saved.difficulty, DIFFICULTY_MODES, DEFAULT_PREFERENCES.difficulty),
+    cameraMode: readOption(saved.cameraMode, CAMERA_MODES, DEFAULT_PREFERENCES.cameraMode),
+    mix: readFields(saved.mix, DEFAULT_MIX, isVolume),
+    graphics,
+    // Saves from before screen effects existed get the level their graphics quality implies
+    effects: readOption(saved.effects, EFFECTS_PRESETS, graphicsPreset(graphics).effects),
+    scanlines: typeof saved.scanlines === 'boolean' ? saved.scanlines : DEFAULT_PREFERENCES.scanlines,
+    breadcrumbs: typeof saved.breadcrumbs === 'boolean' ? saved.breadcrumbs : DEFAULT_PREFERENCES.breadcrumbs,
+    accessibility: readAccessibility(saved.accessibility),
+  }
+}
+
+export function savePreferences(preferences: Preferences, store: KeyValueStore = browserStore) {
+  writeJson(store, PREFERENCES_KEY, preferences)
+}
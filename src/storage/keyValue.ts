@@ -0,0 +1,61 @@
+// Minimal synchronous key/value surface so persistence can be swapped out
+// (tests, private browsing, a future backend) without touching callers
+export interface KeyValueStore {
+  get(key: string): string | null
+  set(key: string, value: string): void
+  remove(key: string): void
+}
+
+export function createMemoryStore(initial: Record<string, string> = {}): KeyValueStore {
+  const data = new Map(Object.entries(initial))
+  return {
+    get: key => data.get(key) ?? null,
+    set: (key, value) => { data.set(key, value) },
+    remove: key => { data.delete(key) },
+  }
+}
+
+// localStorage can throw (disabled, quota, sandboxed iframes); fall back to
+// memory so the game keeps working for the session
+function createBrowserStore(): KeyValueStore {
+  const fallback = createMemoryStore()
+  return {
+    get(key) {
+      try {
+        return localStorage.getItem(key)
+      } catch {
+        return fallback.get(key)
+      }
+    },
+    set(key, value) {
+      try {
+        localStorage.setItem(key, value)
+      } catch {
+        fallback.set(key, value)
+      }
+    },
+    remove(key) {
+      try {
+        localStorage.removeItem(key)
+      } catch {
+        fallback.remove(key)
+      }
+    },
+  }
+}
+
+export const browserStore: KeyValueStore = createBrowserStore()
+
+export function readJson<T>(store: KeyValueStore, key: string): T | null {
+  const raw = store.get(key)
+  if (raw === null) return null
+  try {
+    return JSON.parse(raw) as T
+  } catch {
+    return null
+  }
+}
+
+export function writeJson(store: KeyValueStore, key: string, value: unknown) {
+  store.set(key, JSON.stringify(value))
+}